@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'bun:test';
+import { formatBackfillSummary } from '../commands/backfill';
+
+describe('backfill formatBackfillSummary', () => {
+  test('lists counts and per-file errors', () => {
+    const text = formatBackfillSummary({
+      files: 3,
+      sessions: 2,
+      imported: 120,
+      skipped: 4,
+      recorded_sessions: 1,
+      errors: [{ file: '/p/a.jsonl', error: 'EACCES' }],
+    });
+    expect(text).toContain('Read 3 transcripts');
+    expect(text).toContain('Events imported:      120');
+    expect(text).toContain('Recorded by hooks:    1 session\n');
+    expect(text).toContain('Error: /p/a.jsonl: EACCES');
+  });
+});
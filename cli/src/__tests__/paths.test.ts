@@ -22,6 +22,11 @@ describe('paths', () => {
     expect(DEFAULT_DB_PATH).toBe(join(DATA_DIR, 'data.db'));
   });
 
+  test('TOKEN_FILE is inside DATA_DIR', async () => {
+    const { DATA_DIR, TOKEN_FILE } = await import('../paths');
+    expect(TOKEN_FILE).toBe(join(DATA_DIR, 'token'));
+  });
+
   test('resolveServerEntry returns a path ending in server/index.js', async () => {
     const { resolveServerEntry } = await import('../paths');
     const serverPath = resolveServerEntry();
@@ -1,5 +1,8 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
-import { parseOptions } from '../commands/start';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseOptions, writeAuthToken } from '../commands/start';
 
 describe('start parseOptions', () => {
   const originalEnv = { ...process.env };
@@ -18,6 +21,12 @@ describe('start parseOptions', () => {
     expect(options.port).toBe(3333);
     expect(options.open).toBe(false);
     expect(options.db).toContain('.claude-visualizer/data.db');
+    expect(options.auth).toBe(true);
+  });
+
+  test('--no-auth disables token auth', () => {
+    const options = parseOptions(['--no-auth']);
+    expect(options.auth).toBe(false);
   });
 
   test('--port sets custom port', () => {
@@ -62,3 +71,34 @@ describe('start parseOptions', () => {
     expect(options.db).toBe('/data/vis.db');
   });
 });
+
+describe('writeAuthToken', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'visualizer-start-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes a random hex token readable only by the owner', () => {
+    const tokenFile = join(dir, 'token');
+    const token = writeAuthToken(tokenFile);
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(readFileSync(tokenFile, 'utf-8')).toBe(token);
+    expect(statSync(tokenFile).mode & 0o777).toBe(0o600);
+  });
+
+  test('replaces an existing token and tightens its permissions', () => {
+    const tokenFile = join(dir, 'token');
+    writeFileSync(tokenFile, 'old', { mode: 0o644 });
+
+    const token = writeAuthToken(tokenFile);
+    expect(token).not.toBe('old');
+    expect(readFileSync(tokenFile, 'utf-8')).toBe(token);
+    expect(statSync(tokenFile).mode & 0o777).toBe(0o600);
+  });
+});
@@ -31,6 +31,9 @@ switch (command) {
   case 'clean':
     await import('./commands/clean').then(m => m.clean(args.slice(1)));
     break;
+  case 'backfill':
+    await import('./commands/backfill').then(m => m.backfill());
+    break;
   case '--version':
   case '-v':
     console.log(`claude-visualizer ${getVersion()}`);
@@ -54,15 +57,18 @@ Usage:
   claude-visualizer stop              Stop the visualizer server
   claude-visualizer status            Show server status
   claude-visualizer clean [--force]   Remove local data (db, pid file)
+  claude-visualizer backfill          Import past sessions from ~/.claude/projects transcripts
 
 Options (start):
   --port <number>   Server port (default: 3333, env: VISUALIZER_PORT)
   --open            Open browser after starting
   --db <path>       Database file path (default: ~/.claude-visualizer/data.db)
+  --no-auth         Do not require the auth token (development only)
 
 Environment variables:
   VISUALIZER_PORT          Server port
   CLAUDE_VISUALIZER_DB     Database file path
-  CLAUDE_VISUALIZER_URL    Full server URL for hooks
+  CLAUDE_VISUALIZER_URL    Full server URL for hooks and backfill
+  CLAUDE_VISUALIZER_TOKEN  Auth token (overrides ~/.claude-visualizer/token)
 `);
 }
@@ -0,0 +1,53 @@
+import { resolveAuthToken, resolveServerBaseUrl, TOKEN_HEADER } from '@shared/connection';
+
+/** Shape of the POST /api/backfill response. */
+export interface BackfillSummary {
+  files: number;
+  sessions: number;
+  imported: number;
+  skipped: number;
+  recorded_sessions: number;
+  errors: Array<{ file: string; error: string }>;
+}
+
+// Months of transcripts take a while to import
+const BACKFILL_TIMEOUT_MS = 10 * 60_000;
+
+export function formatBackfillSummary(summary: BackfillSummary): string {
+  const lines = [
+    `Read ${summary.files} transcript${summary.files === 1 ? '' : 's'}`,
+    `  Sessions backfilled:  ${summary.sessions}`,
+    `  Events imported:      ${summary.imported}`,
+    `  Already imported:     ${summary.skipped}`,
+    `  Recorded by hooks:    ${summary.recorded_sessions} session${summary.recorded_sessions === 1 ? '' : 's'}`,
+  ];
+  for (const { file, error } of summary.errors) {
+    lines.push(`  Error: ${file}: ${error}`);
+  }
+  return lines.join('\n');
+}
+
+export async function backfill(): Promise<void> {
+  // Same server address and token as the hooks
+  const baseUrl = resolveServerBaseUrl();
+  const token = resolveAuthToken();
+
+  console.log('Importing Claude Code transcripts...');
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/api/backfill`, {
+      method: 'POST',
+      headers: token ? { [TOKEN_HEADER]: token } : {},
+      signal: AbortSignal.timeout(BACKFILL_TIMEOUT_MS),
+    });
+  } catch {
+    console.error(`Cannot reach the server at ${baseUrl}. Start it with: claude-visualizer start`);
+    process.exit(1);
+  }
+
+  if (!res.ok) {
+    console.error(`Backfill failed: HTTP ${res.status}`);
+    process.exit(1);
+  }
+  console.log(formatBackfillSummary((await res.json()) as BackfillSummary));
+}
@@ -1,10 +1,13 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'node:fs';
-import { DATA_DIR, PID_FILE, DEFAULT_DB_PATH, resolveServerEntry, resolveClientDir } from '../paths';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync, chmodSync, rmSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { DATA_DIR, PID_FILE, DEFAULT_DB_PATH, TOKEN_FILE, resolveServerEntry, resolveClientDir } from '../paths';
 
 export interface StartOptions {
   port: number;
   open: boolean;
   db: string;
+  /** Require the shared token on API and WebSocket requests (disable with --no-auth). */
+  auth: boolean;
 }
 
 export function parseOptions(args: string[]): StartOptions {
@@ -12,6 +15,7 @@ export function parseOptions(args: string[]): StartOptions {
     port: Number(process.env.VISUALIZER_PORT) || 3333,
     open: false,
     db: process.env.CLAUDE_VISUALIZER_DB || DEFAULT_DB_PATH,
+    auth: true,
   };
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--port' && args[i + 1]) {
@@ -19,6 +23,8 @@ export function parseOptions(args: string[]): StartOptions {
       i++;
     } else if (args[i] === '--open') {
       options.open = true;
+    } else if (args[i] === '--no-auth') {
+      options.auth = false;
     } else if (args[i] === '--db' && args[i + 1]) {
       options.db = args[i + 1];
       i++;
@@ -27,6 +33,18 @@ export function parseOptions(args: string[]): StartOptions {
   return options;
 }
 
+/**
+ * Generate a fresh auth token and write it to the token file, readable only
+ * by the current user. Hooks read it from there to authenticate.
+ */
+export function writeAuthToken(tokenFile: string = TOKEN_FILE): string {
+  const token = randomBytes(32).toString('hex');
+  writeFileSync(tokenFile, token, { mode: 0o600 });
+  // writeFileSync only applies mode when creating the file
+  chmodSync(tokenFile, 0o600);
+  return token;
+}
+
 function isProcessAlive(pid: number): boolean {
   try {
     process.kill(pid, 0);
@@ -72,14 +90,29 @@ export async function start(args: string[]): Promise<void> {
   const serverEntry = resolveServerEntry();
   const clientDir = resolveClientDir();
 
+  // New token per start; --no-auth removes any stale one so hooks stop sending it
+  let token: string | null = null;
+  if (options.auth) {
+    token = writeAuthToken();
+  } else {
+    rmSync(TOKEN_FILE, { force: true });
+  }
+
+  const env: Record<string, string | undefined> = {
+    ...process.env,
+    VISUALIZER_PORT: String(options.port),
+    CLAUDE_VISUALIZER_DB: options.db,
+    VISUALIZER_CLIENT_DIR: clientDir,
+  };
+  if (token) {
+    env.CLAUDE_VISUALIZER_TOKEN = token;
+  } else {
+    delete env.CLAUDE_VISUALIZER_TOKEN;
+  }
+
   // Spawn detached server process
   const proc = Bun.spawn(['bun', 'run', serverEntry], {
-    env: {
-      ...process.env,
-      VISUALIZER_PORT: String(options.port),
-      CLAUDE_VISUALIZER_DB: options.db,
-      VISUALIZER_CLIENT_DIR: clientDir,
-    },
+    env,
     stdio: ['ignore', 'ignore', 'ignore'],
   });
 
@@ -95,8 +128,13 @@ export async function start(args: string[]): Promise<void> {
     process.exit(1);
   }
 
-  const url = `http://localhost:${options.port}`;
+  const baseUrl = `http://localhost:${options.port}`;
+  // The ?token= link sets the browser's auth cookie on first visit
+  const url = token ? `${baseUrl}/?token=${token}` : baseUrl;
   console.log(`Visualizer server running at ${url} (PID ${proc.pid})`);
+  if (!token) {
+    console.log('Authentication disabled (--no-auth)');
+  }
 
   if (options.open) {
     const openCmd = process.platform === 'darwin' ? 'open' : 'xdg-open';
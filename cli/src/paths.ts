@@ -1,6 +1,8 @@
 import { join, resolve } from 'node:path';
 import { homedir } from 'node:os';
 
+export { TOKEN_FILE } from '@shared/connection';
+
 export const DATA_DIR = join(homedir(), '.claude-visualizer');
 export const PID_FILE = join(DATA_DIR, 'server.pid');
 export const DEFAULT_DB_PATH = join(DATA_DIR, 'data.db');
@@ -1,15 +1,30 @@
+import { useEffect } from 'react';
 import { VisualizerCanvas } from './components/VisualizerCanvas';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { GlobalHUD } from './components/GlobalHUD';
 import { AgentDetailPanel } from './components/AgentDetailPanel';
+import { SearchBox } from './components/SearchBox';
+import { startAttentionNotifier } from './notifications/AttentionNotifier';
+import { useVisualizerStore } from './store/useVisualizerStore';
 
 export function App() {
+  // Title/favicon badge and browser notifications for waiting agents
+  useEffect(() => startAttentionNotifier(), []);
+
+  // Prices for cost estimates, with any overrides configured on the server
+  useEffect(() => {
+    useVisualizerStore.getState().loadPricing();
+  }, []);
+
   return (
     <div style={{ position: 'relative', width: '100%', height: '100vh' }}>
       <VisualizerCanvas />
       <ErrorBoundary>
         <GlobalHUD />
       </ErrorBoundary>
+      <ErrorBoundary>
+        <SearchBox />
+      </ErrorBoundary>
       <ErrorBoundary>
         <AgentDetailPanel />
       </ErrorBoundary>
@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { AgentNode } from '@shared/agent';
+import {
+  AttentionNotifier,
+  badgeFavicon,
+  badgeTitle,
+  loadPreferences,
+  savePreferences,
+  PREFERENCES_STORAGE_KEY,
+  type NotificationHandle,
+  type NotificationPreferences,
+  type NotifierEnvironment,
+} from '../notifications/AttentionNotifier';
+
+// ---------------------------------------------------------------------------
+// Fake browser environment
+// ---------------------------------------------------------------------------
+
+class FakeNotification implements NotificationHandle {
+  onclick: ((event: Event) => void) | null = null;
+  closed = false;
+  constructor(public title: string, public options: NotificationOptions) {}
+  close() { this.closed = true; }
+}
+
+class FakeEnvironment implements NotifierEnvironment {
+  background = true;
+  permitted = true;
+  preferences: NotificationPreferences = { permission_request: true, notification: true };
+  shown: FakeNotification[] = [];
+  title = '';
+  favicon: string | null = null;
+  windowFocused = 0;
+  focusedAgents: string[] = [];
+
+  isInBackground() { return this.background; }
+  canNotify() { return this.permitted; }
+  showNotification(title: string, options: NotificationOptions) {
+    const notification = new FakeNotification(title, options);
+    this.shown.push(notification);
+    return notification;
+  }
+  getPreferences() { return this.preferences; }
+  setTitle(title: string) { this.title = title; }
+  setFavicon(href: string | null) { this.favicon = href; }
+  focusWindow() { this.windowFocused++; }
+  focusAgent(agentId: string) { this.focusedAgents.push(agentId); }
+}
+
+function makeAgent(overrides: Partial<AgentNode> = {}): AgentNode {
+  return {
+    id: 'agent-1',
+    parentId: null,
+    children: [],
+    status: 'active',
+    agentType: 'main',
+    model: 'test-model',
+    taskDescription: null,
+    position: { x: 0, y: 0, z: 0 },
+    activeToolCall: null,
+    notificationMessage: null,
+    notificationType: null,
+    usage: null,
+    ...overrides,
+  };
+}
+
+function agents(...list: AgentNode[]): Map<string, AgentNode> {
+  return new Map(list.map((a) => [a.id, a]));
+}
+
+const waitingFor = (type: 'permission_request' | 'notification', message = 'Allow Bash?', id = 'agent-1') =>
+  makeAgent({ id, status: 'waiting', notificationType: type, notificationMessage: message });
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('AttentionNotifier', () => {
+  let env: FakeEnvironment;
+  let notifier: AttentionNotifier;
+
+  beforeEach(() => {
+    env = new FakeEnvironment();
+    notifier = new AttentionNotifier(env, 'Visualizer');
+  });
+
+  test('notifies when a known agent starts waiting', () => {
+    notifier.sync(agents(makeAgent()));
+    notifier.sync(agents(waitingFor('permission_request', 'Allow Bash?')));
+
+    expect(env.shown).toHaveLength(1);
+    expect(env.shown[0].title).toBe('Permission needed');
+    expect(env.shown[0].options).toEqual({ body: 'main: Allow Bash?', tag: 'claude-visualizer:agent-1' });
+  });
+
+  test('does not notify for agents that appear already waiting (history replay)', () => {
+    notifier.sync(agents(waitingFor('permission_request')));
+    expect(env.shown).toHaveLength(0);
+    expect(env.title).toBe('(1) Visualizer');
+  });
+
+  test('notifies once per kind while the agent keeps waiting', () => {
+    notifier.sync(agents(makeAgent()));
+    notifier.sync(agents(waitingFor('notification', 'Waiting for input')));
+    notifier.sync(agents(waitingFor('notification', 'Still waiting')));
+    notifier.sync(agents(waitingFor('permission_request')));
+    expect(env.shown.map((n) => n.title)).toEqual(['Agent waiting', 'Permission needed']);
+    expect(env.shown[0].closed).toBe(true);
+
+    // A new wait after resuming work notifies again
+    notifier.sync(agents(makeAgent()));
+    expect(env.shown[1].closed).toBe(true);
+    notifier.sync(agents(waitingFor('permission_request')));
+    expect(env.shown).toHaveLength(3);
+  });
+
+  test('respects per-kind opt-in', () => {
+    env.preferences = { permission_request: true, notification: false };
+    notifier.sync(agents(makeAgent(), makeAgent({ id: 'agent-2' })));
+    notifier.sync(agents(waitingFor('notification'), waitingFor('permission_request', 'Allow?', 'agent-2')));
+    expect(env.shown.map((n) => n.options.tag)).toEqual(['claude-visualizer:agent-2']);
+  });
+
+  test('stays quiet while the tab is in the foreground or permission is missing', () => {
+    env.background = false;
+    notifier.sync(agents(makeAgent()));
+    notifier.sync(agents(waitingFor('permission_request')));
+
+    env.background = true;
+    env.permitted = false;
+    notifier.sync(agents(makeAgent({ id: 'agent-2' })));
+    notifier.sync(agents(waitingFor('permission_request', 'Allow?', 'agent-2')));
+
+    expect(env.shown).toHaveLength(0);
+  });
+
+  test('clicking a notification focuses the window and the agent desk', () => {
+    notifier.sync(agents(makeAgent()));
+    notifier.sync(agents(waitingFor('permission_request')));
+    env.shown[0].onclick!(new Event('click'));
+
+    expect(env.windowFocused).toBe(1);
+    expect(env.focusedAgents).toEqual(['agent-1']);
+    expect(env.shown[0].closed).toBe(true);
+  });
+
+  test('badges the title and favicon with the waiting count', () => {
+    notifier.sync(agents(makeAgent(), makeAgent({ id: 'agent-2' })));
+    expect(env.title).toBe('');
+
+    notifier.sync(agents(waitingFor('notification'), waitingFor('permission_request', 'Allow?', 'agent-2')));
+    expect(env.title).toBe('(2) Visualizer');
+    expect(env.favicon).toBe(badgeFavicon(2));
+
+    notifier.sync(agents(makeAgent(), makeAgent({ id: 'agent-2' })));
+    expect(env.title).toBe('Visualizer');
+    expect(env.favicon).toBeNull();
+  });
+});
+
+describe('badges', () => {
+  test('badgeTitle prefixes the count', () => {
+    expect(badgeTitle('Visualizer', 0)).toBe('Visualizer');
+    expect(badgeTitle('Visualizer', 3)).toBe('(3) Visualizer');
+  });
+
+  test('badgeFavicon caps the label at 9+', () => {
+    expect(decodeURIComponent(badgeFavicon(4))).toContain('>4</text>');
+    expect(decodeURIComponent(badgeFavicon(12))).toContain('>9+</text>');
+  });
+});
+
+describe('notification preferences', () => {
+  function memoryStorage() {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); },
+    };
+  }
+
+  test('default to off and round-trip through storage', () => {
+    const storage = memoryStorage();
+    expect(loadPreferences(storage)).toEqual({ permission_request: false, notification: false });
+
+    savePreferences(storage, { permission_request: true, notification: false });
+    expect(loadPreferences(storage)).toEqual({ permission_request: true, notification: false });
+  });
+
+  test('ignore corrupt stored values', () => {
+    const storage = memoryStorage();
+    storage.setItem(PREFERENCES_STORAGE_KEY, '{oops');
+    expect(loadPreferences(storage)).toEqual({ permission_request: false, notification: false });
+  });
+});
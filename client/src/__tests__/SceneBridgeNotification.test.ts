@@ -69,6 +69,7 @@ function makeAgent(overrides: Partial<AgentNode> = {}): AgentNode {
     activeToolCall: null,
     notificationMessage: null,
     notificationType: null,
+    usage: null,
     ...overrides,
   };
 }
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
-import { useVisualizerStore } from '../store/useVisualizerStore';
+import { useVisualizerStore, subscriptionFilterFromQuery, reconnectDelay } from '../store/useVisualizerStore';
+import { selectFocusedAgentCost, selectFocusedHighlight, selectSessionUsage } from '../store/selectors';
 import type { VisualizerEvent } from '@shared/events';
 import type {
   SessionStartedEvent,
@@ -13,6 +14,7 @@ import type {
   WaitingForUserEvent,
   SessionEndedEvent,
   ContextCompactionEvent,
+  TokenUsageEvent,
 } from '@shared/events';
 
 // ---------------------------------------------------------------------------
@@ -707,6 +709,69 @@ describe('useVisualizerStore', () => {
     });
   });
 
+  // =========================================================================
+  // processEvent: TokenUsage
+  // =========================================================================
+
+  describe('processEvent: TokenUsage', () => {
+    const counts = (input: number, output: number) => ({
+      input_tokens: input,
+      output_tokens: output,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    });
+
+    function makeTokenUsage(overrides: Partial<TokenUsageEvent> = {}): TokenUsageEvent {
+      return {
+        id: nextId(),
+        type: 'TokenUsage',
+        timestamp: makeTimestamp(),
+        session_id: SESSION_ID,
+        agent_id: SESSION_ID,
+        model: null,
+        total: counts(1_000_000, 0),
+        turn: counts(1_000_000, 0),
+        responses: 1,
+        ...overrides,
+      };
+    }
+
+    test('totals the session over agents that have left the scene', () => {
+      setupRootSession();
+      processEvent(makeAgentSpawned(), Date.now());
+      processEvent(makeTokenUsage({ agent_id: AGENT_ID, model: 'claude-haiku-4-5', total: counts(1_000_000, 0) }));
+      processEvent(makeAgentCompleted(), Date.now());
+      useVisualizerStore.getState().cleanupStaleAgents();
+      processEvent(makeTokenUsage({ total: counts(500_000, 100_000) }));
+
+      expect(getState().agents.has(AGENT_ID)).toBe(false);
+      // Haiku 4.5 at $1 in; the root at the SessionStarted model, Sonnet 4 at $3 in / $15 out
+      const usage = selectSessionUsage(getState())!;
+      expect(usage.tokens).toBe(1_600_000);
+      expect(usage.cost).toBeCloseTo(1 + 1.5 + 1.5);
+    });
+
+    test('latest report replaces the previous one and prices the focused agent', () => {
+      setupRootSession();
+      processEvent(makeTokenUsage({ total: counts(1, 1) }));
+      processEvent(makeTokenUsage({ total: counts(1_000_000, 0) }));
+      useVisualizerStore.getState().focusAgent(SESSION_ID);
+
+      expect(selectSessionUsage(getState())?.tokens).toBe(1_000_000);
+      expect(selectFocusedAgentCost(getState())).toBeCloseTo(3);
+    });
+
+    test('has no session usage or cost for unknown models', () => {
+      setupRootSession();
+      expect(selectSessionUsage(getState())).toBeNull();
+
+      processEvent(makeTokenUsage({ model: 'local-model' }));
+      useVisualizerStore.getState().focusAgent(SESSION_ID);
+      expect(selectSessionUsage(getState())?.cost).toBeNull();
+      expect(selectFocusedAgentCost(getState())).toBeNull();
+    });
+  });
+
   // =========================================================================
   // totalEventsReceived counter
   // =========================================================================
@@ -964,6 +1029,74 @@ describe('useVisualizerStore', () => {
     });
   });
 
+  // =========================================================================
+  // noteRateLimited()
+  // =========================================================================
+
+  describe('noteRateLimited()', () => {
+    test('records the latest notice until reset', () => {
+      expect(getState().rateLimited).toBeNull();
+      getState().noteRateLimited('sess-flood', 3);
+      getState().noteRateLimited('sess-flood', 40);
+      expect(getState().rateLimited).toEqual({ sessionId: 'sess-flood', dropped: 40 });
+
+      getState().reset();
+      expect(getState().rateLimited).toBeNull();
+    });
+  });
+
+  // =========================================================================
+  // jumpToSession()
+  // =========================================================================
+
+  describe('jumpToSession()', () => {
+    test('focuses the session root when it is already in the scene', () => {
+      setupRootSession();
+      getState().jumpToSession(SESSION_ID);
+      expect(getState().focusedAgentId).toBe(SESSION_ID);
+    });
+
+    test('does not focus an unknown session without history', () => {
+      getState().jumpToSession(SESSION_ID_2);
+      expect(getState().focusedAgentId).toBeNull();
+    });
+
+    test('clears the current tree before loading another session', () => {
+      setupWithSubAgent();
+      processEvent(makeToolCallStarted({ session_id: SESSION_ID }));
+      const sent: string[] = [];
+      const socket = { readyState: WebSocket.OPEN, send: (data: string) => sent.push(data), close() {} };
+      useVisualizerStore.setState({ websocket: socket as unknown as WebSocket });
+
+      getState().jumpToSession(SESSION_ID_2);
+
+      expect(getState().agents.size).toBe(0);
+      expect(getState().rootAgentId).toBeNull();
+      expect(getState().activeToolCalls.size).toBe(0);
+      expect(sent.map((m) => JSON.parse(m))).toEqual([{ type: 'subscribe', sessionId: SESSION_ID_2 }]);
+    });
+
+    test('highlights the hit it was given, replacing any earlier one', () => {
+      setupRootSession();
+      const hit = {
+        id: 'evt-hit',
+        sessionId: SESSION_ID,
+        type: 'UserPrompt',
+        timestamp: makeTimestamp(),
+        snippet: 'fix it',
+      };
+      getState().jumpToSession(SESSION_ID, hit);
+      expect(getState().highlightedEvent).toEqual(hit);
+      expect(selectFocusedHighlight(getState())).toEqual(hit);
+
+      getState().focusAgent(null);
+      expect(selectFocusedHighlight(getState())).toBeNull();
+
+      getState().jumpToSession(SESSION_ID);
+      expect(getState().highlightedEvent).toBeNull();
+    });
+  });
+
   // =========================================================================
   // setBufferDelay()
   // =========================================================================
@@ -1499,3 +1632,26 @@ describe('useVisualizerStore', () => {
     });
   });
 });
+
+describe('subscriptionFilterFromQuery', () => {
+  test('returns null without filter parameters', () => {
+    expect(subscriptionFilterFromQuery('')).toBeNull();
+    expect(subscriptionFilterFromQuery('?foo=bar&sessions=')).toBeNull();
+  });
+
+  test('parses comma-separated lists', () => {
+    expect(subscriptionFilterFromQuery('?sessions=a, b&types=ToolCallFailed&agents=x')).toEqual({
+      sessionIds: ['a', 'b'],
+      eventTypes: ['ToolCallFailed'],
+      agentIds: ['x'],
+    });
+  });
+});
+
+describe('reconnectDelay', () => {
+  test('doubles from 1s and caps at 30s', () => {
+    expect([0, 1, 2, 3, 4].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000]);
+    expect(reconnectDelay(5)).toBe(30_000);
+    expect(reconnectDelay(20)).toBe(30_000);
+  });
+});
@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useVisualizerStore } from '../store/useVisualizerStore';
-import { selectFocusedAgent } from '../store/selectors';
+import { selectFocusedAgent, selectFocusedAgentCost, selectFocusedHighlight } from '../store/selectors';
 import type { AgentStatus } from '@shared/agent';
+import type { TokenCounts } from '@shared/events';
+import { formatCost } from '@shared/pricing';
 
 // ---------------------------------------------------------------------------
 // Status color mapping (matches 3D scene indicator colors)
@@ -70,6 +72,17 @@ function truncateId(id: string, maxLen = 12): string {
   return id.slice(0, maxLen) + '...';
 }
 
+// ---------------------------------------------------------------------------
+// Token usage rows
+// ---------------------------------------------------------------------------
+
+const USAGE_ROWS: Array<[keyof TokenCounts, string]> = [
+  ['input_tokens', 'Input'],
+  ['output_tokens', 'Output'],
+  ['cache_creation_input_tokens', 'Cache write'],
+  ['cache_read_input_tokens', 'Cache read'],
+];
+
 // ---------------------------------------------------------------------------
 // Styles
 // ---------------------------------------------------------------------------
@@ -224,6 +237,18 @@ const styles = {
     fontSize: '11px',
     marginTop: '4px',
   },
+  highlightBox: {
+    background: 'rgba(251, 191, 36, 0.1)',
+    border: '1px solid rgba(251, 191, 36, 0.35)',
+    borderRadius: '8px',
+    padding: '10px 12px',
+    fontSize: '12px',
+  },
+  highlightMeta: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: '11px',
+    marginBottom: '4px',
+  },
   taskDescription: {
     color: 'rgba(255, 255, 255, 0.8)',
     fontSize: '12px',
@@ -242,6 +267,8 @@ const styles = {
 export function AgentDetailPanel() {
   const agent = useVisualizerStore(selectFocusedAgent);
   const focusAgent = useVisualizerStore((s) => s.focusAgent);
+  const cost = useVisualizerStore(selectFocusedAgentCost);
+  const highlight = useVisualizerStore(selectFocusedHighlight);
 
   // Track visibility separately for slide-in animation
   const [visible, setVisible] = useState(false);
@@ -327,6 +354,22 @@ export function AgentDetailPanel() {
               </>
             )}
 
+            {/* Search hit that led here */}
+            {highlight && (
+              <>
+                <div style={styles.divider} />
+                <div style={styles.section}>
+                  <div style={styles.sectionTitle}>Search Hit</div>
+                  <div style={styles.highlightBox} title={highlight.id}>
+                    <div style={styles.highlightMeta}>
+                      {highlight.type} · {new Date(highlight.timestamp).toLocaleString()}
+                    </div>
+                    <div style={styles.notificationMessage}>{highlight.snippet}</div>
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Active tool call */}
             {agent.activeToolCall && (
               <>
@@ -343,6 +386,26 @@ export function AgentDetailPanel() {
               </>
             )}
 
+            {/* Token usage (reported from the transcript when the agent stops) */}
+            {agent.usage && (
+              <>
+                <div style={styles.divider} />
+                <div style={styles.section}>
+                  <div style={styles.sectionTitle}>Tokens</div>
+                  {USAGE_ROWS.map(([field, label]) => (
+                    <div key={field} style={styles.row}>
+                      <span style={styles.label}>{label}</span>
+                      <span style={styles.value}>{agent.usage![field].toLocaleString('en-US')}</span>
+                    </div>
+                  ))}
+                  <div style={styles.row}>
+                    <span style={styles.label}>Est. cost</span>
+                    <span style={styles.value}>{cost === null ? 'Unknown model' : formatCost(cost)}</span>
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Task description (sub-agents) */}
             {agent.taskDescription && (
               <>
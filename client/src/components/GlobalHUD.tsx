@@ -1,7 +1,15 @@
 import { useShallow } from 'zustand/react/shallow';
 import { useVisualizerStore } from '../store/useVisualizerStore';
-import { selectStats, selectConnectionStatus } from '../store/selectors';
+import {
+  selectStats,
+  selectConnectionStatus,
+  selectSyncStatus,
+  selectRateLimited,
+  selectSessionUsage,
+} from '../store/selectors';
+import { formatCost } from '@shared/pricing';
 import type { ConnectionStatus } from '../store/useVisualizerStore';
+import { NotificationSettings } from './NotificationSettings';
 
 const STATUS_COLORS: Record<ConnectionStatus, string> = {
   connected: '#4ade80',
@@ -17,12 +25,21 @@ const STATUS_LABELS: Record<ConnectionStatus, string> = {
   disconnected: 'Disconnected',
 };
 
+const CATCHING_UP_COLOR = '#60a5fa';
+const RATE_LIMITED_COLOR = '#f97316';
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
 export function GlobalHUD() {
   const connectionStatus = useVisualizerStore(selectConnectionStatus);
+  const syncStatus = useVisualizerStore(selectSyncStatus);
   const stats = useVisualizerStore(useShallow(selectStats));
   const sessionId = useVisualizerStore((s) => s.currentSessionId);
+  const rateLimited = useVisualizerStore(selectRateLimited);
+  const sessionUsage = useVisualizerStore(useShallow(selectSessionUsage));
 
-  const dotColor = STATUS_COLORS[connectionStatus];
+  const catchingUp = connectionStatus === 'connected' && syncStatus === 'catching_up';
+  const dotColor = catchingUp ? CATCHING_UP_COLOR : STATUS_COLORS[connectionStatus];
   const truncatedSession = sessionId ? sessionId.slice(0, 8) : '--';
 
   return (
@@ -36,9 +53,19 @@ export function GlobalHUD() {
             boxShadow: `0 0 6px ${dotColor}`,
           }}
         />
-        <span style={styles.label}>{STATUS_LABELS[connectionStatus]}</span>
+        <span style={styles.label}>{catchingUp ? 'Catching up...' : STATUS_LABELS[connectionStatus]}</span>
       </div>
 
+      {/* Server dropping events of a flooding session */}
+      {rateLimited && (
+        <div style={styles.row} title={`Session ${rateLimited.sessionId} exceeded the server's ingest rate limit`}>
+          <span style={{ ...styles.dot, backgroundColor: RATE_LIMITED_COLOR, boxShadow: `0 0 6px ${RATE_LIMITED_COLOR}` }} />
+          <span style={{ ...styles.label, color: RATE_LIMITED_COLOR }}>
+            Rate limited ({rateLimited.dropped} dropped)
+          </span>
+        </div>
+      )}
+
       {/* Stats */}
       <div style={styles.statsGrid}>
         <div style={styles.statItem}>
@@ -57,6 +84,21 @@ export function GlobalHUD() {
           <span style={styles.statValue}>{stats.totalEvents}</span>
           <span style={styles.statLabel}>Events</span>
         </div>
+        {/* Session totals, once an agent has reported token usage */}
+        {sessionUsage && (
+          <>
+            <div style={styles.statItem}>
+              <span style={styles.statValue}>{compactNumber.format(sessionUsage.tokens)}</span>
+              <span style={styles.statLabel}>Tokens</span>
+            </div>
+            <div style={styles.statItem} title="Estimated from list prices">
+              <span style={styles.statValue}>
+                {sessionUsage.cost === null ? '--' : formatCost(sessionUsage.cost)}
+              </span>
+              <span style={styles.statLabel}>Est. Cost</span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Session ID */}
@@ -64,6 +106,9 @@ export function GlobalHUD() {
         <span style={styles.sessionLabel}>Session:</span>
         <span style={styles.sessionValue}>{truncatedSession}</span>
       </div>
+
+      {/* Browser notification opt-in */}
+      <NotificationSettings />
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import {
+  loadPreferences,
+  savePreferences,
+  NOTIFICATION_KINDS,
+  type NotificationKind,
+  type NotificationPreferences,
+} from '../notifications/AttentionNotifier';
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  permission_request: 'Permissions',
+  notification: 'Waiting',
+};
+
+const ON_COLOR = '#f59e0b';
+
+/**
+ * NotificationSettings – per-kind opt-in for browser notifications, shown in
+ * the HUD. Enabling a kind asks for notification permission if needed.
+ */
+export function NotificationSettings() {
+  const supported = typeof Notification !== 'undefined';
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() => loadPreferences(localStorage));
+  const [permission, setPermission] = useState<NotificationPermission>(supported ? Notification.permission : 'denied');
+
+  if (!supported) return null;
+
+  const toggle = async (kind: NotificationKind) => {
+    const next = { ...preferences, [kind]: !preferences[kind] };
+    setPreferences(next);
+    savePreferences(localStorage, next);
+    if (next[kind] && Notification.permission === 'default') {
+      setPermission(await Notification.requestPermission());
+    }
+  };
+
+  return (
+    <div style={styles.row} title="Notify when an agent is waiting while this tab is in the background">
+      <span style={styles.label}>Notify:</span>
+      {permission === 'denied' ? (
+        <span style={styles.blocked}>blocked by browser</span>
+      ) : (
+        NOTIFICATION_KINDS.map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => void toggle(kind)}
+            style={{
+              ...styles.toggle,
+              color: preferences[kind] ? ON_COLOR : 'rgba(255, 255, 255, 0.5)',
+              borderColor: preferences[kind] ? ON_COLOR : 'rgba(255, 255, 255, 0.15)',
+            }}
+            aria-pressed={preferences[kind]}
+          >
+            {KIND_LABELS[kind]}
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 9,
+    opacity: 0.4,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 0.5,
+  },
+  toggle: {
+    background: 'transparent',
+    border: '1px solid',
+    borderRadius: 4,
+    padding: '1px 6px',
+    fontSize: 10,
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+  },
+  blocked: {
+    fontSize: 10,
+    opacity: 0.5,
+  },
+};
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react';
+import { useVisualizerStore } from '../store/useVisualizerStore';
+
+interface SearchHit {
+  event_id: string;
+  session_id: string;
+  type: string;
+  timestamp: string;
+  snippet: string;
+}
+
+const DEBOUNCE_MS = 250;
+
+const TYPE_LABELS: Record<string, string> = {
+  UserPrompt: 'Prompt',
+  ToolCallStarted: 'Tool',
+  ToolCallFailed: 'Error',
+  WaitingForUser: 'Notice',
+};
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+/**
+ * SearchBox – full-text search over prompts, tool inputs, errors and
+ * notifications. Selecting a hit focuses the desk of the session it belongs to
+ * and highlights the hit, both here and in the session's detail panel.
+ */
+export function SearchBox() {
+  const jumpToSession = useVisualizerStore((s) => s.jumpToSession);
+  const highlightedId = useVisualizerStore((s) => s.highlightedEvent?.id ?? null);
+  const highlightedRef = useRef<HTMLButtonElement | null>(null);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setHits([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=20`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) return;
+        setHits((await res.json()) as SearchHit[]);
+        setOpen(true);
+      } catch {
+        // Aborted or server unreachable — keep previous results
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Reopening the results brings the highlighted hit back into view
+  useEffect(() => {
+    if (open) highlightedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [open, highlightedId]);
+
+  const selectHit = (hit: SearchHit) => {
+    jumpToSession(hit.session_id, {
+      id: hit.event_id,
+      sessionId: hit.session_id,
+      type: hit.type,
+      timestamp: hit.timestamp,
+      snippet: hit.snippet,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <div style={styles.container}>
+      <input
+        style={styles.input}
+        type="search"
+        placeholder="Search prompts, tools, errors..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setOpen(hits.length > 0)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setOpen(false);
+          if (e.key === 'Enter' && hits[0]) selectHit(hits[0]);
+        }}
+      />
+
+      {open && query.trim() && (
+        <div style={styles.results}>
+          {hits.length === 0 && <div style={styles.empty}>No matches</div>}
+          {hits.map((hit) => (
+            <button
+              key={hit.event_id}
+              ref={hit.event_id === highlightedId ? highlightedRef : undefined}
+              style={hit.event_id === highlightedId ? { ...styles.hit, ...styles.hitHighlighted } : styles.hit}
+              onClick={() => selectHit(hit)}
+            >
+              <div style={styles.hitHeader}>
+                <span style={styles.hitType}>{TYPE_LABELS[hit.type] ?? hit.type}</span>
+                <span style={styles.hitMeta} title={hit.session_id}>
+                  {hit.session_id.slice(0, 8)} · {formatTime(hit.timestamp)}
+                </span>
+              </div>
+              <div style={styles.hitSnippet}>{hit.snippet}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'fixed',
+    top: 16,
+    left: '50%',
+    transform: 'translateX(-50%)',
+    width: 360,
+    zIndex: 100,
+    fontFamily: "'SF Mono', 'Fira Code', 'Cascadia Code', monospace",
+    pointerEvents: 'auto',
+  },
+  input: {
+    width: '100%',
+    padding: '8px 12px',
+    background: 'rgba(0, 0, 0, 0.7)',
+    backdropFilter: 'blur(12px)',
+    WebkitBackdropFilter: 'blur(12px)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    color: '#fff',
+    fontFamily: 'inherit',
+    fontSize: 12,
+    outline: 'none',
+  },
+  results: {
+    marginTop: 6,
+    maxHeight: 360,
+    overflowY: 'auto' as const,
+    background: 'rgba(0, 0, 0, 0.85)',
+    backdropFilter: 'blur(12px)',
+    WebkitBackdropFilter: 'blur(12px)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+  },
+  empty: {
+    padding: '10px 12px',
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  hit: {
+    display: 'block',
+    width: '100%',
+    textAlign: 'left' as const,
+    padding: '8px 12px',
+    background: 'transparent',
+    border: 'none',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.06)',
+    color: '#fff',
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+  },
+  hitHighlighted: {
+    background: 'rgba(251, 191, 36, 0.12)',
+    boxShadow: 'inset 2px 0 0 #fbbf24',
+  },
+  hitHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  hitType: {
+    fontSize: 9,
+    fontWeight: 600,
+    color: '#fbbf24',
+    textTransform: 'uppercase' as const,
+    letterSpacing: 0.5,
+  },
+  hitMeta: {
+    fontSize: 9,
+    opacity: 0.5,
+  },
+  hitSnippet: {
+    fontSize: 11,
+    lineHeight: 1.4,
+    opacity: 0.85,
+    wordBreak: 'break-word' as const,
+  },
+};
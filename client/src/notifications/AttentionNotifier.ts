@@ -0,0 +1,225 @@
+import type { AgentNode } from '@shared/agent';
+import { useVisualizerStore } from '../store/useVisualizerStore';
+
+/**
+ * AttentionNotifier — alerts the user when agents are waiting on them while
+ * the visualizer tab is in the background.
+ *
+ * The tab title and favicon carry a badge with the number of waiting agents.
+ * Opted-in waits also raise a system notification through the Notification
+ * API; clicking it focuses the tab and that agent's desk. Each kind of wait
+ * (permission request or plain notification) is opted into separately, and an
+ * agent raises at most one notification per kind until it stops waiting.
+ */
+
+export type NotificationKind = NonNullable<AgentNode['notificationType']>;
+
+export type NotificationPreferences = Record<NotificationKind, boolean>;
+
+export const NOTIFICATION_KINDS: readonly NotificationKind[] = ['permission_request', 'notification'];
+
+export const PREFERENCES_STORAGE_KEY = 'claude-visualizer:notifications';
+
+const DEFAULT_PREFERENCES: NotificationPreferences = { permission_request: false, notification: false };
+
+const NOTIFICATION_TITLES: Record<NotificationKind, string> = {
+  permission_request: 'Permission needed',
+  notification: 'Agent waiting',
+};
+
+/** The parts of a browser Notification the notifier uses. */
+export interface NotificationHandle {
+  onclick: ((event: Event) => void) | null;
+  close(): void;
+}
+
+/** Browser facilities, injected so the notifier can be driven without a DOM. */
+export interface NotifierEnvironment {
+  /** Whether the user is looking elsewhere (tab hidden or window unfocused). */
+  isInBackground(): boolean;
+  /** Whether system notifications may be shown (API present and permission granted). */
+  canNotify(): boolean;
+  showNotification(title: string, options: NotificationOptions): NotificationHandle;
+  getPreferences(): NotificationPreferences;
+  setTitle(title: string): void;
+  /** Replace the favicon with a badge, or restore the page's own with null. */
+  setFavicon(href: string | null): void;
+  focusWindow(): void;
+  focusAgent(agentId: string): void;
+}
+
+/** Read notification preferences, falling back to everything off. */
+export function loadPreferences(storage: Pick<Storage, 'getItem'>): NotificationPreferences {
+  try {
+    const stored = JSON.parse(storage.getItem(PREFERENCES_STORAGE_KEY) ?? '{}') as Partial<NotificationPreferences>;
+    return {
+      permission_request: stored.permission_request === true,
+      notification: stored.notification === true,
+    };
+  } catch {
+    return { ...DEFAULT_PREFERENCES };
+  }
+}
+
+export function savePreferences(storage: Pick<Storage, 'setItem'>, preferences: NotificationPreferences): void {
+  storage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+/** Tab title with a `(n)` prefix while agents are waiting. */
+export function badgeTitle(baseTitle: string, waitingCount: number): string {
+  return waitingCount > 0 ? `(${waitingCount}) ${baseTitle}` : baseTitle;
+}
+
+/** SVG favicon showing the waiting count (9+ beyond nine). */
+export function badgeFavicon(waitingCount: number): string {
+  const label = waitingCount > 9 ? '9+' : String(waitingCount);
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32">' +
+    '<circle cx="16" cy="16" r="15" fill="#f59e0b"/>' +
+    `<text x="16" y="22" font-family="sans-serif" font-size="${label.length > 1 ? 14 : 18}" font-weight="bold" ` +
+    `text-anchor="middle" fill="#000">${label}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+export class AttentionNotifier {
+  private env: NotifierEnvironment;
+  private baseTitle: string;
+  private knownAgents = new Set<string>();
+  private prevWaiting = new Set<string>();
+  /** Kinds already notified per agent during its current wait. */
+  private notified = new Map<string, Set<NotificationKind>>();
+  private open = new Map<string, NotificationHandle>();
+  private prevCount = 0;
+
+  constructor(env: NotifierEnvironment, baseTitle: string) {
+    this.env = env;
+    this.baseTitle = baseTitle;
+  }
+
+  /**
+   * Called with the latest agents after each store change. Like SceneBridge,
+   * an agent that first appears already waiting comes from history replay, so
+   * it is badged but does not raise a notification.
+   */
+  sync(agents: Map<string, AgentNode>): void {
+    const waiting = new Set<string>();
+    for (const [id, agent] of agents) {
+      if (agent.status !== 'waiting') continue;
+      waiting.add(id);
+      if (this.knownAgents.has(id)) {
+        this.maybeNotify(agent);
+      } else if (agent.notificationType) {
+        this.notified.set(id, new Set([agent.notificationType]));
+      }
+    }
+
+    // Agents that stopped waiting (or disappeared) can be notified again next time
+    for (const id of this.prevWaiting) {
+      if (!waiting.has(id)) {
+        this.notified.delete(id);
+        this.open.get(id)?.close();
+        this.open.delete(id);
+      }
+    }
+
+    this.knownAgents = new Set(agents.keys());
+    this.prevWaiting = waiting;
+    this.updateBadge(waiting.size);
+  }
+
+  dispose(): void {
+    for (const handle of this.open.values()) handle.close();
+    this.open.clear();
+    this.updateBadge(0);
+  }
+
+  private maybeNotify(agent: AgentNode): void {
+    const kind = agent.notificationType;
+    if (!kind) return;
+    const notifiedKinds = this.notified.get(agent.id) ?? new Set<NotificationKind>();
+    if (notifiedKinds.has(kind)) return;
+    notifiedKinds.add(kind);
+    this.notified.set(agent.id, notifiedKinds);
+
+    if (!this.env.getPreferences()[kind] || !this.env.canNotify() || !this.env.isInBackground()) return;
+
+    const label = agent.taskDescription ?? agent.agentType;
+    const handle = this.env.showNotification(NOTIFICATION_TITLES[kind], {
+      body: agent.notificationMessage ? `${label}: ${agent.notificationMessage}` : label,
+      // One notification per agent: a newer one replaces the last
+      tag: `claude-visualizer:${agent.id}`,
+    });
+    handle.onclick = () => {
+      this.env.focusWindow();
+      this.env.focusAgent(agent.id);
+      handle.close();
+    };
+    this.open.get(agent.id)?.close();
+    this.open.set(agent.id, handle);
+  }
+
+  private updateBadge(count: number): void {
+    if (count === this.prevCount) return;
+    this.prevCount = count;
+    this.env.setTitle(badgeTitle(this.baseTitle, count));
+    this.env.setFavicon(count > 0 ? badgeFavicon(count) : null);
+  }
+}
+
+function browserEnvironment(): NotifierEnvironment {
+  return {
+    isInBackground: () => document.hidden || !document.hasFocus(),
+    canNotify: () => typeof Notification !== 'undefined' && Notification.permission === 'granted',
+    showNotification: (title, options) => new Notification(title, options),
+    getPreferences: () => loadPreferences(localStorage),
+    setTitle: (title) => {
+      document.title = title;
+    },
+    setFavicon: (href) => {
+      let link = document.querySelector<HTMLLinkElement>('link[data-attention-badge]');
+      if (href === null) {
+        link?.remove();
+        return;
+      }
+      if (!link) {
+        link = document.createElement('link');
+        link.rel = 'icon';
+        link.dataset.attentionBadge = '';
+        document.head.appendChild(link);
+      }
+      link.href = href;
+    },
+    focusWindow: () => window.focus(),
+    focusAgent: (agentId) => useVisualizerStore.getState().focusAgent(agentId),
+  };
+}
+
+/**
+ * Watch the store and alert on waiting agents. Returns a cleanup function.
+ *
+ * Store updates are coalesced per microtask so a history replay, which
+ * applies many events synchronously, is seen as a single change.
+ */
+export function startAttentionNotifier(): () => void {
+  const notifier = new AttentionNotifier(browserEnvironment(), document.title);
+  let scheduled = false;
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(() => {
+      scheduled = false;
+      notifier.sync(useVisualizerStore.getState().agents);
+    });
+  };
+
+  const unsubscribe = useVisualizerStore.subscribe((state, prev) => {
+    if (state.agents !== prev.agents) schedule();
+  });
+  schedule();
+
+  return () => {
+    unsubscribe();
+    notifier.dispose();
+  };
+}
@@ -1,5 +1,6 @@
-import type { VisualizerState } from './useVisualizerStore';
+import type { HighlightedEvent, VisualizerState } from './useVisualizerStore';
 import type { AgentNode } from '@shared/agent';
+import { estimateCost, findPricing, priceAgentUsage, totalUsage } from '@shared/pricing';
 
 /** All agents as an array (for rendering). */
 export const selectAgents = (state: VisualizerState): AgentNode[] =>
@@ -42,6 +43,14 @@ export const selectFocusedAgent = (state: VisualizerState): AgentNode | null =>
 export const selectConnectionStatus = (state: VisualizerState) =>
   state.connectionStatus;
 
+/** Whether the client is live or replaying events missed while disconnected. */
+export const selectSyncStatus = (state: VisualizerState) =>
+  state.syncStatus;
+
+/** Latest server rate-limit notice, or null when no session is being limited. */
+export const selectRateLimited = (state: VisualizerState) =>
+  state.rateLimited;
+
 /** Aggregate stats for the HUD. */
 export const selectStats = (state: VisualizerState) => ({
   totalEvents: state.totalEventsReceived,
@@ -59,3 +68,36 @@ export const selectRootAgent = (state: VisualizerState): AgentNode | null => {
   if (!state.rootAgentId) return null;
   return state.agents.get(state.rootAgentId) ?? null;
 };
+
+/** Estimated cost in US dollars of the focused agent's usage, or null when unknown. */
+export const selectFocusedAgentCost = (state: VisualizerState): number | null => {
+  const agent = selectFocusedAgent(state);
+  const pricing = findPricing(agent?.model, state.pricing);
+  return agent?.usage && pricing ? estimateCost(agent.usage, pricing) : null;
+};
+
+/** Search hit picked for the focused session, or null when it belongs elsewhere. */
+export const selectFocusedHighlight = (state: VisualizerState): HighlightedEvent | null => {
+  const highlight = state.highlightedEvent;
+  return highlight && highlight.sessionId === state.focusedAgentId ? highlight : null;
+};
+
+/**
+ * Tokens and estimated cost of the current session, over every agent that
+ * reported usage — including subagents that have already left the scene.
+ * Null until an agent of the session reports.
+ */
+export const selectSessionUsage = (state: VisualizerState) => {
+  const agents = [];
+  for (const [agentId, record] of state.agentUsage) {
+    if (record.sessionId !== state.rootAgentId) continue;
+    agents.push(priceAgentUsage(agentId, record.model, record.usage, state.pricing));
+  }
+  if (agents.length === 0) return null;
+  const { usage, cost_usd } = totalUsage(agents);
+  const { input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens } = usage;
+  return {
+    tokens: input_tokens + output_tokens + cache_creation_input_tokens + cache_read_input_tokens,
+    cost: cost_usd,
+  };
+};
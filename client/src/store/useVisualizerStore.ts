@@ -1,12 +1,27 @@
 import { create } from 'zustand';
-import type { VisualizerEvent } from '@shared/events';
+import type { TokenCounts, VisualizerEvent } from '@shared/events';
 import type { AgentNode, AgentStatus, ActiveToolCall } from '@shared/agent';
-import type { ServerMessage, ClientSubscribeMessage } from '@shared/messages';
+import { reduceAgentEvent, type AgentTreeState } from '@shared/reducer';
+import { DEFAULT_PRICING, type PricingTable } from '@shared/pricing';
+import type {
+  ServerMessage,
+  ServerEventMessage,
+  ClientSubscribeMessage,
+  ClientResumeMessage,
+  SubscriptionFilter,
+} from '@shared/messages';
 
 // ---------------------------------------------------------------------------
 // Supporting types
 // ---------------------------------------------------------------------------
 
+/** Latest token usage an agent reported; kept after the agent leaves the scene. */
+export interface AgentUsageRecord {
+  sessionId: string;
+  model: string | null;
+  usage: TokenCounts;
+}
+
 export interface MessageInFlight {
   id: string;
   fromAgentId: string;
@@ -26,6 +41,25 @@ export interface BufferedEvent {
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+/** 'catching_up' while a reconnected client is replaying the events it missed. */
+export type SyncStatus = 'live' | 'catching_up';
+
+/** Event picked from the search results, highlighted in its session's detail panel. */
+export interface HighlightedEvent {
+  id: string;
+  sessionId: string;
+  type: string;
+  timestamp: string;
+  snippet: string;
+}
+
+/** Latest rate-limit notice from the server. */
+export interface RateLimitNotice {
+  sessionId: string;
+  /** Events of the session dropped so far. */
+  dropped: number;
+}
+
 // ---------------------------------------------------------------------------
 // State interface
 // ---------------------------------------------------------------------------
@@ -33,6 +67,7 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'er
 export interface VisualizerState {
   // Connection
   connectionStatus: ConnectionStatus;
+  syncStatus: SyncStatus;
   websocket: WebSocket | null;
 
   // Agent tree
@@ -55,8 +90,16 @@ export interface VisualizerState {
   // Stats
   totalEventsReceived: number;
 
+  // Server-side ingest rate limiting, shown in the HUD until it stops
+  rateLimited: RateLimitNotice | null;
+
+  // Token usage per agent ID, and the prices used to estimate its cost
+  agentUsage: Map<string, AgentUsageRecord>;
+  pricing: PricingTable;
+
   // Focus
   focusedAgentId: string | null;
+  highlightedEvent: HighlightedEvent | null;
 
   // Tracking for thinking-state inference
   lastEventTimeByAgent: Map<string, number>;
@@ -68,6 +111,9 @@ export interface VisualizerState {
   cleanupStaleAgents: () => void;
   setBufferDelay: (delay: number) => void;
   focusAgent: (agentId: string | null) => void;
+  noteRateLimited: (sessionId: string, dropped: number) => void;
+  loadPricing: () => Promise<void>;
+  jumpToSession: (sessionId: string, event?: HighlightedEvent) => void;
   updateAnimations: (now: number) => void;
   reset: () => void;
 }
@@ -77,6 +123,7 @@ export interface VisualizerState {
 // ---------------------------------------------------------------------------
 
 let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let rateLimitTimer: ReturnType<typeof setTimeout> | null = null;
 let thinkingInterval: ReturnType<typeof setInterval> | null = null;
 let bufferRafId: number | null = null;
 let lastProcessedTime = 0;
@@ -84,12 +131,55 @@ let lastProcessedTime = 0;
 // epoch are stale and must no-op to avoid double-processing after StrictMode
 // double-mount or reconnections.
 let connectionEpoch = 0;
+// Session requested via jumpToSession() whose history has not arrived yet.
+let pendingFocusSessionId: string | null = null;
+// Highest server sequence number applied; reconnects resume after it.
+let lastSeq = 0;
+// Consecutive failed connection attempts, for reconnect backoff.
+let reconnectAttempts = 0;
+// Live events received while catching up, applied once the gap is filled.
+let pendingLiveEvents: ServerEventMessage[] = [];
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+// The server repeats rate-limit notices every second while dropping events
+const RATE_LIMIT_INDICATOR_MS = 5000;
+
+/** Exponential reconnect delay: 1s, 2s, 4s, ... capped at 30s. */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+}
+
+/**
+ * Build a subscription filter from the page URL so a dashboard can be pinned,
+ * e.g. `?sessions=a,b&types=ToolCallFailed&agents=x`. Returns null when the
+ * URL carries no filter parameters.
+ */
+export function subscriptionFilterFromQuery(search: string): SubscriptionFilter | null {
+  const params = new URLSearchParams(search);
+  const list = (name: string) =>
+    (params.get(name) ?? '').split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+
+  const filter: SubscriptionFilter = {};
+  const sessionIds = list('sessions');
+  const eventTypes = list('types') as NonNullable<SubscriptionFilter['eventTypes']>;
+  const agentIds = list('agents');
+  if (sessionIds.length > 0) filter.sessionIds = sessionIds;
+  if (eventTypes.length > 0) filter.eventTypes = eventTypes;
+  if (agentIds.length > 0) filter.agentIds = agentIds;
+
+  return Object.keys(filter).length > 0 ? filter : null;
+}
 
 function clearTimers() {
   if (reconnectTimer !== null) {
     clearTimeout(reconnectTimer);
     reconnectTimer = null;
   }
+  if (rateLimitTimer !== null) {
+    clearTimeout(rateLimitTimer);
+    rateLimitTimer = null;
+  }
   if (thinkingInterval !== null) {
     clearInterval(thinkingInterval);
     thinkingInterval = null;
@@ -106,6 +196,7 @@ function clearTimers() {
 
 const initialState = {
   connectionStatus: 'disconnected' as ConnectionStatus,
+  syncStatus: 'live' as SyncStatus,
   websocket: null as WebSocket | null,
   agents: new Map<string, AgentNode>(),
   rootAgentId: null as string | null,
@@ -115,7 +206,11 @@ const initialState = {
   bufferDelay: 100,
   currentSessionId: null as string | null,
   totalEventsReceived: 0,
+  rateLimited: null as RateLimitNotice | null,
+  agentUsage: new Map<string, AgentUsageRecord>(),
+  pricing: DEFAULT_PRICING,
   focusedAgentId: null as string | null,
+  highlightedEvent: null as HighlightedEvent | null,
   lastEventTimeByAgent: new Map<string, number>(),
 };
 
@@ -138,6 +233,7 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
     }
     clearTimers();
     connectionEpoch++;
+    pendingLiveEvents = [];
 
     set({ connectionStatus: 'connecting' });
 
@@ -149,11 +245,49 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
       if (get().websocket !== ws) return;
 
       set({ connectionStatus: 'connected', websocket: ws });
-      const sub: ClientSubscribeMessage = { type: 'subscribe' };
-      ws.send(JSON.stringify(sub));
+      reconnectAttempts = 0;
+      const filter = subscriptionFilterFromQuery(window.location.search);
+      if (lastSeq > 0) {
+        // Reconnect: fetch exactly what was missed instead of the latest window
+        set({ syncStatus: 'catching_up' });
+        const resume: ClientResumeMessage = filter
+          ? { type: 'resume', afterSeq: lastSeq, filter }
+          : { type: 'resume', afterSeq: lastSeq };
+        ws.send(JSON.stringify(resume));
+      } else {
+        const sub: ClientSubscribeMessage = filter ? { type: 'subscribe', filter } : { type: 'subscribe' };
+        ws.send(JSON.stringify(sub));
+      }
+
+      // Apply buffered events whose scheduled time has passed
+      const drainBuffer = () => {
+        const state = get();
+        const now = Date.now();
+        const ready: VisualizerEvent[] = [];
+        const remaining: BufferedEvent[] = [];
+
+        for (const buffered of state.eventBuffer) {
+          if (buffered.scheduledAt <= now) {
+            ready.push(buffered.event);
+          } else {
+            remaining.push(buffered);
+          }
+        }
+
+        if (ready.length > 0) {
+          set({ eventBuffer: remaining });
+          for (const event of ready) {
+            get().processEvent(event);
+          }
+        }
+      };
 
       // Start thinking-state inference loop
       thinkingInterval = setInterval(() => {
+        // requestAnimationFrame is paused in background tabs; keep applying
+        // events so waiting agents still raise browser notifications
+        if (document.hidden) drainBuffer();
+
         const state = get();
         const now = Date.now();
         const THINKING_THRESHOLD = 3000;
@@ -176,26 +310,7 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
 
       // Start event buffer processing loop
       const processBuffer = () => {
-        const state = get();
-        const now = Date.now();
-        const ready: VisualizerEvent[] = [];
-        const remaining: BufferedEvent[] = [];
-
-        for (const buffered of state.eventBuffer) {
-          if (buffered.scheduledAt <= now) {
-            ready.push(buffered.event);
-          } else {
-            remaining.push(buffered);
-          }
-        }
-
-        if (ready.length > 0) {
-          set({ eventBuffer: remaining });
-          for (const event of ready) {
-            get().processEvent(event);
-          }
-        }
-
+        drainBuffer();
         bufferRafId = requestAnimationFrame(processBuffer);
       };
       bufferRafId = requestAnimationFrame(processBuffer);
@@ -217,12 +332,36 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
         return;
       }
 
+      if (parsed.type === 'resync') {
+        // The server dropped live events because we fell behind. A catch-up
+        // already in progress covers them; otherwise resume from lastSeq.
+        if (get().syncStatus === 'catching_up') return;
+        set({ syncStatus: 'catching_up' });
+        const resume: ClientResumeMessage = { type: 'resume', afterSeq: lastSeq };
+        ws.send(JSON.stringify(resume));
+        return;
+      }
+
+      if (parsed.type === 'rate_limited') {
+        get().noteRateLimited(parsed.sessionId, parsed.dropped);
+        return;
+      }
+
       if (parsed.type === 'event') {
+        // Already covered by a resume page
+        if (parsed.seq <= lastSeq) return;
+        // Hold live events until the gap before them has been replayed
+        if (get().syncStatus === 'catching_up') {
+          pendingLiveEvents.push(parsed);
+          return;
+        }
+        lastSeq = parsed.seq;
         enqueueEvent(parsed.data);
         return;
       }
 
       if (parsed.type === 'history') {
+        lastSeq = Math.max(lastSeq, parsed.lastSeq);
         // Process history events using their actual timestamps
         for (const event of parsed.data) {
           const eventTime = new Date(event.timestamp).getTime();
@@ -262,6 +401,29 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
           }
         }
         set({ lastEventTimeByAgent: resetTimes });
+
+        // Focus a session requested via jumpToSession() once it is loaded
+        if (pendingFocusSessionId && get().agents.has(pendingFocusSessionId)) {
+          set({ focusedAgentId: pendingFocusSessionId });
+          pendingFocusSessionId = null;
+        }
+
+        if (get().syncStatus === 'catching_up') {
+          if (parsed.hasMore) {
+            const next: ClientResumeMessage = { type: 'resume', afterSeq: lastSeq };
+            ws.send(JSON.stringify(next));
+          } else {
+            // Caught up — apply live events that arrived meanwhile, skipping overlap
+            const held = pendingLiveEvents;
+            pendingLiveEvents = [];
+            set({ syncStatus: 'live' });
+            for (const message of held) {
+              if (message.seq <= lastSeq) continue;
+              lastSeq = message.seq;
+              enqueueEvent(message.data);
+            }
+          }
+        }
       }
     };
 
@@ -273,10 +435,10 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
 
       set({ connectionStatus: 'disconnected', websocket: null });
       clearTimers();
-      // Auto-reconnect after 3 seconds
+      // Auto-reconnect with exponential backoff
       reconnectTimer = setTimeout(() => {
         get().connect(url);
-      }, 3000);
+      }, reconnectDelay(reconnectAttempts++));
     };
 
     ws.onerror = () => {
@@ -382,6 +544,7 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
   processEvent: (event: VisualizerEvent, eventTime?: number) => {
     const state = get();
     const now = eventTime ?? Date.now();
+    const live = eventTime === undefined;
 
     // Track per-agent event timing
     const agentId = extractAgentId(event);
@@ -392,93 +555,29 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
 
     set({ totalEventsReceived: state.totalEventsReceived + 1, lastEventTimeByAgent: newLastEventTime });
 
-    switch (event.type) {
-      case 'SessionStarted': {
-        const newAgents = new Map(state.agents);
-
-        // Remove previous root agent and its entire subtree so completed
-        // avatars don't accumulate across session restarts.
-        const prevRootId = state.rootAgentId;
-        const removedToolUseIds = new Set<string>();
-        if (prevRootId && prevRootId !== event.session_id && newAgents.has(prevRootId)) {
-          const removeSubtree = (id: string) => {
-            const agent = newAgents.get(id);
-            if (!agent) return;
-            if (agent.activeToolCall) {
-              removedToolUseIds.add(agent.activeToolCall.tool_use_id);
-            }
-            for (const childId of agent.children) {
-              removeSubtree(childId);
-            }
-            newAgents.delete(id);
-          };
-          removeSubtree(prevRootId);
-        }
-
-        // Clear tool calls belonging to the removed agents
-        const newToolCalls = new Map(state.activeToolCalls);
-        for (const toolId of removedToolUseIds) {
-          newToolCalls.delete(toolId);
-        }
-
-        const newAgent: AgentNode = {
-          id: event.session_id,
-          parentId: null,
-          children: [],
-          status: 'active',
-          agentType: event.agent_type,
-          model: event.model,
-          taskDescription: null,
-          position: { x: 0, y: 0, z: 0 },
-          activeToolCall: null,
-          notificationMessage: null,
-          notificationType: null,
-        };
-        newAgents.set(event.session_id, newAgent);
-        set({
-          agents: newAgents,
-          rootAgentId: event.session_id,
-          currentSessionId: event.session_id,
-          activeToolCalls: newToolCalls,
-        });
-        break;
-      }
+    // Agent tree semantics live in the shared reducer so the server computes
+    // identical trees; this store layers timers and animations on top.
+    const prevTree: AgentTreeState = {
+      agents: state.agents,
+      rootAgentId: state.rootAgentId,
+      activeToolCalls: state.activeToolCalls,
+    };
+    const nextTree = reduceAgentEvent(prevTree, event, { live });
+    if (nextTree !== prevTree) {
+      const rootChanged = event.type === 'SessionStarted' || nextTree.rootAgentId !== state.rootAgentId;
+      set({
+        agents: nextTree.agents,
+        rootAgentId: nextTree.rootAgentId,
+        activeToolCalls: nextTree.activeToolCalls,
+        ...(rootChanged ? { currentSessionId: nextTree.rootAgentId } : {}),
+      });
+    }
 
+    switch (event.type) {
       case 'AgentSpawned': {
-        const newAgents = new Map(state.agents);
-        // Fall back to session_id as parent — Claude Code's subagent-start hook
-        // provides the parent's session ID as session_id, but may not populate
-        // parent_session_id separately.
-        const parentId = event.parent_session_id ?? event.session_id;
-        const parent = newAgents.get(parentId);
-
-        const newAgent: AgentNode = {
-          id: event.agent_id,
-          parentId: parent ? parentId : null,
-          children: [],
-          status: 'spawning',
-          agentType: event.agent_type,
-          model: event.model,
-          taskDescription: event.task_description,
-          position: { x: 0, y: 0, z: 0 },
-          activeToolCall: null,
-          notificationMessage: null,
-          notificationType: null,
-        };
-        newAgents.set(event.agent_id, newAgent);
-
-        // Add child reference to parent
-        if (parent) {
-          newAgents.set(parentId, {
-            ...parent,
-            children: [...parent.children, event.agent_id],
-          });
-        }
-
-        set({ agents: newAgents });
-
-        // Transition to active after short delay (live events only)
-        if (eventTime === undefined) {
+        // Transition to active after short delay (live events only — the
+        // reducer makes replayed agents active immediately)
+        if (live) {
           const timerEpoch = connectionEpoch;
           setTimeout(() => {
             if (connectionEpoch !== timerEpoch) return;
@@ -490,155 +589,53 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
               set({ agents: updated });
             }
           }, 300);
-        } else {
-          // During history replay, transition immediately
-          const curr = get().agents.get(event.agent_id);
-          if (curr && curr.status === 'spawning') {
-            const updated = new Map(get().agents);
-            updated.set(event.agent_id, { ...curr, status: 'active' });
-            set({ agents: updated });
-          }
         }
         break;
       }
 
       case 'AgentCompleted': {
-        const newAgents = new Map(state.agents);
-        let agent = newAgents.get(event.agent_id);
-
-        // Auto-create agent if AgentSpawned was missed (e.g. SubagentStart
-        // hook didn't fire). Use session_id as parentId since that's the
-        // parent session for subagent hooks.
-        if (!agent) {
-          const parentId = event.session_id;
-          const parent = newAgents.get(parentId);
-          agent = {
-            id: event.agent_id,
-            parentId: parent ? parentId : null,
-            children: [],
-            status: 'active',
-            agentType: 'unknown',
-            model: 'unknown',
-            taskDescription: null,
-            position: { x: 0, y: 0, z: 0 },
-            activeToolCall: null,
-            notificationMessage: null,
-            notificationType: null,
-          };
-          newAgents.set(event.agent_id, agent);
-          if (parent) {
-            newAgents.set(parentId, {
-              ...parent,
-              children: [...parent.children, event.agent_id],
-            });
-          }
-        }
-
-        if (agent) {
-          newAgents.set(event.agent_id, { ...agent, status: 'completed', activeToolCall: null });
-          set({ agents: newAgents });
-
-          // Remove after animation delay (live events only — history replay
-          // relies on cleanupStaleAgents to remove completed agents)
-          if (eventTime === undefined) {
-            const timerEpoch = connectionEpoch;
-            setTimeout(() => {
-              if (connectionEpoch !== timerEpoch) return;
-              const s = get();
-              const updated = new Map(s.agents);
-              const completedAgent = updated.get(event.agent_id);
-              if (completedAgent) {
-                updated.delete(event.agent_id);
-                // Remove from parent's children array
-                if (completedAgent.parentId) {
-                  const p = updated.get(completedAgent.parentId);
-                  if (p) {
-                    updated.set(completedAgent.parentId, {
-                      ...p,
-                      children: p.children.filter((c) => c !== event.agent_id),
-                    });
-                  }
+        // Remove after animation delay (live events only — history replay
+        // relies on cleanupStaleAgents to remove completed agents)
+        if (live) {
+          const timerEpoch = connectionEpoch;
+          setTimeout(() => {
+            if (connectionEpoch !== timerEpoch) return;
+            const s = get();
+            const updated = new Map(s.agents);
+            const completedAgent = updated.get(event.agent_id);
+            if (completedAgent) {
+              updated.delete(event.agent_id);
+              // Remove from parent's children array
+              if (completedAgent.parentId) {
+                const p = updated.get(completedAgent.parentId);
+                if (p) {
+                  updated.set(completedAgent.parentId, {
+                    ...p,
+                    children: p.children.filter((c) => c !== event.agent_id),
+                  });
                 }
-                set({ agents: updated });
               }
-            }, 500);
-          }
-        }
-        break;
-      }
-
-      case 'ToolCallStarted': {
-        const toolCall: ActiveToolCall = {
-          tool_use_id: event.tool_use_id,
-          tool_name: event.tool_name,
-          started_at: event.timestamp,
-        };
-        const newToolCalls = new Map(state.activeToolCalls);
-        newToolCalls.set(event.tool_use_id, toolCall);
-
-        // Update agent status — tool events use session_id as agent identifier
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        const agent = newAgents.get(event.session_id);
-        if (agent) {
-          newAgents.set(event.session_id, {
-            ...agent,
-            status: 'tool_executing',
-            activeToolCall: toolCall,
-            notificationMessage: null,
-            notificationType: null,
-          });
-        }
-
-        set({ activeToolCalls: newToolCalls, agents: newAgents });
-        break;
-      }
-
-      case 'ToolCallCompleted': {
-        const newToolCalls = new Map(state.activeToolCalls);
-        newToolCalls.delete(event.tool_use_id);
-
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        const agent = newAgents.get(event.session_id);
-        if (agent) {
-          newAgents.set(event.session_id, {
-            ...agent,
-            status: 'active',
-            activeToolCall: null,
-            notificationMessage: null,
-            notificationType: null,
-          });
+              set({ agents: updated });
+            }
+          }, 500);
         }
-
-        set({ activeToolCalls: newToolCalls, agents: newAgents });
         break;
       }
 
       case 'ToolCallFailed': {
-        const newToolCalls = new Map(state.activeToolCalls);
-        newToolCalls.delete(event.tool_use_id);
-
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        const agent = newAgents.get(event.session_id);
-        if (agent) {
-          newAgents.set(event.session_id, { ...agent, status: 'error', activeToolCall: null, notificationMessage: null, notificationType: null });
-          set({ activeToolCalls: newToolCalls, agents: newAgents });
-
-          // Revert to active after brief error display (live events only)
-          if (eventTime === undefined) {
-            const timerEpoch = connectionEpoch;
-            setTimeout(() => {
-              if (connectionEpoch !== timerEpoch) return;
-              const s = get();
-              const a = s.agents.get(event.session_id);
-              if (a && a.status === 'error') {
-                const updated = new Map(s.agents);
-                updated.set(event.session_id, { ...a, status: 'active' });
-                set({ agents: updated });
-              }
-            }, 1500);
-          }
-        } else {
-          set({ activeToolCalls: newToolCalls });
+        // Revert to active after brief error display (live events only)
+        if (live) {
+          const timerEpoch = connectionEpoch;
+          setTimeout(() => {
+            if (connectionEpoch !== timerEpoch) return;
+            const s = get();
+            const a = s.agents.get(event.session_id);
+            if (a && a.status === 'error') {
+              const updated = new Map(s.agents);
+              updated.set(event.session_id, { ...a, status: 'active' });
+              set({ agents: updated });
+            }
+          }, 1500);
         }
         break;
       }
@@ -660,13 +657,7 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
       }
 
       case 'UserPrompt': {
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        // Persist agents if a new one was created
-        if (newAgents !== state.agents) {
-          set({ agents: newAgents });
-        }
-        // Re-read rootAgentId — ensureAgentExists may have set it
-        const rootId = get().rootAgentId;
+        const rootId = nextTree.rootAgentId;
         if (rootId) {
           const MESSAGE_DURATION = 600;
           const msg: MessageInFlight = {
@@ -684,47 +675,15 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
         break;
       }
 
-      case 'WaitingForUser': {
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        const agent = newAgents.get(event.session_id);
-        if (agent) {
-          newAgents.set(event.session_id, {
-            ...agent,
-            status: 'waiting',
-            activeToolCall: null,
-            notificationMessage: event.message,
-            notificationType: event.notification_type,
-          });
-          set({ agents: newAgents });
-        }
-        break;
-      }
-
-      case 'SessionEnded': {
-        const newAgents = ensureAgentExists(state.agents, event.session_id, set, state.rootAgentId);
-        // Re-read rootAgentId — ensureAgentExists may have set it
-        const currentRootId = get().rootAgentId;
-        const root = currentRootId ? newAgents.get(currentRootId) : undefined;
-        if (root && currentRootId) {
-          // "stop" fires between turns — agent is waiting for user, not finished.
-          // Preserve notification fields when staying in waiting state (a preceding
-          // WaitingForUser event may have set them); clear on actual completion.
-          const isStop = event.reason === 'stop';
-          const newStatus = isStop ? 'waiting' : 'completed';
-          newAgents.set(currentRootId, {
-            ...root,
-            status: newStatus,
-            activeToolCall: null,
-            notificationMessage: isStop ? root.notificationMessage : null,
-            notificationType: isStop ? root.notificationType : null,
-          });
-          set({ agents: newAgents });
-        }
-        break;
-      }
-
-      case 'ContextCompaction': {
-        // Optional: could store context pressure on agent. No-op for now.
+      case 'TokenUsage': {
+        // Usage is cumulative, so the latest report replaces the previous one
+        const agentUsage = new Map(state.agentUsage);
+        agentUsage.set(event.agent_id, {
+          sessionId: event.session_id,
+          model: event.model ?? nextTree.agents.get(event.agent_id)?.model ?? null,
+          usage: event.total,
+        });
+        set({ agentUsage });
         break;
       }
     }
@@ -744,6 +703,62 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
     set({ focusedAgentId: agentId });
   },
 
+  // -------------------------------------------------------------------
+  // Rate limiting — clears once the server stops sending notices
+  // -------------------------------------------------------------------
+  noteRateLimited: (sessionId: string, dropped: number) => {
+    set({ rateLimited: { sessionId, dropped } });
+    if (rateLimitTimer !== null) clearTimeout(rateLimitTimer);
+    rateLimitTimer = setTimeout(() => {
+      rateLimitTimer = null;
+      set({ rateLimited: null });
+    }, RATE_LIMIT_INDICATOR_MS);
+  },
+
+  // -------------------------------------------------------------------
+  // Model prices, including the server's configured overrides
+  // -------------------------------------------------------------------
+  loadPricing: async () => {
+    try {
+      const res = await fetch('/api/pricing');
+      if (!res.ok) return;
+      set({ pricing: (await res.json()) as PricingTable });
+    } catch {
+      // Server unreachable — keep estimating with the list prices
+    }
+  },
+
+  // -------------------------------------------------------------------
+  // Jump to a session (e.g. from a search hit)
+  // -------------------------------------------------------------------
+  jumpToSession: (sessionId: string, event?: HighlightedEvent) => {
+    const { agents, websocket } = get();
+    set({ highlightedEvent: event ?? null });
+    if (agents.has(sessionId)) {
+      pendingFocusSessionId = null;
+      set({ focusedAgentId: sessionId });
+      return;
+    }
+    // Not in the scene — load that session's history and focus once it arrives
+    pendingFocusSessionId = sessionId;
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      // Clear the current tree first: the replay must start from an empty scene
+      // rather than rely on its SessionStarted displacing the old root
+      pendingLiveEvents = [];
+      set({
+        agents: new Map(),
+        rootAgentId: null,
+        activeToolCalls: new Map(),
+        activeMessages: [],
+        eventBuffer: [],
+        focusedAgentId: null,
+        lastEventTimeByAgent: new Map(),
+      });
+      const sub: ClientSubscribeMessage = { type: 'subscribe', sessionId };
+      websocket.send(JSON.stringify(sub));
+    }
+  },
+
   // -------------------------------------------------------------------
   // Animation tick — called from render loop
   // -------------------------------------------------------------------
@@ -785,11 +800,16 @@ export const useVisualizerStore = create<VisualizerState>((set, get) => ({
       websocket.close();
     }
     lastProcessedTime = 0;
+    pendingFocusSessionId = null;
+    lastSeq = 0;
+    reconnectAttempts = 0;
+    pendingLiveEvents = [];
     set({
       ...initialState,
       agents: new Map(),
       activeToolCalls: new Map(),
       lastEventTimeByAgent: new Map(),
+      agentUsage: new Map(),
       activeMessages: [],
       eventBuffer: [],
     });
@@ -821,39 +841,6 @@ if (import.meta.env.DEV) {
 // Helpers
 // ---------------------------------------------------------------------------
 
-/**
- * Auto-create a root agent when an event references a session_id not in the
- * agents map. This handles the case where the visualizer server starts after a
- * Claude Code session has already begun, so SessionStarted was missed.
- */
-function ensureAgentExists(
-  agents: Map<string, AgentNode>,
-  sessionId: string,
-  set: (partial: Partial<VisualizerState>) => void,
-  rootAgentId: string | null,
-): Map<string, AgentNode> {
-  if (agents.has(sessionId)) return agents;
-  const newAgents = new Map(agents);
-  newAgents.set(sessionId, {
-    id: sessionId,
-    parentId: null,
-    children: [],
-    status: 'active',
-    agentType: 'unknown',
-    model: 'unknown',
-    taskDescription: null,
-    position: { x: 0, y: 0, z: 0 },
-    activeToolCall: null,
-    notificationMessage: null,
-    notificationType: null,
-  });
-  // Set as root if no root exists yet
-  if (!rootAgentId) {
-    set({ rootAgentId: sessionId, currentSessionId: sessionId });
-  }
-  return newAgents;
-}
-
 function extractAgentId(event: VisualizerEvent): string | null {
   switch (event.type) {
     case 'SessionStarted':
@@ -876,6 +863,8 @@ function extractAgentId(event: VisualizerEvent): string | null {
       return event.session_id;
     case 'ContextCompaction':
       return event.session_id;
+    case 'TokenUsage':
+      return event.agent_id;
   }
 }
 
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for hooks/src/git.ts — detectGitInfo utility.
+ *
+ * Runs the real git binary against throwaway directories.
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, mkdirSync, realpathSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { detectGitInfo } from '../git';
+
+function git(cwd: string, ...args: string[]) {
+  Bun.spawnSync(['git', '-C', cwd, ...args], { stdout: 'ignore', stderr: 'ignore' });
+}
+
+describe('detectGitInfo', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // realpath: tmpdir may be a symlink, and git reports the resolved root
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'visualizer-git-')));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports the repository root and branch from a subdirectory', () => {
+    git(dir, 'init', '-q', '-b', 'feature/x');
+    const sub = join(dir, 'packages', 'app');
+    mkdirSync(sub, { recursive: true });
+
+    expect(detectGitInfo(sub)).toEqual({ git_root: dir, git_branch: 'feature/x' });
+  });
+
+  test('reports no branch for a detached HEAD', () => {
+    git(dir, 'init', '-q');
+    git(dir, '-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-q', '--allow-empty', '-m', 'init');
+    git(dir, 'checkout', '-q', '--detach');
+
+    expect(detectGitInfo(dir)).toEqual({ git_root: dir, git_branch: null });
+  });
+
+  test('returns nulls outside a repository', () => {
+    expect(detectGitInfo(dir)).toEqual({ git_root: null, git_branch: null });
+  });
+
+  test('returns nulls for a missing or absent directory', () => {
+    expect(detectGitInfo(join(dir, 'missing'))).toEqual({ git_root: null, git_branch: null });
+    expect(detectGitInfo(undefined)).toEqual({ git_root: null, git_branch: null });
+  });
+});
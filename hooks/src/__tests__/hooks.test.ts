@@ -5,17 +5,22 @@
  * the server. We test the transformation logic by mocking Bun.stdin.text() and
  * globalThis.fetch, then dynamically importing each hook module.
  */
-import { describe, test, expect, mock } from 'bun:test';
+import { describe, test, expect, mock, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { detectGitInfo } from '../git';
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
-/** Captured fetch call. */
+/** Captured fetch call. Batch requests are captured once per contained event. */
 interface CapturedCall {
   url: string;
   body: Record<string, unknown>;
 }
 
 let capturedCalls: CapturedCall[] = [];
+let requestCount = 0;
 let stdinText = '';
 
 /**
@@ -25,6 +30,7 @@ let stdinText = '';
  */
 function setupMocks() {
   capturedCalls = [];
+  requestCount = 0;
 
   // Mock Bun.stdin.text()
   // @ts-expect-error — overriding readonly stdin for testing
@@ -35,7 +41,11 @@ function setupMocks() {
   // Mock fetch to capture calls
   globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
     const body = JSON.parse(init?.body as string);
-    capturedCalls.push({ url: String(url), body });
+    const bodies: Record<string, unknown>[] = Array.isArray(body) ? body : [body];
+    for (const item of bodies) {
+      capturedCalls.push({ url: String(url), body: item });
+    }
+    requestCount++;
     return new Response('ok', { status: 200 });
   }) as unknown as typeof fetch;
 }
@@ -54,6 +64,33 @@ async function runHook(hookPath: string, input: Record<string, unknown>) {
   await new Promise((r) => setTimeout(r, 10));
 }
 
+const transcriptDir = mkdtempSync(join(tmpdir(), 'visualizer-hooks-'));
+let transcriptCounter = 0;
+
+afterAll(() => {
+  rmSync(transcriptDir, { recursive: true, force: true });
+});
+
+/** Write a transcript with one prompt and one response, returning its path. */
+function writeTranscript(text: string, isSidechain = false): string {
+  const path = join(transcriptDir, `transcript-${++transcriptCounter}.jsonl`);
+  const entries = [
+    { type: 'user', isSidechain, message: { role: 'user', content: 'go' } },
+    {
+      type: 'assistant',
+      isSidechain,
+      message: {
+        id: 'msg_1',
+        model: 'claude-haiku-4-5',
+        content: [{ type: 'text', text }],
+        usage: { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 30, cache_read_input_tokens: 40 },
+      },
+    },
+  ];
+  writeFileSync(path, entries.map((e) => JSON.stringify(e)).join('\n'));
+  return path;
+}
+
 // ─── Tests ─────────────────────────────────────────────────────────────────
 
 describe('session-start hook', () => {
@@ -86,6 +123,18 @@ describe('session-start hook', () => {
     expect(event.agent_type).toBe('unknown');
     expect(event.model).toBe('unknown');
     expect(event.source).toBe('cli');
+    expect(event.cwd).toBeNull();
+    expect(event.git_root).toBeNull();
+    expect(event.git_branch).toBeNull();
+  });
+
+  test('carries the working directory and its git root', async () => {
+    const cwd = import.meta.dir;
+    await runHook('session-start.ts', { session_id: 'sess-123', cwd });
+
+    const event = capturedCalls[0].body;
+    expect(event.cwd).toBe(cwd);
+    expect(event.git_root).toBe(detectGitInfo(cwd).git_root);
   });
 });
 
@@ -134,6 +183,34 @@ describe('stop hook', () => {
     const event = capturedCalls[0].body;
     expect(event.reason).toBe('stop');
   });
+
+  test('sends token usage and the final response from the transcript in one batch', async () => {
+    await runHook('stop.ts', { session_id: 'sess-456', transcript_path: writeTranscript('All done.') });
+
+    expect(requestCount).toBe(1);
+    expect(capturedCalls[0].url).toBe('http://localhost:3333/api/events/batch');
+    expect(capturedCalls.map((c) => c.body.type)).toEqual(['TokenUsage', 'SessionEnded']);
+
+    const usage = capturedCalls[0].body;
+    expect(usage.agent_id).toBe('sess-456');
+    expect(usage.model).toBe('claude-haiku-4-5');
+    expect(usage.total).toEqual({
+      input_tokens: 10,
+      output_tokens: 20,
+      cache_creation_input_tokens: 30,
+      cache_read_input_tokens: 40,
+    });
+    expect(usage.responses).toBe(1);
+    expect(capturedCalls[1].body.summary).toBe('All done.');
+  });
+
+  test('sends only SessionEnded when the transcript cannot be read', async () => {
+    await runHook('stop.ts', { session_id: 'sess-456', transcript_path: '/nonexistent/transcript.jsonl' });
+
+    expect(capturedCalls).toHaveLength(1);
+    expect(capturedCalls[0].url).toBe('http://localhost:3333/api/events');
+    expect(capturedCalls[0].body.summary).toBeNull();
+  });
 });
 
 describe('subagent-start hook', () => {
@@ -210,6 +287,23 @@ describe('subagent-stop hook', () => {
     expect(event.result).toBe('Analysis complete');
   });
 
+  test('reads usage and the final answer from the sub-agent transcript', async () => {
+    const agentTranscript = writeTranscript('Found 3 call sites.', true);
+    await runHook('subagent-stop.ts', {
+      session_id: 'parent-sess',
+      agent_id: 'a8efeee',
+      transcript_path: '/tmp/session.jsonl',
+      agent_transcript_path: agentTranscript,
+    });
+
+    expect(requestCount).toBe(1);
+    expect(capturedCalls.map((c) => c.body.type)).toEqual(['TokenUsage', 'AgentCompleted']);
+    expect(capturedCalls[0].body.agent_id).toBe('a8efeee');
+    expect(capturedCalls[0].body.session_id).toBe('parent-sess');
+    expect(capturedCalls[1].body.result).toBe('Found 3 call sites.');
+    expect(capturedCalls[1].body.transcript_path).toBe(agentTranscript);
+  });
+
   test('uses defaults for missing fields', async () => {
     await runHook('subagent-stop.ts', {});
 
@@ -329,6 +423,30 @@ describe('post-tool-use hook', () => {
     expect(msgEvent.content_preview).toBe('Investigate the bug in auth module');
   });
 
+  test('sends ToolCallCompleted and MessageSent in a single batch request', async () => {
+    await runHook('post-tool-use.ts', {
+      session_id: 'sess-123',
+      tool_name: 'Task',
+      tool_input: { name: 'researcher', prompt: 'Investigate' },
+      tool_use_id: 'tool-batch',
+    });
+
+    expect(requestCount).toBe(1);
+    expect(capturedCalls[0].url).toBe('http://localhost:3333/api/events/batch');
+    expect(capturedCalls.map((c) => c.body.type)).toEqual(['ToolCallCompleted', 'MessageSent']);
+  });
+
+  test('posts a lone ToolCallCompleted to the single-event endpoint', async () => {
+    await runHook('post-tool-use.ts', {
+      session_id: 'sess-123',
+      tool_name: 'Read',
+      tool_use_id: 'tool-single',
+    });
+
+    expect(requestCount).toBe(1);
+    expect(capturedCalls[0].url).toBe('http://localhost:3333/api/events');
+  });
+
   test('emits MessageSent for SendMessage tool calls', async () => {
     await runHook('post-tool-use.ts', {
       session_id: 'sess-123',
@@ -446,6 +564,18 @@ describe('post-tool-use hook', () => {
     expect(event.tool_response).toBe('short output');
   });
 
+  test('serializes non-string tool_response to JSON', async () => {
+    await runHook('post-tool-use.ts', {
+      session_id: 'sess-123',
+      tool_name: 'Bash',
+      tool_response: { stdout: 'ok', exit_code: 0 },
+      tool_use_id: 'tool-obj',
+    });
+
+    const event = capturedCalls[0].body;
+    expect(event.tool_response).toBe('{"stdout":"ok","exit_code":0}');
+  });
+
   test('preserves null tool_response', async () => {
     await runHook('post-tool-use.ts', {
       session_id: 'sess-123',
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for transcript parsing (shared/src/transcript.ts) and the
+ * hooks' TokenUsage helpers (hooks/src/transcript.ts).
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { isUserPrompt, parseTranscriptLines, summarizeTranscript } from '@shared/transcript';
+import { buildTokenUsageEvent, readTranscriptSummary } from '../transcript';
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+function prompt(text: string, extra: Record<string, unknown> = {}) {
+  return { type: 'user', message: { role: 'user', content: text }, ...extra };
+}
+
+function toolResult() {
+  const content = [{ type: 'tool_result', tool_use_id: 'tu-1', content: 'ok' }];
+  return { type: 'user', message: { role: 'user', content } };
+}
+
+function assistant(
+  id: string,
+  content: unknown[],
+  usage: Record<string, number>,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    type: 'assistant',
+    message: { id, role: 'assistant', model: 'claude-sonnet-4-5', content, usage },
+    ...extra,
+  };
+}
+
+const usage = (input: number, output: number, cacheWrite = 0, cacheRead = 0) => ({
+  input_tokens: input,
+  output_tokens: output,
+  cache_creation_input_tokens: cacheWrite,
+  cache_read_input_tokens: cacheRead,
+});
+
+function jsonl(...entries: unknown[]): string {
+  return entries.map((e) => JSON.stringify(e)).join('\n') + '\n';
+}
+
+// ─── Parsing ───────────────────────────────────────────────────────────────
+
+describe('parseTranscriptLines', () => {
+  test('skips blank, malformed and untyped lines', () => {
+    const entries = parseTranscriptLines(`${JSON.stringify(prompt('hi'))}\n\nnot json\n{"no":"type"}\n{"type":"summ`);
+    expect(entries).toHaveLength(1);
+  });
+});
+
+describe('isUserPrompt', () => {
+  test('distinguishes prompts from tool results and injected entries', () => {
+    expect(isUserPrompt(prompt('hi'))).toBe(true);
+    expect(isUserPrompt({ type: 'user', message: { content: [{ type: 'text', text: 'hi' }] } })).toBe(true);
+    expect(isUserPrompt(toolResult())).toBe(false);
+    expect(isUserPrompt(prompt('caveat', { isMeta: true }))).toBe(false);
+  });
+});
+
+describe('summarizeTranscript', () => {
+  test('counts each response once and splits off the last turn', () => {
+    const entries = parseTranscriptLines(
+      jsonl(
+        prompt('first'),
+        assistant('msg_1', [{ type: 'text', text: 'Looking' }], usage(10, 5, 100, 0)),
+        // The same response continues with a tool call; its usage is repeated
+        assistant('msg_1', [{ type: 'tool_use', id: 'tu-1', name: 'Read' }], usage(10, 25, 100, 0)),
+        toolResult(),
+        assistant('msg_2', [{ type: 'text', text: 'Done.' }], usage(3, 40, 0, 100)),
+        prompt('second'),
+        assistant('msg_3', [{ type: 'text', text: 'Again.' }], usage(4, 7, 0, 200)),
+      ),
+    );
+
+    const summary = summarizeTranscript(entries);
+    expect(summary.responses).toBe(3);
+    expect(summary.total).toEqual(usage(17, 72, 100, 300));
+    expect(summary.turn).toEqual(usage(4, 7, 0, 200));
+    expect(summary.model).toBe('claude-sonnet-4-5');
+    expect(summary.finalText).toBe('Again.');
+  });
+
+  test('joins the text blocks of the final response', () => {
+    const summary = summarizeTranscript(
+      parseTranscriptLines(
+        jsonl(
+          assistant('msg_1', [{ type: 'text', text: 'Part one' }], usage(1, 1)),
+          assistant('msg_1', [{ type: 'text', text: 'Part two' }], usage(1, 2)),
+        ),
+      ),
+    );
+    expect(summary.finalText).toBe('Part one\nPart two');
+  });
+
+  test('skips sidechain entries unless asked for them', () => {
+    const text = jsonl(
+      assistant('msg_main', [], usage(1, 1)),
+      assistant('msg_side', [], usage(100, 100), { isSidechain: true }),
+    );
+    expect(summarizeTranscript(parseTranscriptLines(text)).total).toEqual(usage(1, 1));
+    expect(summarizeTranscript(parseTranscriptLines(text), { includeSidechains: true }).total).toEqual(usage(101, 101));
+  });
+
+  test('ignores the synthetic model Claude Code writes for errors', () => {
+    const summary = summarizeTranscript(
+      parseTranscriptLines(
+        jsonl(
+          assistant('msg_1', [], usage(1, 1)),
+          { type: 'assistant', message: { id: 'msg_2', model: '<synthetic>', content: [], usage: usage(0, 0) } },
+        ),
+      ),
+    );
+    expect(summary.model).toBe('claude-sonnet-4-5');
+  });
+});
+
+// ─── Hook helpers ──────────────────────────────────────────────────────────
+
+describe('readTranscriptSummary', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'visualizer-transcript-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reads and summarizes a transcript file', async () => {
+    const path = join(dir, 'session.jsonl');
+    writeFileSync(path, jsonl(prompt('hi'), assistant('msg_1', [{ type: 'text', text: 'Hello' }], usage(2, 3))));
+
+    const summary = await readTranscriptSummary(path);
+    expect(summary?.total).toEqual(usage(2, 3));
+    expect(summary?.finalText).toBe('Hello');
+  });
+
+  test('returns null for a missing path or file', async () => {
+    expect(await readTranscriptSummary(undefined)).toBeNull();
+    expect(await readTranscriptSummary(join(dir, 'missing.jsonl'))).toBeNull();
+  });
+});
+
+describe('buildTokenUsageEvent', () => {
+  test('builds a TokenUsage event from a summary', () => {
+    const summary = { model: 'm', total: usage(5, 6), turn: usage(1, 2), responses: 2, finalText: null };
+    const event = buildTokenUsageEvent('sess-1', 'agent-1', summary);
+
+    expect(event).toMatchObject({
+      type: 'TokenUsage',
+      session_id: 'sess-1',
+      agent_id: 'agent-1',
+      model: 'm',
+      total: usage(5, 6),
+      turn: usage(1, 2),
+      responses: 2,
+    });
+  });
+
+  test('returns null when there is nothing to report', () => {
+    const empty = { model: null, total: usage(0, 0), turn: usage(0, 0), responses: 0, finalText: null };
+    expect(buildTokenUsageEvent('sess-1', 'sess-1', empty)).toBeNull();
+    expect(buildTokenUsageEvent('sess-1', 'sess-1', null)).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 /**
- * Unit tests for hooks/src/url.ts — resolveServerUrl utility.
+ * Unit tests for hooks/src/url.ts — resolveServerUrl utility — and the
+ * server address and token resolution it uses from shared/src/connection.ts.
  *
  * Tests the URL resolution priority with security validation:
  * 1. CLAUDE_VISUALIZER_URL (full base URL) — must resolve to loopback
@@ -7,7 +8,11 @@
  * 3. Default: http://localhost:3333/api/events
  */
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { resolveServerUrl } from '../url';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resolveServerUrl, resolveRequestHeaders } from '../url';
+import { resolveAuthToken, resolveServerBaseUrl, TOKEN_HEADER } from '@shared/connection';
 
 describe('resolveServerUrl', () => {
   let savedEnv: {
@@ -178,3 +183,69 @@ describe('resolveServerUrl', () => {
     expect(url).toBe('http://localhost:3333/api/events');
   });
 });
+
+describe('resolveAuthToken', () => {
+  let savedToken: string | undefined;
+  let dir: string;
+  let tokenFile: string;
+
+  beforeEach(() => {
+    savedToken = process.env.CLAUDE_VISUALIZER_TOKEN;
+    delete process.env.CLAUDE_VISUALIZER_TOKEN;
+    dir = mkdtempSync(join(tmpdir(), 'visualizer-token-'));
+    tokenFile = join(dir, 'token');
+  });
+
+  afterEach(() => {
+    if (savedToken !== undefined) {
+      process.env.CLAUDE_VISUALIZER_TOKEN = savedToken;
+    } else {
+      delete process.env.CLAUDE_VISUALIZER_TOKEN;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns null when neither env var nor token file exists', () => {
+    expect(resolveAuthToken(tokenFile)).toBeNull();
+  });
+
+  test('reads the token file, trimming whitespace', () => {
+    writeFileSync(tokenFile, 'file-token\n');
+    expect(resolveAuthToken(tokenFile)).toBe('file-token');
+  });
+
+  test('CLAUDE_VISUALIZER_TOKEN takes priority over the token file', () => {
+    writeFileSync(tokenFile, 'file-token');
+    process.env.CLAUDE_VISUALIZER_TOKEN = 'env-token';
+    expect(resolveAuthToken(tokenFile)).toBe('env-token');
+  });
+
+  test('reads the environment it is given', () => {
+    writeFileSync(tokenFile, 'file-token');
+    expect(resolveAuthToken(tokenFile, { CLAUDE_VISUALIZER_TOKEN: 'cli-token' })).toBe('cli-token');
+    expect(resolveAuthToken(tokenFile, {})).toBe('file-token');
+  });
+
+  test('ignores an empty token file', () => {
+    writeFileSync(tokenFile, '  \n');
+    expect(resolveAuthToken(tokenFile)).toBeNull();
+  });
+
+  test('resolveRequestHeaders adds the token header only when a token exists', () => {
+    expect(resolveRequestHeaders(tokenFile)).toEqual({ 'Content-Type': 'application/json' });
+
+    writeFileSync(tokenFile, 'secret');
+    expect(resolveRequestHeaders(tokenFile)).toEqual({
+      'Content-Type': 'application/json',
+      [TOKEN_HEADER]: 'secret',
+    });
+  });
+});
+
+describe('resolveServerBaseUrl', () => {
+  test('is the server address without the events path, for the CLI', () => {
+    expect(resolveServerBaseUrl({})).toBe('http://localhost:3333');
+    expect(resolveServerBaseUrl({ CLAUDE_VISUALIZER_URL: 'http://127.0.0.1:9999/' })).toBe('http://127.0.0.1:9999');
+    expect(resolveServerBaseUrl({ VISUALIZER_PORT: '4000' })).toBe('http://localhost:4000');
+  });
+});
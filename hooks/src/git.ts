@@ -0,0 +1,38 @@
+/**
+ * Git repository detection for hook scripts.
+ *
+ * Lets SessionStart report which repository and branch a session runs in so
+ * the server can group sessions by project. Never throws: outside a
+ * repository, without git installed, or after the timeout, fields are null.
+ */
+
+const GIT_TIMEOUT_MS = 1000;
+
+export interface GitInfo {
+  git_root: string | null;
+  git_branch: string | null;
+}
+
+/** Run a git command in `cwd`, returning trimmed stdout or null on failure. */
+function git(cwd: string, args: string[]): string | null {
+  try {
+    const result = Bun.spawnSync(['git', '-C', cwd, ...args], {
+      stdout: 'pipe',
+      stderr: 'ignore',
+      timeout: GIT_TIMEOUT_MS,
+    });
+    if (!result.success) return null;
+    const output = result.stdout.toString().trim();
+    return output.length > 0 ? output : null;
+  } catch {
+    return null;
+  }
+}
+
+export function detectGitInfo(cwd: string | null | undefined): GitInfo {
+  if (!cwd) return { git_root: null, git_branch: null };
+  const gitRoot = git(cwd, ['rev-parse', '--show-toplevel']);
+  if (!gitRoot) return { git_root: null, git_branch: null };
+  // symbolic-ref fails on a detached HEAD, which has no branch to report
+  return { git_root: gitRoot, git_branch: git(cwd, ['symbolic-ref', '--short', '-q', 'HEAD']) };
+}
@@ -3,9 +3,10 @@
  * Fires when Claude Code generates a notification.
  */
 import type { WaitingForUserEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
@@ -23,7 +24,7 @@ async function main() {
 
     await fetch(SERVER_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: REQUEST_HEADERS,
       body: JSON.stringify(event),
       signal: AbortSignal.timeout(5000),
     });
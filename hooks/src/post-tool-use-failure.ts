@@ -3,9 +3,10 @@
  * Fires when a tool call fails.
  */
 import type { ToolCallFailedEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
@@ -24,7 +25,7 @@ async function main() {
 
     await fetch(SERVER_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: REQUEST_HEADERS,
       body: JSON.stringify(event),
       signal: AbortSignal.timeout(5000),
     });
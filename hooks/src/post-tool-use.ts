@@ -1,23 +1,27 @@
 /**
  * Hook: PostToolUse
  * Fires after a tool call completes successfully.
- * Also detects Task/SendMessage tool calls to emit MessageSent events.
+ * Also detects Task/SendMessage tool calls to emit MessageSent events; both
+ * events are then sent together via POST /api/events/batch.
  */
 import type { ToolCallCompletedEvent, MessageSentEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
 import { truncateString } from './truncate';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
     const input = await Bun.stdin.text();
     const data = JSON.parse(input);
 
+    // tool_response is often structured (e.g. { stdout, stderr }); the event
+    // schema requires a string, so serialize anything that is not one.
     const rawResponse = data.tool_response ?? null;
-    const truncatedResponse = typeof rawResponse === 'string'
-      ? truncateString(rawResponse)
-      : rawResponse;
+    const truncatedResponse = rawResponse === null
+      ? null
+      : truncateString(typeof rawResponse === 'string' ? rawResponse : JSON.stringify(rawResponse));
 
     const event: ToolCallCompletedEvent = {
       id: crypto.randomUUID(),
@@ -46,16 +50,17 @@ async function main() {
       events.push(msgEvent);
     }
 
-    await Promise.all(
-      events.map((e) =>
-        fetch(SERVER_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(e),
-          signal: AbortSignal.timeout(5000),
-        })
-      )
-    );
+    // A single event goes to /api/events; multiple share one batch round trip
+    const [url, body] = events.length === 1
+      ? [SERVER_URL, JSON.stringify(event)]
+      : [`${SERVER_URL}/batch`, JSON.stringify(events)];
+
+    await fetch(url, {
+      method: 'POST',
+      headers: REQUEST_HEADERS,
+      body,
+      signal: AbortSignal.timeout(5000),
+    });
   } catch {
     // Silent fail — never block Claude Code
   }
@@ -3,10 +3,11 @@
  * Fires before a tool call is executed.
  */
 import type { ToolCallStartedEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
 import { truncateToolInput } from './truncate';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
@@ -25,7 +26,7 @@ async function main() {
 
     await fetch(SERVER_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: REQUEST_HEADERS,
       body: JSON.stringify(event),
       signal: AbortSignal.timeout(5000),
     });
@@ -3,9 +3,11 @@
  * Fires when a new Claude Code session begins.
  */
 import type { SessionStartedEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
+import { detectGitInfo } from './git';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
@@ -20,11 +22,13 @@ async function main() {
       agent_type: data.agent_type || 'unknown',
       model: data.model || 'unknown',
       source: data.source || 'cli',
+      cwd: typeof data.cwd === 'string' ? data.cwd : null,
+      ...detectGitInfo(data.cwd),
     };
 
     await fetch(SERVER_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: REQUEST_HEADERS,
       body: JSON.stringify(event),
       signal: AbortSignal.timeout(5000),
     });
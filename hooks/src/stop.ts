@@ -1,30 +1,48 @@
 /**
  * Hook: Stop
  * Fires when the agent stops (session ends or is interrupted).
+ * Token usage and the final response are read from the session transcript;
+ * a TokenUsage event is then sent together with SessionEnded via
+ * POST /api/events/batch.
  */
-import type { SessionEndedEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import type { SessionEndedEvent, TokenUsageEvent } from '@shared/events';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
+import { truncateString } from './truncate';
+import { buildTokenUsageEvent, readTranscriptSummary } from './transcript';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
     const input = await Bun.stdin.text();
     const data = JSON.parse(input);
+    const sessionId = data.session_id || 'unknown';
+
+    // Subagent entries in the session transcript belong to their own agents
+    const transcript = await readTranscriptSummary(data.transcript_path);
 
     const event: SessionEndedEvent = {
       id: crypto.randomUUID(),
       type: 'SessionEnded',
       timestamp: new Date().toISOString(),
-      session_id: data.session_id || 'unknown',
+      session_id: sessionId,
       reason: data.reason || 'stop',
-      summary: data.summary ?? null,
+      summary: data.summary ?? (transcript?.finalText ? truncateString(transcript.finalText) : null),
     };
 
-    await fetch(SERVER_URL, {
+    // Usage first, so it is applied before the agent is marked as stopped
+    const usage = buildTokenUsageEvent(sessionId, sessionId, transcript);
+    const events: Array<TokenUsageEvent | SessionEndedEvent> = usage ? [usage, event] : [event];
+
+    const [url, body] = events.length === 1
+      ? [SERVER_URL, JSON.stringify(event)]
+      : [`${SERVER_URL}/batch`, JSON.stringify(events)];
+
+    await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(event),
+      headers: REQUEST_HEADERS,
+      body,
       signal: AbortSignal.timeout(5000),
     });
   } catch {
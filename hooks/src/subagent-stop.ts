@@ -1,31 +1,50 @@
 /**
  * Hook: SubagentStop
  * Fires when a sub-agent completes.
+ * When Claude Code names the sub-agent's own transcript, its token usage and
+ * final answer are read from it; a TokenUsage event is then sent together
+ * with AgentCompleted via POST /api/events/batch.
  */
-import type { AgentCompletedEvent } from '@shared/events';
-import { resolveServerUrl } from './url';
+import type { AgentCompletedEvent, TokenUsageEvent } from '@shared/events';
+import { resolveServerUrl, resolveRequestHeaders } from './url';
+import { truncateString } from './truncate';
+import { buildTokenUsageEvent, readTranscriptSummary } from './transcript';
 
 const SERVER_URL = resolveServerUrl();
+const REQUEST_HEADERS = resolveRequestHeaders();
 
 async function main() {
   try {
     const input = await Bun.stdin.text();
     const data = JSON.parse(input);
+    const sessionId = data.session_id || 'unknown';
+    const agentId = data.agent_id || '';
+
+    // Every entry of a sub-agent transcript is a sidechain entry
+    const transcript = await readTranscriptSummary(data.agent_transcript_path, { includeSidechains: true });
 
     const event: AgentCompletedEvent = {
       id: crypto.randomUUID(),
       type: 'AgentCompleted',
       timestamp: new Date().toISOString(),
-      session_id: data.session_id || 'unknown',
-      agent_id: data.agent_id || '',
-      transcript_path: data.transcript_path ?? null,
-      result: data.result ?? null,
+      session_id: sessionId,
+      agent_id: agentId,
+      transcript_path: data.agent_transcript_path ?? data.transcript_path ?? null,
+      result: data.result ?? (transcript?.finalText ? truncateString(transcript.finalText) : null),
     };
 
-    await fetch(SERVER_URL, {
+    // Usage first, so it is applied while the agent is still in the tree
+    const usage = agentId ? buildTokenUsageEvent(sessionId, agentId, transcript) : null;
+    const events: Array<TokenUsageEvent | AgentCompletedEvent> = usage ? [usage, event] : [event];
+
+    const [url, body] = events.length === 1
+      ? [SERVER_URL, JSON.stringify(event)]
+      : [`${SERVER_URL}/batch`, JSON.stringify(events)];
+
+    await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(event),
+      headers: REQUEST_HEADERS,
+      body,
       signal: AbortSignal.timeout(5000),
     });
   } catch {
@@ -0,0 +1,47 @@
+/**
+ * Transcript enrichment for the Stop and SubagentStop hooks.
+ *
+ * Reads the transcript Claude Code hands the hook and turns it into a
+ * TokenUsage event, so the visualizer knows the tokens spent and the model
+ * actually used. Hooks must never crash, so nothing here throws.
+ */
+import type { TokenUsageEvent } from '@shared/events';
+import {
+  parseTranscriptLines,
+  summarizeTranscript,
+  type SummarizeOptions,
+  type TranscriptSummary,
+} from '@shared/transcript';
+
+/** Read and summarize a transcript; null when there is none or it cannot be read. */
+export async function readTranscriptSummary(
+  path: unknown,
+  options: SummarizeOptions = {},
+): Promise<TranscriptSummary | null> {
+  if (typeof path !== 'string' || !path) return null;
+  try {
+    return summarizeTranscript(parseTranscriptLines(await Bun.file(path).text()), options);
+  } catch {
+    return null;
+  }
+}
+
+/** A TokenUsage event for `agentId`, or null when the transcript has no responses yet. */
+export function buildTokenUsageEvent(
+  sessionId: string,
+  agentId: string,
+  summary: TranscriptSummary | null,
+): TokenUsageEvent | null {
+  if (!summary || summary.responses === 0) return null;
+  return {
+    id: crypto.randomUUID(),
+    type: 'TokenUsage',
+    timestamp: new Date().toISOString(),
+    session_id: sessionId,
+    agent_id: agentId,
+    model: summary.model,
+    total: summary.total,
+    turn: summary.turn,
+    responses: summary.responses,
+  };
+}
@@ -2,8 +2,9 @@
  * Build script: Bundle each of the 12 hook source files as standalone JS.
  *
  * Each hook becomes a self-contained ESM file with zero external imports.
- * The @shared/* imports are type-only and vanish at build time.
- * Utility modules (e.g., url.ts) are inlined by the bundler when imported.
+ * Type-only @shared/* imports vanish at build time. Utility modules (e.g.,
+ * url.ts, and the shared transcript parser) are inlined by the bundler when
+ * imported.
  */
 import { readdirSync, mkdirSync, rmSync } from 'node:fs';
 import path from 'node:path';
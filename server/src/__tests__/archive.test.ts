@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent, getEventCount } from '../database';
+import { exportSession, importArchive } from '../archive';
+import { createWebSocketHandler } from '../websocket';
+import { createSseHandler } from '../sse';
+import type { ServerWebSocket } from 'bun';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeEvent(id: string, sessionId: string, timestamp: string) {
+  return {
+    id,
+    type: 'UserPrompt',
+    timestamp,
+    session_id: sessionId,
+    prompt_text: `prompt ${id}`,
+  };
+}
+
+function store(db: Database, event: ReturnType<typeof makeEvent>) {
+  insertEvent(db, { ...event, payload: JSON.stringify(event) });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('exportSession', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('returns null for an unknown session', () => {
+    expect(exportSession(db, 'missing')).toBeNull();
+  });
+
+  test('writes one event per line in chronological order', () => {
+    store(db, makeEvent('e2', 'A', '2025-01-01T00:00:02Z'));
+    store(db, makeEvent('e1', 'A', '2025-01-01T00:00:01Z'));
+    store(db, makeEvent('x1', 'B', '2025-01-01T00:00:01Z'));
+
+    const archive = exportSession(db, 'A')!;
+    const lines = archive.trimEnd().split('\n').map((l) => JSON.parse(l));
+    expect(lines.map((e) => e.id)).toEqual(['e1', 'e2']);
+    expect(archive.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('importArchive', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('imports valid lines', () => {
+    const archive = [
+      JSON.stringify(makeEvent('e1', 'A', '2025-01-01T00:00:01Z')),
+      JSON.stringify(makeEvent('e2', 'A', '2025-01-01T00:00:02Z')),
+    ].join('\n');
+
+    const result = importArchive(db, archive);
+    expect(result).toEqual({ imported: 2, skipped: 0, errors: [] });
+    expect(getEventCount(db)).toBe(2);
+  });
+
+  test('skips duplicate ids so re-imports are idempotent', () => {
+    const archive = JSON.stringify(makeEvent('e1', 'A', '2025-01-01T00:00:01Z'));
+    importArchive(db, archive);
+
+    const result = importArchive(db, archive);
+    expect(result.imported).toBe(0);
+    expect(result.skipped).toBe(1);
+    expect(getEventCount(db)).toBe(1);
+  });
+
+  test('reports per-line errors and keeps importing', () => {
+    const archive = [
+      'not json',
+      '',
+      JSON.stringify({ id: 'bad', type: 'Nope', timestamp: 't', session_id: 's' }),
+      JSON.stringify(makeEvent('ok', 'A', '2025-01-01T00:00:01Z')),
+    ].join('\n');
+
+    const result = importArchive(db, archive);
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual([
+      { line: 1, error: 'Invalid JSON' },
+      { line: 3, error: 'Unknown event type: "Nope"', path: 'type' },
+    ]);
+  });
+
+  test('a client reconnecting after an import does not receive the imported events', async () => {
+    store(db, makeEvent('live-1', 'A', '2025-06-01T00:00:01Z'));
+    importArchive(db, JSON.stringify(makeEvent('old-1', 'B', '2025-01-01T00:00:01Z')));
+    store(db, makeEvent('live-2', 'A', '2025-06-01T00:00:02Z'));
+
+    const sent: string[] = [];
+    const socket = { sendText: (data: string) => sent.push(data) } as unknown as ServerWebSocket<unknown>;
+    createWebSocketHandler(db).handlers.message(socket, JSON.stringify({ type: 'resume', afterSeq: 1 }));
+    const history = JSON.parse(sent[0]);
+    expect(history.data.map((e: { id: string }) => e.id)).toEqual(['live-2']);
+    expect(history.lastSeq).toBe(3);
+
+    const url = new URL('http://localhost/api/stream?last_event_id=1');
+    const res = createSseHandler(db).handle(new Request(url.href), url);
+    const reader = res.body!.getReader();
+    let text = '';
+    while (!text.includes('live-2')) text += new TextDecoder().decode((await reader.read()).value);
+    await reader.cancel();
+    expect(text).not.toContain('old-1');
+  });
+
+  test('round-trips an exported session into another database', () => {
+    store(db, makeEvent('e1', 'A', '2025-01-01T00:00:01Z'));
+    store(db, makeEvent('e2', 'A', '2025-01-01T00:00:02Z'));
+    const archive = exportSession(db, 'A')!;
+
+    const other = initDatabase(':memory:');
+    expect(importArchive(other, archive).imported).toBe(2);
+    expect(exportSession(other, 'A')).toBe(archive);
+  });
+});
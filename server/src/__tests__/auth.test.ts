@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'bun:test';
+import { createAuthGuard, readCookie, TOKEN_COOKIE } from '../auth';
+import { TOKEN_HEADER } from '@shared/connection';
+
+function req(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/events', { headers });
+}
+
+describe('readCookie', () => {
+  test('finds a cookie among several', () => {
+    expect(readCookie('a=1; visualizer_token=abc; b=2', 'visualizer_token')).toBe('abc');
+  });
+
+  test('returns null when absent or header missing', () => {
+    expect(readCookie('a=1', 'visualizer_token')).toBeNull();
+    expect(readCookie(null, 'visualizer_token')).toBeNull();
+  });
+});
+
+describe('createAuthGuard', () => {
+  test('without a token every request is authorized', () => {
+    const guard = createAuthGuard(null);
+    expect(guard.enabled).toBe(false);
+    expect(guard.isAuthorized(req())).toBe(true);
+    expect(guard.loginRedirect(new URL('http://localhost/?token=x'))).toBeNull();
+  });
+
+  test('accepts the token header', () => {
+    const guard = createAuthGuard('secret');
+    expect(guard.isAuthorized(req({ [TOKEN_HEADER]: 'secret' }))).toBe(true);
+  });
+
+  test('accepts the token as a bearer token', () => {
+    const guard = createAuthGuard('secret');
+    expect(guard.isAuthorized(req({ Authorization: 'Bearer secret' }))).toBe(true);
+    expect(guard.isAuthorized(req({ Authorization: 'Basic secret' }))).toBe(false);
+  });
+
+  test('accepts the token cookie', () => {
+    const guard = createAuthGuard('secret');
+    expect(guard.isAuthorized(req({ Cookie: `${TOKEN_COOKIE}=secret` }))).toBe(true);
+  });
+
+  test('rejects missing or wrong tokens', () => {
+    const guard = createAuthGuard('secret');
+    expect(guard.isAuthorized(req())).toBe(false);
+    expect(guard.isAuthorized(req({ [TOKEN_HEADER]: 'secreT' }))).toBe(false);
+    expect(guard.isAuthorized(req({ [TOKEN_HEADER]: 'secret-but-longer' }))).toBe(false);
+  });
+
+  test('loginRedirect sets the cookie and strips the token from the URL', () => {
+    const guard = createAuthGuard('secret');
+    const res = guard.loginRedirect(new URL('http://localhost/index.html?token=secret&x=1'))!;
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/index.html?x=1');
+    expect(res.headers.get('Set-Cookie')).toBe(`${TOKEN_COOKIE}=secret; Path=/; HttpOnly; SameSite=Strict`);
+  });
+
+  test('loginRedirect ignores a wrong token', () => {
+    const guard = createAuthGuard('secret');
+    expect(guard.loginRedirect(new URL('http://localhost/?token=nope'))).toBeNull();
+  });
+});
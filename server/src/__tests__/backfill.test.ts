@@ -0,0 +1,233 @@
+/**
+ * Tests for backfilling history from Claude Code transcripts (server/src/backfill.ts).
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { initDatabase, insertEvent, getEventsAfterSeq, getSessions } from '../database';
+import { backfillTranscripts, resolveProjectsDir, transcriptToEvents } from '../backfill';
+import { getSessionUsage } from '../usage';
+import { parseTranscriptLines } from '@shared/transcript';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SESSION = 'sess-old';
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function entry(uuid: string, at: number, fields: Record<string, unknown>) {
+  return { uuid, timestamp: ts(at), sessionId: SESSION, cwd: '/work/app', gitBranch: 'main', ...fields };
+}
+
+function prompt(uuid: string, at: number, text: string) {
+  return entry(uuid, at, { type: 'user', message: { role: 'user', content: text } });
+}
+
+function assistant(uuid: string, at: number, content: unknown[], extra: Record<string, unknown> = {}) {
+  const usage = { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+  const message = { id: `msg-${uuid}`, role: 'assistant', model: 'claude-sonnet-4-5', content, usage };
+  return entry(uuid, at, { type: 'assistant', message, ...extra });
+}
+
+function toolResult(uuid: string, at: number, toolUseId: string, content: unknown, isError = false) {
+  const block = { type: 'tool_result', tool_use_id: toolUseId, content, is_error: isError };
+  return entry(uuid, at, { type: 'user', message: { role: 'user', content: [block] } });
+}
+
+function jsonl(...entries: unknown[]): string {
+  return entries.map((e) => JSON.stringify(e)).join('\n') + '\n';
+}
+
+const TRANSCRIPT = jsonl(
+  { type: 'summary', summary: 'Fix the build' },
+  prompt('u1', 0, 'Fix the build'),
+  assistant('a1', 1, [
+    { type: 'text', text: 'Reading.' },
+    { type: 'tool_use', id: 'tu-read', name: 'Read', input: { file_path: '/work/app/x.ts' } },
+  ]),
+  toolResult('r1', 3, 'tu-read', 'file contents'),
+  assistant('a2', 4, [{ type: 'tool_use', id: 'tu-bash', name: 'Bash', input: { command: 'make' } }]),
+  toolResult('r2', 5, 'tu-bash', [{ type: 'text', text: 'make: *** Error 1' }], true),
+  assistant('a3', 6, [
+    { type: 'tool_use', id: 'tu-task', name: 'Task', input: { subagent_type: 'Explore', description: 'Find it' } },
+  ]),
+  // Older transcripts embed the subagent's own entries; they are skipped
+  assistant('side', 7, [{ type: 'tool_use', id: 'tu-side', name: 'Grep', input: {} }], { isSidechain: true }),
+  toolResult('r3', 9, 'tu-task', [{ type: 'text', text: 'Found it in x.ts' }]),
+  assistant('a4', 10, [{ type: 'text', text: 'Fixed.' }]),
+);
+
+function store(db: Database, event: VisualizerEvent) {
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Event synthesis
+// ---------------------------------------------------------------------------
+
+describe('transcriptToEvents', () => {
+  test('replays a transcript as the events the hooks would have sent', () => {
+    const events = transcriptToEvents(parseTranscriptLines(TRANSCRIPT), 'file-name');
+
+    expect(events.map((e) => [e.type, e.timestamp])).toEqual([
+      ['SessionStarted', ts(0)],
+      ['UserPrompt', ts(0)],
+      ['ToolCallStarted', ts(1)],
+      ['ToolCallCompleted', ts(3)],
+      ['ToolCallStarted', ts(4)],
+      ['ToolCallFailed', ts(5)],
+      ['ToolCallStarted', ts(6)],
+      ['AgentSpawned', ts(6)],
+      ['AgentCompleted', ts(9)],
+      ['ToolCallCompleted', ts(9)],
+      ['TokenUsage', ts(10)],
+      ['SessionEnded', ts(10)],
+    ]);
+    expect(events.every((e) => e.session_id === SESSION && e.id.startsWith(`backfill:${SESSION}:`))).toBe(true);
+    expect(events[0]).toMatchObject({ model: 'claude-sonnet-4-5', source: 'backfill', cwd: '/work/app' });
+    expect(events[3]).toMatchObject({ tool_name: 'Read', tool_response: 'file contents', duration_ms: 2000 });
+    expect(events[5]).toMatchObject({ tool_name: 'Bash', error: 'make: *** Error 1' });
+    expect(events[7]).toMatchObject({ agent_id: 'tu-task', agent_type: 'Explore', task_description: 'Find it' });
+    expect(events[8]).toMatchObject({ agent_id: 'tu-task', result: 'Found it in x.ts' });
+    expect(events[10]).toMatchObject({ responses: 4, total: { input_tokens: 40, output_tokens: 20 } });
+    expect(events[11]).toMatchObject({ summary: 'Fixed.' });
+  });
+
+  test('ids are stable across runs', () => {
+    const ids = () => transcriptToEvents(parseTranscriptLines(TRANSCRIPT), 'x').map((e) => e.id);
+    expect(ids()).toEqual(ids());
+  });
+
+  test('clips long tool input and falls back to the file name for the session', () => {
+    const content = [{ type: 'tool_use', id: 'tu-1', name: 'Write', input: { content: 'x'.repeat(5000) } }];
+    const text = jsonl({ type: 'assistant', uuid: 'a1', timestamp: ts(0), message: { content } });
+    const events = transcriptToEvents(parseTranscriptLines(text), 'from-file');
+    expect(events[0].session_id).toBe('from-file');
+    expect(events[0]).toMatchObject({ model: 'unknown' });
+    const started = events.find((e) => e.type === 'ToolCallStarted');
+    expect(started).toMatchObject({ tool_input: { content: 'x'.repeat(2048) + ' [truncated]' } });
+  });
+
+  test('has nothing to replay for subagent-only or empty transcripts', () => {
+    const side = assistant('s1', 0, [{ type: 'text', text: 'hi' }], { isSidechain: true });
+    expect(transcriptToEvents(parseTranscriptLines(jsonl(side)), 'agent-1')).toEqual([]);
+    expect(transcriptToEvents([], 'empty')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Backfill
+// ---------------------------------------------------------------------------
+
+describe('backfillTranscripts', () => {
+  let db: Database;
+  let dir: string;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    dir = mkdtempSync(join(tmpdir(), 'visualizer-backfill-'));
+    mkdirSync(join(dir, '-work-app'));
+    writeFileSync(join(dir, '-work-app', `${SESSION}.jsonl`), TRANSCRIPT);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('imports every transcript and is idempotent', async () => {
+    const first = await backfillTranscripts(db, dir);
+    expect(first).toEqual({ files: 1, sessions: 1, imported: 12, skipped: 0, recorded_sessions: 0, errors: [] });
+    expect(getSessions(db)[0]).toMatchObject({ session_id: SESSION, event_count: 12, project: '/work/app' });
+
+    const second = await backfillTranscripts(db, dir);
+    expect(second).toMatchObject({ files: 1, sessions: 0, imported: 0, skipped: 12 });
+  });
+
+  test('stores events as historical, so resuming clients never receive them', async () => {
+    await backfillTranscripts(db, dir);
+    expect(getEventsAfterSeq(db, 0)).toEqual([]);
+  });
+
+  test('adds only what is new once a transcript grows', async () => {
+    await backfillTranscripts(db, dir);
+    writeFileSync(
+      join(dir, '-work-app', `${SESSION}.jsonl`),
+      TRANSCRIPT + jsonl(prompt('u2', 20, 'Thanks'), assistant('a5', 21, [{ type: 'text', text: 'Welcome.' }])),
+    );
+
+    // The new prompt, plus the session's usage and end replaced with their new totals
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ imported: 3, skipped: 10 });
+    const ends = db
+      .prepare(`SELECT id, type FROM events WHERE type IN ('TokenUsage', 'SessionEnded') ORDER BY seq`)
+      .all();
+    expect(ends).toEqual([
+      { id: `backfill:${SESSION}:end:usage`, type: 'TokenUsage' },
+      { id: `backfill:${SESSION}:end`, type: 'SessionEnded' },
+    ]);
+    expect(getSessionUsage(db, SESSION)?.usage).toMatchObject({ input_tokens: 50, output_tokens: 25 });
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ imported: 0, skipped: 13 });
+  });
+
+  test('replaces ends keyed by the last entry by earlier runs', async () => {
+    store(db, {
+      id: `backfill:${SESSION}:a3:ended`,
+      type: 'SessionEnded',
+      session_id: SESSION,
+      timestamp: ts(6),
+      reason: 'other',
+      summary: null,
+    });
+    await backfillTranscripts(db, dir);
+    const ends = db.prepare(`SELECT id FROM events WHERE type = 'SessionEnded'`).all();
+    expect(ends).toEqual([{ id: `backfill:${SESSION}:end` }]);
+  });
+
+  test('leaves sessions the hooks recorded alone', async () => {
+    store(db, { id: 'live-1', type: 'UserPrompt', session_id: SESSION, timestamp: ts(0), prompt_text: 'hi' });
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ imported: 0, recorded_sessions: 1 });
+  });
+
+  test('fills in the part of a resumed session from before the hooks saw it', async () => {
+    store(db, { id: 'live-1', type: 'UserPrompt', session_id: SESSION, timestamp: ts(5), prompt_text: 'again' });
+
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ imported: 7, recorded_sessions: 1 });
+    const rows = db.prepare('SELECT id, type FROM events ORDER BY seq').all() as Array<{ id: string; type: string }>;
+    expect(rows.filter((r) => r.id.startsWith('backfill:')).map((r) => r.type)).toEqual([
+      'SessionStarted',
+      'UserPrompt',
+      'ToolCallStarted',
+      'ToolCallCompleted',
+      'ToolCallStarted',
+      'TokenUsage',
+      'SessionEnded',
+    ]);
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ imported: 0, skipped: 7 });
+  });
+
+  test('reads nested transcripts and reports a missing directory', async () => {
+    const nested = join(dir, '-work-app', SESSION, 'subagents');
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(join(nested, 'agent-1.jsonl'), jsonl(assistant('s1', 0, [], { isSidechain: true })));
+
+    expect(await backfillTranscripts(db, dir)).toMatchObject({ files: 2, sessions: 1 });
+    expect((await backfillTranscripts(db, join(dir, 'missing'))).errors).toHaveLength(1);
+  });
+
+  test('resolveProjectsDir honours CLAUDE_CONFIG_DIR', () => {
+    expect(resolveProjectsDir({ CLAUDE_CONFIG_DIR: '/opt/claude' })).toBe('/opt/claude/projects');
+    expect(resolveProjectsDir({})).toEndWith(join('.claude', 'projects'));
+  });
+});
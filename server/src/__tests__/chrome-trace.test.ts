@@ -0,0 +1,208 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { getSessionChromeTrace, toChromeTrace, type TraceEvent } from '../chrome-trace';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function micros(seconds: number): number {
+  return Date.UTC(2025, 0, 1, 0, 0, seconds) * 1000;
+}
+
+function base(at: number, sessionId = 'session-1') {
+  counter++;
+  return { id: `evt-${counter}`, timestamp: ts(at), session_id: sessionId };
+}
+
+function sessionStarted(at: number, sessionId = 'session-1'): VisualizerEvent {
+  return { ...base(at, sessionId), type: 'SessionStarted', agent_type: 'main', model: 'opus', source: 'cli' };
+}
+
+function agentSpawned(at: number, agentId: string): VisualizerEvent {
+  return {
+    ...base(at),
+    type: 'AgentSpawned',
+    agent_id: agentId,
+    parent_session_id: null,
+    agent_type: 'Explore',
+    model: 'sonnet',
+    task_description: 'search',
+  };
+}
+
+function agentCompleted(at: number, agentId: string): VisualizerEvent {
+  return { ...base(at), type: 'AgentCompleted', agent_id: agentId, transcript_path: null, result: 'done' };
+}
+
+function toolStarted(at: number, toolUseId: string, agentId = 'session-1'): VisualizerEvent {
+  return {
+    ...base(at, agentId),
+    type: 'ToolCallStarted',
+    tool_name: 'Bash',
+    tool_input: { command: 'ls' },
+    tool_use_id: toolUseId,
+  };
+}
+
+function toolCompleted(at: number, toolUseId: string, agentId = 'session-1', durationMs = 1000): VisualizerEvent {
+  return {
+    ...base(at, agentId),
+    type: 'ToolCallCompleted',
+    tool_name: 'Bash',
+    tool_response: 'ok',
+    duration_ms: durationMs,
+    tool_use_id: toolUseId,
+  };
+}
+
+function slices(events: TraceEvent[], cat: string): TraceEvent[] {
+  return events.filter((e) => e.ph === 'X' && e.cat === cat);
+}
+
+/** Tool calls as [begin, end] pairs of async events, in order of their begin. */
+function toolCalls(events: TraceEvent[]): Array<{ begin: TraceEvent; end: TraceEvent }> {
+  return events
+    .filter((e) => e.ph === 'b')
+    .map((begin) => ({ begin, end: events.find((e) => e.ph === 'e' && e.id === begin.id)! }));
+}
+
+function threadNames(events: TraceEvent[]): Record<number, unknown> {
+  return Object.fromEntries(events.filter((e) => e.name === 'thread_name').map((e) => [e.tid, e.args!.name]));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('toChromeTrace', () => {
+  test('puts each agent on its own thread', () => {
+    const { traceEvents } = toChromeTrace([
+      sessionStarted(0),
+      agentSpawned(1, 'sub-1'),
+      toolStarted(2, 'tu-main'),
+      toolCompleted(3, 'tu-main'),
+      agentCompleted(6, 'sub-1'),
+    ]);
+
+    expect(threadNames(traceEvents)).toEqual({ 1: 'main (session-1)', 2: 'Explore (sub-1)' });
+
+    expect(slices(traceEvents, 'agent')).toEqual([
+      {
+        name: 'Explore',
+        cat: 'agent',
+        ph: 'X',
+        ts: micros(1),
+        dur: 5_000_000,
+        pid: 1,
+        tid: 2,
+        args: { agent_id: 'sub-1', model: 'sonnet', task_description: 'search' },
+      },
+    ]);
+  });
+
+  test('makes tool calls async slices, so overlapping calls do not nest', () => {
+    // Tool events carry the session id even when a subagent made the call
+    const { traceEvents } = toChromeTrace([
+      sessionStarted(0),
+      toolStarted(1, 'tu-1'),
+      toolStarted(2, 'tu-2'),
+      toolCompleted(3, 'tu-1'),
+      toolCompleted(5, 'tu-2'),
+    ]);
+
+    expect(slices(traceEvents, 'tool')).toEqual([]);
+    const calls = toolCalls(traceEvents);
+    expect(calls.map(({ begin, end }) => [begin.id, begin.tid, begin.ts, end.ts])).toEqual([
+      ['tu-1', 1, micros(1), micros(3)],
+      ['tu-2', 1, micros(2), micros(5)],
+    ]);
+    expect(calls[0].begin).toMatchObject({
+      name: 'Bash',
+      cat: 'tool',
+      pid: 1,
+      args: { outcome: 'succeeded', tool_input: { command: 'ls' } },
+    });
+    expect(calls[0].end).toMatchObject({ name: 'Bash', cat: 'tool', pid: 1, tid: 1 });
+  });
+
+  test('records failures and unfinished calls', () => {
+    const { traceEvents } = toChromeTrace([
+      sessionStarted(0),
+      toolStarted(1, 'tu-1'),
+      { ...base(2), type: 'ToolCallFailed', tool_name: 'Bash', error: 'exit 1', tool_use_id: 'tu-1' },
+      toolStarted(3, 'tu-2'),
+      { ...base(7), type: 'UserPrompt', prompt_text: 'still there?' },
+    ]);
+
+    const calls = toolCalls(traceEvents);
+    expect(calls[0].begin.args).toMatchObject({ outcome: 'failed', error: 'exit 1' });
+    expect(calls[1].begin).toMatchObject({ ts: micros(3), args: { outcome: 'running' } });
+    expect(calls[1].end.ts).toBe(micros(7));
+  });
+
+  test('places a completion without its start using the reported duration', () => {
+    const { traceEvents } = toChromeTrace([sessionStarted(0), toolCompleted(10, 'tu-1', 'session-1', 4000)]);
+    const [call] = toolCalls(traceEvents);
+    expect([call.begin.ts, call.end.ts]).toEqual([micros(6), micros(10)]);
+  });
+
+  test('adds instant events on the agent thread', () => {
+    const { traceEvents } = toChromeTrace([
+      sessionStarted(0),
+      agentSpawned(1, 'sub-1'),
+      { ...base(2), type: 'UserPrompt', prompt_text: 'go' },
+      { ...base(3, 'sub-1'), type: 'WaitingForUser', notification_type: 'permission_request', message: 'allow?' },
+      { ...base(4), type: 'ContextCompaction', context_pressure: 0.9 },
+      { ...base(5), type: 'MessageSent', from_agent: 'session-1', to_agent: 'sub-1', content_preview: 'hi' },
+    ]);
+
+    const instants = traceEvents.filter((e) => e.ph === 'i');
+    expect(instants.map((e) => [e.name, e.tid, e.s])).toEqual([
+      ['UserPrompt', 1, 't'],
+      ['WaitingForUser', 2, 't'],
+      ['ContextCompaction', 1, 't'],
+    ]);
+    expect(instants[1].args).toEqual({ notification_type: 'permission_request', message: 'allow?' });
+  });
+});
+
+describe('getSessionChromeTrace', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  function store(event: VisualizerEvent) {
+    insertEvent(db, {
+      id: event.id,
+      type: event.type,
+      session_id: event.session_id,
+      timestamp: event.timestamp,
+      payload: JSON.stringify(event),
+    });
+  }
+
+  test('returns null for an unknown session', () => {
+    expect(getSessionChromeTrace(db, 'nope')).toBeNull();
+  });
+
+  test('converts the stored session', () => {
+    store(sessionStarted(0));
+    store(toolStarted(1, 'tu-1'));
+    store(toolCompleted(2, 'tu-1'));
+
+    const trace = getSessionChromeTrace(db, 'session-1')!;
+    expect(trace.displayTimeUnit).toBe('ms');
+    expect(toolCalls(trace.traceEvents)).toHaveLength(1);
+  });
+});
@@ -9,7 +9,16 @@ import {
   getEventsByType,
   getSessions,
   getEventCount,
+  getEventsAfterSeq,
+  getLatestSeq,
+  getSeqForEventId,
+  getEventsPage,
+  encodeCursor,
+  decodeCursor,
 } from '../database';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 let counter = 0;
 
@@ -113,6 +122,64 @@ describe('insertEvent', () => {
   });
 });
 
+describe('event sequence numbers', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('insertEvent returns increasing seqs and null for duplicates', () => {
+    expect(getLatestSeq(db)).toBe(0);
+    expect(insertEvent(db, makeEvent({ id: 'seq-1' }))).toBe(1);
+    expect(insertEvent(db, makeEvent({ id: 'seq-2' }))).toBe(2);
+    expect(insertEvent(db, makeEvent({ id: 'seq-1' }))).toBeNull();
+    expect(getLatestSeq(db)).toBe(2);
+    expect(getSeqForEventId(db, 'seq-2')).toBe(2);
+    expect(getSeqForEventId(db, 'missing')).toBeNull();
+  });
+
+  test('seqs are never reused after the newest rows are deleted', () => {
+    insertEvent(db, makeEvent({ id: 'a' }));
+    insertEvent(db, makeEvent({ id: 'b' }));
+    db.run("DELETE FROM events WHERE id = 'b'");
+    expect(insertEvent(db, makeEvent({ id: 'c' }))).toBe(3);
+  });
+
+  test('getEventsAfterSeq orders by seq even when timestamps tie or go backwards', () => {
+    insertEvent(db, makeEvent({ id: 'x1', timestamp: '2025-01-01T00:00:05.000Z' }));
+    insertEvent(db, makeEvent({ id: 'x2', timestamp: '2025-01-01T00:00:05.000Z' }));
+    insertEvent(db, makeEvent({ id: 'x3', timestamp: '2025-01-01T00:00:01.000Z', session_id: 'other' }));
+
+    const rows = getEventsAfterSeq(db, 1);
+    expect(rows.map((r) => [r.seq, (r.event as { id: string }).id])).toEqual([[2, 'x2'], [3, 'x3']]);
+    expect(getEventsAfterSeq(db, 0, { session_ids: ['other'] }).map((r) => r.seq)).toEqual([3]);
+    expect(getEventsAfterSeq(db, 0, {}, 1).length).toBe(1);
+  });
+
+  test('backfills seq for databases created before sequencing', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'visualizer-seq-'));
+    const path = join(dir, 'legacy.db');
+    try {
+      const legacy = new Database(path);
+      legacy.run('CREATE TABLE events (id TEXT PRIMARY KEY, type TEXT NOT NULL, session_id TEXT NOT NULL, timestamp TEXT NOT NULL, payload TEXT NOT NULL)');
+      for (const id of ['old-1', 'old-2']) {
+        const e = makeEvent({ id });
+        legacy.prepare('INSERT INTO events VALUES (?, ?, ?, ?, ?)').run(e.id, e.type, e.session_id, e.timestamp, e.payload);
+      }
+      legacy.close();
+
+      const upgraded = initDatabase(path);
+      expect(getSeqForEventId(upgraded, 'old-1')).toBe(1);
+      expect(getSeqForEventId(upgraded, 'old-2')).toBe(2);
+      expect(insertEvent(upgraded, makeEvent({ id: 'new-1' }))).toBe(3);
+      upgraded.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe('getEventById', () => {
   let db: Database;
 
@@ -217,6 +284,16 @@ describe('getEvents', () => {
     expect(events[1].id).toBe('e4');
   });
 
+  test('events stamped in the same millisecond keep their arrival order', () => {
+    const tied = '2025-01-01T00:00:06.000Z';
+    for (const id of ['t1', 't2', 't3']) insertEvent(db, makeEvent({ id, timestamp: tied }));
+    const ids = (filters: Parameters<typeof getEvents>[1]) => (getEvents(db, filters) as Array<{ id: string }>).map((e) => e.id);
+
+    expect(ids({ limit: 3, offset: 5 })).toEqual(['t1', 't2', 't3']);
+    expect(ids({ limit: 3, order: 'desc' })).toEqual(['t3', 't2', 't1']);
+    expect(ids({ limit: 2, latest: true })).toEqual(['t2', 't3']);
+  });
+
   test('returns empty array when no events match', () => {
     const events = getEvents(db, { session_id: 'nonexistent' });
     expect(events).toHaveLength(0);
@@ -243,6 +320,66 @@ describe('getEvents', () => {
   });
 });
 
+describe('getEventsPage', () => {
+  let db: Database;
+  const ids = (events: unknown[]) => events.map((e) => (e as { id: string }).id);
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    // Five events sharing one timestamp, bracketed by an earlier and a later one
+    insertEvent(db, makeEvent({ id: 'p0', timestamp: '2025-01-01T00:00:00.000Z' }));
+    for (let i = 1; i <= 5; i++) {
+      insertEvent(db, makeEvent({ id: `p${i}`, timestamp: '2025-01-01T00:00:10.000Z' }));
+    }
+    insertEvent(db, makeEvent({ id: 'p6', timestamp: '2025-01-01T00:00:20.000Z' }));
+  });
+
+  function walk(order: 'asc' | 'desc', limit: number): string[][] {
+    const pages: string[][] = [];
+    let cursor = null;
+    do {
+      const page = getEventsPage(db, { order }, cursor, limit);
+      pages.push(ids(page.events));
+      cursor = page.next_cursor ? decodeCursor(page.next_cursor) : null;
+    } while (cursor);
+    return pages;
+  }
+
+  test('walks every event exactly once across equal timestamps', () => {
+    expect(walk('asc', 2)).toEqual([['p0', 'p1'], ['p2', 'p3'], ['p4', 'p5'], ['p6']]);
+  });
+
+  test('walks in descending order', () => {
+    expect(walk('desc', 3)).toEqual([['p6', 'p5', 'p4'], ['p3', 'p2', 'p1'], ['p0']]);
+  });
+
+  test('returns no next cursor when the page is exactly the remainder', () => {
+    const page = getEventsPage(db, {}, null, 7);
+    expect(page.events.length).toBe(7);
+    expect(page.next_cursor).toBeNull();
+  });
+
+  test('applies time range filters', () => {
+    const page = getEventsPage(db, { fromTimestamp: '2025-01-01T00:00:05.000Z', toTimestamp: '2025-01-01T00:00:15.000Z' }, null, 100);
+    expect(ids(page.events)).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+  });
+});
+
+describe('event cursors', () => {
+  test('round-trip through their opaque encoding', () => {
+    const cursor = { timestamp: '2025-01-01T00:00:00Z', seq: 42, order: 'desc' as const };
+    const encoded = encodeCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded)).toEqual(cursor);
+  });
+
+  test('malformed cursors decode to null', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('["t", 1.5, "asc"]').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('["t", 1, "up"]').toString('base64url'))).toBeNull();
+  });
+});
+
 describe('getEventsBySession', () => {
   let db: Database;
 
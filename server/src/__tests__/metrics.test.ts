@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'bun:test';
+import { createMetrics, escapeLabelValue, TOOL_DURATION_BUCKETS } from '../metrics';
+import { rejectionReason, validateEvent } from '../validation';
+
+const GAUGES = { websocketClients: 3, sseClients: 1, dbSizeBytes: 4096 };
+
+describe('escapeLabelValue', () => {
+  test('escapes backslashes, quotes and newlines', () => {
+    expect(escapeLabelValue('a\\b"c\nd')).toBe('a\\\\b\\"c\\nd');
+  });
+});
+
+describe('createMetrics', () => {
+  test('renders HELP and TYPE lines for every metric even when empty', () => {
+    const output = createMetrics().render(GAUGES);
+    for (const [name, type] of [
+      ['visualizer_events_ingested_total', 'counter'],
+      ['visualizer_events_rejected_total', 'counter'],
+      ['visualizer_tool_call_duration_seconds', 'histogram'],
+      ['visualizer_broadcast_bytes_total', 'counter'],
+      ['visualizer_websocket_clients', 'gauge'],
+      ['visualizer_sse_clients', 'gauge'],
+      ['visualizer_db_size_bytes', 'gauge'],
+    ]) {
+      expect(output).toContain(`# TYPE ${name} ${type}\n`);
+    }
+    expect(output).toContain('visualizer_websocket_clients 3\n');
+    expect(output).toContain('visualizer_sse_clients 1\n');
+    expect(output).toContain('visualizer_db_size_bytes 4096\n');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  test('accumulates labelled counters', () => {
+    const metrics = createMetrics();
+    metrics.eventIngested('ToolCallStarted');
+    metrics.eventIngested('ToolCallStarted');
+    metrics.eventRejected('missing_field');
+    metrics.bytesBroadcast('sse', 10);
+    metrics.bytesBroadcast('sse', 5);
+
+    const output = metrics.render(GAUGES);
+    expect(output).toContain('visualizer_events_ingested_total{type="ToolCallStarted"} 2');
+    expect(output).toContain('visualizer_events_rejected_total{reason="missing_field"} 1');
+    expect(output).toContain('visualizer_broadcast_bytes_total{transport="sse"} 15');
+  });
+
+  test('histogram buckets are cumulative and include +Inf, sum and count', () => {
+    const metrics = createMetrics();
+    metrics.toolCallDuration('Read', 20);
+    metrics.toolCallDuration('Read', 400);
+    metrics.toolCallDuration('Read', 600_000);
+    metrics.toolCallDuration('Read', Number.NaN); // ignored
+
+    const output = metrics.render(GAUGES);
+    const bucket = (le: string) => {
+      const match = output.match(new RegExp(`tool_name="Read",le="${le.replace('+', '\\+')}"\\} (\\d+)`));
+      return match ? Number(match[1]) : null;
+    };
+    expect(bucket('0.01')).toBe(0);
+    expect(bucket('0.05')).toBe(1);
+    expect(bucket('0.5')).toBe(2);
+    expect(bucket(String(TOOL_DURATION_BUCKETS[TOOL_DURATION_BUCKETS.length - 1]))).toBe(2);
+    expect(bucket('+Inf')).toBe(3);
+    expect(output).toContain('visualizer_tool_call_duration_seconds_sum{tool_name="Read"} 600.42');
+    expect(output).toContain('visualizer_tool_call_duration_seconds_count{tool_name="Read"} 3');
+  });
+});
+
+describe('rejectionReason', () => {
+  const reasonFor = (body: unknown) => rejectionReason(validateEvent(body).result);
+  const base = { id: 'e1', type: 'UserPrompt', timestamp: '2025-01-01T00:00:00Z', session_id: 's1' };
+
+  test('classifies validation failures', () => {
+    expect(reasonFor(null)).toBe('invalid_body');
+    expect(reasonFor({ ...base, id: 'x'.repeat(300) })).toBe('too_long');
+    expect(reasonFor({ ...base, type: 'Nope' })).toBe('unknown_type');
+    expect(reasonFor(base)).toBe('missing_field');
+    expect(reasonFor({ ...base, prompt_text: 42 })).toBe('invalid_field');
+    expect(reasonFor({ ...base, prompt_text: 'x'.repeat(70_000) })).toBe('payload_too_large');
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { initDatabase, insertEvent, getSeqForEventId } from '../database';
+import {
+  getSchemaVersion,
+  migrate,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+  type Migration,
+} from '../migrations';
+
+function tableExists(db: Database, name: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE name = ?").get(name);
+}
+
+describe('migrations', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  test('versions are unique and increasing', () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  test('a new database is migrated to the latest version', () => {
+    const result = migrate(db);
+    expect(result).toEqual({ from: 0, to: SCHEMA_VERSION, applied: MIGRATIONS.map((m) => m.name) });
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(tableExists(db, 'events')).toBe(true);
+    expect(tableExists(db, 'event_sequence')).toBe(true);
+    expect(tableExists(db, 'events_fts')).toBe(true);
+  });
+
+  test('records each applied migration', () => {
+    migrate(db);
+    const rows = db.prepare('SELECT version, name FROM schema_version ORDER BY version').all();
+    expect(rows).toEqual(MIGRATIONS.map((m) => ({ version: m.version, name: m.name })));
+  });
+
+  test('running again applies nothing', () => {
+    migrate(db);
+    expect(migrate(db)).toEqual({ from: SCHEMA_VERSION, to: SCHEMA_VERSION, applied: [] });
+  });
+
+  test('applies only migrations newer than the database', () => {
+    const steps: Migration[] = [
+      { version: 1, name: 'one', up: (d) => d.run('CREATE TABLE one (x)') },
+      { version: 2, name: 'two', up: (d) => d.run('CREATE TABLE two (x)') },
+    ];
+    migrate(db, steps.slice(0, 1));
+    expect(migrate(db, steps)).toEqual({ from: 1, to: 2, applied: ['two'] });
+    expect(tableExists(db, 'two')).toBe(true);
+  });
+
+  test('a failing migration is rolled back and leaves the previous version', () => {
+    const steps: Migration[] = [
+      { version: 1, name: 'one', up: (d) => d.run('CREATE TABLE one (x)') },
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.run('CREATE TABLE two (x)');
+          throw new Error('boom');
+        },
+      },
+    ];
+    expect(() => migrate(db, steps)).toThrow('boom');
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tableExists(db, 'one')).toBe(true);
+    expect(tableExists(db, 'two')).toBe(false);
+  });
+
+  test('refuses a database from a newer version without modifying it', () => {
+    migrate(db);
+    db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(
+      SCHEMA_VERSION + 1,
+      'from the future',
+      new Date().toISOString(),
+    );
+
+    expect(() => migrate(db)).toThrow(SchemaVersionError);
+    try {
+      migrate(db);
+    } catch (err) {
+      expect((err as SchemaVersionError).databaseVersion).toBe(SCHEMA_VERSION + 1);
+      expect((err as SchemaVersionError).supportedVersion).toBe(SCHEMA_VERSION);
+    }
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION + 1);
+  });
+});
+
+describe('initDatabase migrations', () => {
+  test('upgrades a pre-versioning database in place', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'visualizer-migrate-'));
+    const path = join(dir, 'legacy.db');
+    try {
+      const legacy = new Database(path);
+      legacy.run('CREATE TABLE events (id TEXT PRIMARY KEY, type TEXT NOT NULL, session_id TEXT NOT NULL, timestamp TEXT NOT NULL, payload TEXT NOT NULL)');
+      legacy
+        .prepare('INSERT INTO events VALUES (?, ?, ?, ?, ?)')
+        .run('old-1', 'UserPrompt', 's1', '2025-01-01T00:00:00Z', JSON.stringify({ prompt_text: 'legacy prompt' }));
+      legacy.close();
+
+      const upgraded = initDatabase(path);
+      expect(getSchemaVersion(upgraded)).toBe(SCHEMA_VERSION);
+      expect(getSeqForEventId(upgraded, 'old-1')).toBe(1);
+      expect(upgraded.prepare("SELECT rowid FROM events_fts WHERE events_fts MATCH 'legacy'").all().length).toBe(1);
+      upgraded.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('refuses to open a database written by a newer server', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'visualizer-migrate-'));
+    const path = join(dir, 'future.db');
+    try {
+      const future = initDatabase(path);
+      insertEvent(future, { id: 'e1', type: 'UserPrompt', session_id: 's1', timestamp: 't', payload: '{}' });
+      future.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(SCHEMA_VERSION + 5, 'future', 't');
+      future.close();
+
+      expect(() => initDatabase(path)).toThrow(SchemaVersionError);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,426 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import {
+  createOtlpExporter,
+  createTraceBuilder,
+  getSessionOtlp,
+  parseOtlpEndpoint,
+  parseOtlpIdleTtl,
+  traceIdForSession,
+  DEFAULT_IDLE_TTL_MS,
+  MAX_ATTRIBUTE_LENGTH,
+  OtlpConfigError,
+  type OtlpSpan,
+} from '../otlp';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function nanos(seconds: number): string {
+  return (BigInt(Date.UTC(2025, 0, 1, 0, 0, seconds)) * 1_000_000n).toString();
+}
+
+function base(at: number, sessionId = 'session-1') {
+  counter++;
+  return { id: `evt-${counter}`, timestamp: ts(at), session_id: sessionId };
+}
+
+function sessionStarted(at: number, sessionId = 'session-1'): VisualizerEvent {
+  return { ...base(at, sessionId), type: 'SessionStarted', agent_type: 'main', model: 'opus', source: 'cli' };
+}
+
+function sessionEnded(at: number, sessionId = 'session-1', reason = 'exit'): VisualizerEvent {
+  return { ...base(at, sessionId), type: 'SessionEnded', reason, summary: null };
+}
+
+function userPrompt(at: number): VisualizerEvent {
+  return { ...base(at), type: 'UserPrompt', prompt_text: 'next' };
+}
+
+function agentSpawned(at: number, agentId: string): VisualizerEvent {
+  return {
+    ...base(at),
+    type: 'AgentSpawned',
+    agent_id: agentId,
+    parent_session_id: null,
+    agent_type: 'Explore',
+    model: 'sonnet',
+    task_description: 'search',
+  };
+}
+
+function agentCompleted(at: number, agentId: string): VisualizerEvent {
+  return { ...base(at), type: 'AgentCompleted', agent_id: agentId, transcript_path: null, result: 'done' };
+}
+
+function toolStarted(at: number, toolUseId: string, sessionId = 'session-1'): VisualizerEvent {
+  return {
+    ...base(at, sessionId),
+    type: 'ToolCallStarted',
+    tool_name: 'Bash',
+    tool_input: { command: 'ls' },
+    tool_use_id: toolUseId,
+  };
+}
+
+function toolCompleted(at: number, toolUseId: string, durationMs = 1000): VisualizerEvent {
+  return {
+    ...base(at),
+    type: 'ToolCallCompleted',
+    tool_name: 'Bash',
+    tool_response: 'ok',
+    duration_ms: durationMs,
+    tool_use_id: toolUseId,
+  };
+}
+
+function build(events: VisualizerEvent[]): OtlpSpan[] {
+  const spans: OtlpSpan[] = [];
+  const builder = createTraceBuilder((span) => spans.push(span));
+  for (const event of events) builder.add(event);
+  builder.finish();
+  return spans;
+}
+
+function spanNamed(spans: OtlpSpan[], name: string): OtlpSpan {
+  const span = spans.find((s) => s.name === name);
+  if (!span) throw new Error(`no span named ${name}`);
+  return span;
+}
+
+function attr(span: OtlpSpan, key: string): unknown {
+  const value = span.attributes.find((a) => a.key === key)?.value;
+  return value ? Object.values(value)[0] : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Trace building
+// ---------------------------------------------------------------------------
+
+describe('createTraceBuilder', () => {
+  test('nests subagents under the session and tool calls under their agent', () => {
+    const spans = build([
+      sessionStarted(0),
+      agentSpawned(1, 'sub-1'),
+      toolStarted(2, 'tu-1', 'sub-1'),
+      toolCompleted(3, 'tu-1'),
+      agentCompleted(4, 'sub-1'),
+      sessionEnded(5),
+    ]);
+
+    const session = spanNamed(spans, 'session');
+    const agent = spanNamed(spans, 'agent Explore');
+    const tool = spanNamed(spans, 'Bash');
+
+    expect(session.traceId).toBe(traceIdForSession('session-1'));
+    expect(session.parentSpanId).toBeUndefined();
+    expect(agent.parentSpanId).toBe(session.spanId);
+    expect(tool.parentSpanId).toBe(agent.spanId);
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+
+    expect(session.startTimeUnixNano).toBe(nanos(0));
+    expect(session.endTimeUnixNano).toBe(nanos(5));
+    expect(tool.startTimeUnixNano).toBe(nanos(2));
+    expect(tool.endTimeUnixNano).toBe(nanos(3));
+    expect(tool.status).toEqual({ code: 1 });
+  });
+
+  test('takes attributes from the event fields', () => {
+    const spans = build([sessionStarted(0), toolStarted(1, 'tu-1'), toolCompleted(2, 'tu-1', 1000)]);
+    const tool = spanNamed(spans, 'Bash');
+
+    expect(attr(tool, 'claude.session_id')).toBe('session-1');
+    expect(attr(tool, 'claude.tool_use_id')).toBe('tu-1');
+    expect(attr(tool, 'claude.tool_input')).toBe('{"command":"ls"}');
+    expect(attr(tool, 'claude.duration_ms')).toBe('1000');
+    expect(attr(spanNamed(spans, 'session'), 'claude.model')).toBe('opus');
+  });
+
+  test('caps long string attributes', () => {
+    const long = { ...toolStarted(1, 'tu-1'), tool_input: { content: 'x'.repeat(10_000) } } as VisualizerEvent;
+    const tool = spanNamed(build([sessionStarted(0), long]), 'Bash');
+    expect((attr(tool, 'claude.tool_input') as string).length).toBe(MAX_ATTRIBUTE_LENGTH);
+  });
+
+  test('marks failed tool calls as errors', () => {
+    const spans = build([
+      sessionStarted(0),
+      toolStarted(1, 'tu-1'),
+      { ...base(2), type: 'ToolCallFailed', tool_name: 'Bash', error: 'exit 1', tool_use_id: 'tu-1' },
+    ]);
+    expect(spanNamed(spans, 'Bash').status).toEqual({ code: 2, message: 'exit 1' });
+  });
+
+  test('reconstructs a tool span from its duration when the start is missing', () => {
+    const spans = build([sessionStarted(0), toolCompleted(10, 'tu-1', 4000)]);
+    const tool = spanNamed(spans, 'Bash');
+    expect(tool.startTimeUnixNano).toBe(nanos(6));
+    expect(tool.endTimeUnixNano).toBe(nanos(10));
+  });
+
+  test('records prompts and waits as span events', () => {
+    const spans = build([
+      sessionStarted(0),
+      { ...base(1), type: 'UserPrompt', prompt_text: 'fix it' },
+      { ...base(2), type: 'WaitingForUser', notification_type: 'permission_request', message: 'allow?' },
+    ]);
+    const session = spanNamed(spans, 'session');
+    expect(session.events.map((e) => e.name)).toEqual(['UserPrompt', 'WaitingForUser']);
+    expect(session.events[0].attributes).toEqual([{ key: 'claude.prompt_text', value: { stringValue: 'fix it' } }]);
+  });
+
+  test('ending the session ends its unfinished spans as incomplete', () => {
+    const spans = build([sessionStarted(0), agentSpawned(1, 'sub-1'), toolStarted(2, 'tu-1'), sessionEnded(5)]);
+
+    expect(spans.map((s) => s.name)).toEqual(['agent Explore', 'Bash', 'session']);
+    expect(spans.every((s) => s.endTimeUnixNano === nanos(5))).toBe(true);
+    expect(attr(spanNamed(spans, 'Bash'), 'visualizer.incomplete')).toBe(true);
+    expect(attr(spanNamed(spans, 'session'), 'visualizer.incomplete')).toBeUndefined();
+  });
+
+  test('keeps the session open across turns ended by the Stop hook', () => {
+    const spans = build([
+      sessionStarted(0),
+      userPrompt(1),
+      toolStarted(2, 'tu-1'),
+      toolCompleted(3, 'tu-1'),
+      sessionEnded(4, 'session-1', 'stop'),
+      userPrompt(5),
+      toolStarted(6, 'tu-2'),
+      toolCompleted(7, 'tu-2'),
+      sessionEnded(8, 'session-1', 'stop'),
+    ]);
+
+    expect(spans.map((s) => s.name)).toEqual(['Bash', 'Bash', 'session']);
+    expect(spans[1].startTimeUnixNano).toBe(nanos(6));
+    const session = spanNamed(spans, 'session');
+    expect(spans[1].parentSpanId).toBe(session.spanId);
+    expect(session.events.map((e) => e.name)).toEqual(['UserPrompt', 'SessionEnded', 'UserPrompt', 'SessionEnded']);
+    expect(session.endTimeUnixNano).toBe(nanos(8));
+  });
+
+  test('ignores late events once the session has really ended', () => {
+    const spans = build([sessionStarted(0), sessionEnded(1), toolStarted(2, 'tu-1'), toolCompleted(3, 'tu-1')]);
+    expect(spans.map((s) => s.name)).toEqual(['session']);
+  });
+
+  test('finish ends running sessions at the last event seen', () => {
+    const spans = build([sessionStarted(0), toolStarted(3, 'tu-1')]);
+
+    expect(spans.map((s) => s.name)).toEqual(['Bash', 'session']);
+    expect(spanNamed(spans, 'session').endTimeUnixNano).toBe(nanos(3));
+    expect(attr(spanNamed(spans, 'session'), 'visualizer.incomplete')).toBe(true);
+  });
+
+  test('evicts sessions idle past the TTL and ignores their late events', () => {
+    let now = 0;
+    const spans: OtlpSpan[] = [];
+    const builder = createTraceBuilder((span) => spans.push(span), () => now);
+    builder.add(sessionStarted(0, 'crashed'));
+    builder.add(toolStarted(1, 'tu-1', 'crashed'));
+    now = 1000;
+    builder.add(sessionStarted(2, 'active'));
+
+    now = 1500;
+    builder.evictIdle(1000);
+    expect(spans.map((s) => [s.name, s.traceId])).toEqual([
+      ['Bash', traceIdForSession('crashed')],
+      ['session', traceIdForSession('crashed')],
+    ]);
+    expect(spans.every((s) => s.status.code === 2 && attr(s, 'visualizer.incomplete') === true)).toBe(true);
+    expect(spanNamed(spans, 'session').endTimeUnixNano).toBe(nanos(1));
+
+    builder.add(toolStarted(4, 'tu-2', 'crashed'));
+    builder.finish();
+    expect(spans.map((s) => s.traceId)).toEqual([
+      traceIdForSession('crashed'),
+      traceIdForSession('crashed'),
+      traceIdForSession('active'),
+    ]);
+  });
+
+  test('a subagent keeps its session from going idle', () => {
+    let now = 0;
+    const spans: OtlpSpan[] = [];
+    const builder = createTraceBuilder((span) => spans.push(span), () => now);
+    builder.add(sessionStarted(0));
+    builder.add(agentSpawned(1, 'sub-1'));
+    now = 1000;
+    const total = { input_tokens: 1, output_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+    builder.add({ ...base(2), type: 'TokenUsage', agent_id: 'sub-1', model: null, total, turn: total, responses: 1 });
+
+    builder.evictIdle(500);
+    expect(spans).toEqual([]);
+  });
+
+  test('ids are deterministic', () => {
+    const events = [sessionStarted(0), toolStarted(1, 'tu-1'), toolCompleted(2, 'tu-1')];
+    const ids = (spans: OtlpSpan[]) => spans.map((s) => [s.traceId, s.spanId]);
+    expect(ids(build(events))).toEqual(ids(build(events)));
+    expect(spanNamed(build(events), 'session').traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(spanNamed(build(events), 'Bash').spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('getSessionOtlp', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  function store(event: VisualizerEvent) {
+    insertEvent(db, {
+      id: event.id,
+      type: event.type,
+      session_id: event.session_id,
+      timestamp: event.timestamp,
+      payload: JSON.stringify(event),
+    });
+  }
+
+  test('returns null for an unknown session', () => {
+    expect(getSessionOtlp(db, 'nope')).toBeNull();
+  });
+
+  test('builds the stored session only', () => {
+    store(sessionStarted(0));
+    store(toolStarted(1, 'tu-1'));
+    store(sessionStarted(2, 'session-2'));
+
+    const trace = getSessionOtlp(db, 'session-1')!;
+    expect(trace.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'claude-code' } },
+    ]);
+    const spans = trace.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((s) => s.name).sort()).toEqual(['Bash', 'session']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Streaming exporter
+// ---------------------------------------------------------------------------
+
+describe('parseOtlpEndpoint', () => {
+  test('is disabled when unset', () => {
+    expect(parseOtlpEndpoint({})).toBeNull();
+  });
+
+  test('adds the traces path to a bare collector address', () => {
+    expect(parseOtlpEndpoint({ CLAUDE_VISUALIZER_OTLP_ENDPOINT: 'http://localhost:4318' })).toBe(
+      'http://localhost:4318/v1/traces',
+    );
+    expect(parseOtlpEndpoint({ CLAUDE_VISUALIZER_OTLP_ENDPOINT: 'http://127.0.0.1:4318/custom' })).toBe(
+      'http://127.0.0.1:4318/custom',
+    );
+  });
+
+  test('rejects non-loopback and malformed endpoints', () => {
+    expect(() => parseOtlpEndpoint({ CLAUDE_VISUALIZER_OTLP_ENDPOINT: 'http://collector.example.com:4318' })).toThrow(
+      OtlpConfigError,
+    );
+    expect(() => parseOtlpEndpoint({ CLAUDE_VISUALIZER_OTLP_ENDPOINT: 'not a url' })).toThrow(OtlpConfigError);
+  });
+});
+
+describe('parseOtlpIdleTtl', () => {
+  test('reads minutes, falling back to the default', () => {
+    expect(parseOtlpIdleTtl({ CLAUDE_VISUALIZER_OTLP_IDLE_MINUTES: '30' })).toBe(30 * 60 * 1000);
+    expect(parseOtlpIdleTtl({})).toBe(DEFAULT_IDLE_TTL_MS);
+    expect(parseOtlpIdleTtl({ CLAUDE_VISUALIZER_OTLP_IDLE_MINUTES: '-1' })).toBe(DEFAULT_IDLE_TTL_MS);
+  });
+});
+
+describe('createOtlpExporter', () => {
+  test('posts finished spans in batches', async () => {
+    const bodies: any[] = [];
+    const exporter = createOtlpExporter('http://localhost:4318/v1/traces', {
+      flushIntervalMs: 60_000,
+      fetch: async (url, init) => {
+        expect(url).toBe('http://localhost:4318/v1/traces');
+        bodies.push(JSON.parse(init.body as string));
+        return new Response(null, { status: 200 });
+      },
+    });
+
+    exporter.export(sessionStarted(0));
+    exporter.export(toolStarted(1, 'tu-1'));
+    exporter.export(toolCompleted(2, 'tu-1'));
+    exporter.export(sessionEnded(3));
+    await exporter.flush();
+    exporter.stop();
+
+    expect(bodies).toHaveLength(1);
+    const spans = bodies[0].resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((s: OtlpSpan) => s.name)).toEqual(['Bash', 'session']);
+    expect(exporter.stats()).toMatchObject({ exportedSpans: 2, failedSpans: 0, lastError: null });
+  });
+
+  test('flushes when the batch is full', async () => {
+    let posts = 0;
+    const exporter = createOtlpExporter('http://localhost:4318/v1/traces', {
+      flushIntervalMs: 60_000,
+      maxBatchSize: 1,
+      fetch: async () => {
+        posts++;
+        return new Response(null, { status: 200 });
+      },
+    });
+
+    exporter.export(sessionStarted(0));
+    exporter.export(sessionEnded(1));
+    await exporter.flush();
+    exporter.stop();
+    expect(posts).toBe(1);
+    expect(exporter.stats().exportedSpans).toBe(1);
+  });
+
+  test('counts failed exports without throwing', async () => {
+    const exporter = createOtlpExporter('http://localhost:4318/v1/traces', {
+      flushIntervalMs: 60_000,
+      fetch: async () => new Response(null, { status: 503 }),
+    });
+
+    exporter.export(sessionStarted(0));
+    exporter.export(sessionEnded(1));
+    await exporter.flush();
+    exporter.stop();
+    expect(exporter.stats()).toMatchObject({ exportedSpans: 0, failedSpans: 1, lastError: 'HTTP 503' });
+  });
+
+  test('exports the spans of sessions that go idle without ending', async () => {
+    let now = 0;
+    const bodies: any[] = [];
+    const exporter = createOtlpExporter('http://localhost:4318/v1/traces', {
+      flushIntervalMs: 60_000,
+      idleTtlMs: 5 * 60_000,
+      clock: () => now,
+      fetch: async (_url, init) => {
+        bodies.push(JSON.parse(init.body as string));
+        return new Response(null, { status: 200 });
+      },
+    });
+
+    exporter.export(sessionStarted(0, 'crashed'));
+    exporter.export(toolStarted(1, 'tu-1', 'crashed'));
+    now = 10 * 60_000;
+    exporter.export(sessionStarted(2, 'other'));
+    await exporter.flush();
+    exporter.stop();
+
+    const spans = bodies[0].resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((s: OtlpSpan) => [s.name, s.status.code])).toEqual([
+      ['Bash', 2],
+      ['session', 2],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test';
+import { createRateLimiter, parseRateLimitConfig, RATE_LIMIT_NOTICE_INTERVAL_MS } from '../rate-limit';
+
+describe('parseRateLimitConfig', () => {
+  test('defaults to 50 events per second with a burst of 200', () => {
+    expect(parseRateLimitConfig({})).toEqual({ ratePerSecond: 50, burst: 200 });
+  });
+
+  test('reads the environment and disables with a zero rate', () => {
+    expect(parseRateLimitConfig({ CLAUDE_VISUALIZER_RATE_LIMIT: '5', CLAUDE_VISUALIZER_RATE_BURST: '10.7' })).toEqual({
+      ratePerSecond: 5,
+      burst: 10,
+    });
+    expect(parseRateLimitConfig({ CLAUDE_VISUALIZER_RATE_LIMIT: '0' }).ratePerSecond).toBeNull();
+    expect(parseRateLimitConfig({ CLAUDE_VISUALIZER_RATE_LIMIT: 'fast', CLAUDE_VISUALIZER_RATE_BURST: '0' })).toEqual({
+      ratePerSecond: 50,
+      burst: 200,
+    });
+  });
+});
+
+describe('createRateLimiter', () => {
+  test('allows a burst, then refills at the configured rate', () => {
+    const limiter = createRateLimiter({ ratePerSecond: 2, burst: 3 });
+    const results = [0, 0, 0, 0].map(() => limiter.take('s1', 1000).allowed);
+    expect(results).toEqual([true, true, true, false]);
+
+    // Half a second refills one token at 2/s
+    expect(limiter.take('s1', 1500).allowed).toBe(true);
+    expect(limiter.take('s1', 1500).allowed).toBe(false);
+  });
+
+  test('limits each session independently', () => {
+    const limiter = createRateLimiter({ ratePerSecond: 1, burst: 1 });
+    expect(limiter.take('s1', 0).allowed).toBe(true);
+    expect(limiter.take('s1', 0).allowed).toBe(false);
+    expect(limiter.take('s2', 0).allowed).toBe(true);
+  });
+
+  test('reports when to retry and how many were dropped', () => {
+    const limiter = createRateLimiter({ ratePerSecond: 0.25, burst: 1 });
+    limiter.take('s1', 0);
+    expect(limiter.take('s1', 0)).toEqual({ allowed: false, retryAfterSeconds: 4, dropped: 1, notify: true });
+    expect(limiter.take('s1', 2000)).toMatchObject({ retryAfterSeconds: 2, dropped: 2 });
+  });
+
+  test('asks for a client notice at most once per interval', () => {
+    const limiter = createRateLimiter({ ratePerSecond: 0.001, burst: 1 });
+    limiter.take('s1', 0);
+    const notices = [0, 10, RATE_LIMIT_NOTICE_INTERVAL_MS - 1, RATE_LIMIT_NOTICE_INTERVAL_MS].map(
+      (now) => limiter.take('s1', now).notify,
+    );
+    expect(notices).toEqual([true, false, false, true]);
+  });
+
+  test('is a no-op when disabled', () => {
+    const limiter = createRateLimiter({ ratePerSecond: null, burst: 1 });
+    for (let i = 0; i < 10; i++) expect(limiter.take('s1', 0).allowed).toBe(true);
+    expect(limiter.stats(0)).toMatchObject({ enabled: false, dropped: 0, sessions: [] });
+  });
+
+  test('stats count drops and recently limited sessions', () => {
+    const limiter = createRateLimiter({ ratePerSecond: 1, burst: 1 });
+    for (const session of ['s1', 's1', 's1', 's2', 's2']) limiter.take(session, 0);
+    limiter.take('s1', 20_000);
+    limiter.take('s1', 20_000);
+
+    expect(limiter.stats(25_000)).toEqual({
+      enabled: true,
+      ratePerSecond: 1,
+      burst: 1,
+      dropped: 4,
+      limitedSessions: 1,
+      sessions: [
+        { session_id: 's1', dropped: 3, last_dropped_at: new Date(20_000).toISOString() },
+        { session_id: 's2', dropped: 1, last_dropped_at: new Date(0).toISOString() },
+      ],
+    });
+  });
+});
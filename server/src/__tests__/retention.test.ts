@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent, getEventCount } from '../database';
+import {
+  applyRetention,
+  createRetentionJob,
+  isRetentionEnabled,
+  parseRetentionConfig,
+  type RetentionConfig,
+} from '../retention';
+import { handleRequest } from '../routes';
+import type { WebSocketHandler } from '../websocket';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const NOW = Date.parse('2025-03-01T00:00:00.000Z');
+
+function config(overrides: Partial<RetentionConfig> = {}): RetentionConfig {
+  return { maxAgeDays: null, maxEvents: null, maxSessions: null, intervalMs: 60_000, ...overrides };
+}
+
+function seed(db: Database, id: string, sessionId: string, timestamp: string) {
+  insertEvent(db, {
+    id,
+    type: 'SessionStarted',
+    session_id: sessionId,
+    timestamp,
+    payload: JSON.stringify({ id, type: 'SessionStarted', session_id: sessionId, timestamp }),
+  });
+}
+
+function ids(db: Database): string[] {
+  const rows = db.prepare('SELECT id FROM events ORDER BY timestamp ASC').all() as { id: string }[];
+  return rows.map((r) => r.id);
+}
+
+const noopWs: WebSocketHandler = {
+  handlers: { open() {}, message() {}, close() {}, pong() {} },
+  broadcast() {},
+  clientCount() {
+    return 0;
+  },
+  checkHeartbeats() {
+    return 0;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('parseRetentionConfig', () => {
+  test('all limits disabled by default with a 60 minute interval', () => {
+    const cfg = parseRetentionConfig({});
+    expect(cfg).toEqual({ maxAgeDays: null, maxEvents: null, maxSessions: null, intervalMs: 3_600_000 });
+    expect(isRetentionEnabled(cfg)).toBe(false);
+  });
+
+  test('reads limits from env vars', () => {
+    const cfg = parseRetentionConfig({
+      CLAUDE_VISUALIZER_RETENTION_DAYS: '7',
+      CLAUDE_VISUALIZER_MAX_EVENTS: '1000',
+      CLAUDE_VISUALIZER_MAX_SESSIONS: '20',
+      CLAUDE_VISUALIZER_RETENTION_INTERVAL: '5',
+    });
+    expect(cfg).toEqual({ maxAgeDays: 7, maxEvents: 1000, maxSessions: 20, intervalMs: 300_000 });
+    expect(isRetentionEnabled(cfg)).toBe(true);
+  });
+
+  test('ignores invalid values', () => {
+    const cfg = parseRetentionConfig({
+      CLAUDE_VISUALIZER_RETENTION_DAYS: 'abc',
+      CLAUDE_VISUALIZER_MAX_EVENTS: '-5',
+      CLAUDE_VISUALIZER_MAX_SESSIONS: '0',
+    });
+    expect(isRetentionEnabled(cfg)).toBe(false);
+  });
+});
+
+describe('applyRetention', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('deletes events older than maxAgeDays', () => {
+    seed(db, 'old', 's1', '2025-02-01T00:00:00.000Z');
+    seed(db, 'recent', 's1', '2025-02-27T00:00:00.000Z');
+
+    const result = applyRetention(db, config({ maxAgeDays: 7 }), NOW);
+    expect(result.deletedByAge).toBe(1);
+    expect(ids(db)).toEqual(['recent']);
+  });
+
+  test('keeps only the most recent maxSessions sessions', () => {
+    seed(db, 'a1', 'A', '2025-02-01T00:00:00.000Z');
+    seed(db, 'b1', 'B', '2025-02-02T00:00:00.000Z');
+    seed(db, 'a2', 'A', '2025-02-03T00:00:00.000Z');
+    seed(db, 'c1', 'C', '2025-02-04T00:00:00.000Z');
+
+    const result = applyRetention(db, config({ maxSessions: 2 }), NOW);
+    expect(result.deletedBySessions).toBe(1);
+    expect(ids(db)).toEqual(['a1', 'a2', 'c1']);
+  });
+
+  test('deletes the oldest events beyond maxEvents', () => {
+    for (let i = 1; i <= 5; i++) {
+      seed(db, `e${i}`, 's1', `2025-02-0${i}T00:00:00.000Z`);
+    }
+
+    const result = applyRetention(db, config({ maxEvents: 2 }), NOW);
+    expect(result.deletedByCount).toBe(3);
+    expect(ids(db)).toEqual(['e4', 'e5']);
+  });
+
+  test('does nothing when no limits are configured', () => {
+    seed(db, 'e1', 's1', '2000-01-01T00:00:00.000Z');
+    const result = applyRetention(db, config(), NOW);
+    expect(result.deleted).toBe(0);
+    expect(getEventCount(db)).toBe(1);
+  });
+});
+
+describe('createRetentionJob', () => {
+  test('tracks run statistics', () => {
+    const db = initDatabase(':memory:');
+    seed(db, 'old', 's1', '2024-01-01T00:00:00.000Z');
+    seed(db, 'new', 's1', '2025-02-28T00:00:00.000Z');
+
+    const job = createRetentionJob(db, config({ maxAgeDays: 30 }));
+    expect(job.stats().runs).toBe(0);
+
+    job.runNow(NOW);
+    const stats = job.stats();
+    expect(stats.enabled).toBe(true);
+    expect(stats.runs).toBe(1);
+    expect(stats.lastRunAt).toBe(new Date(NOW).toISOString());
+    expect(stats.lastDeleted).toBe(1);
+    expect(stats.totalDeleted).toBe(1);
+  });
+
+  test('start is a no-op when retention is disabled', () => {
+    const db = initDatabase(':memory:');
+    const job = createRetentionJob(db, config());
+    job.start();
+    expect(job.stats().runs).toBe(0);
+    job.stop();
+  });
+
+  test('retention stats are reported in /api/health', async () => {
+    const db = initDatabase(':memory:');
+    const job = createRetentionJob(db, config({ maxEvents: 100 }));
+
+    const res = await handleRequest(new Request('http://localhost/api/health'), db, noopWs, null, {
+      retention: job,
+    });
+    const body = await res.json() as any;
+    expect(body.retention.enabled).toBe(true);
+    expect(body.retention.maxEvents).toBe(100);
+    expect(body.retention.runs).toBe(0);
+  });
+});
@@ -18,11 +18,15 @@ function createMockWsHandler() {
       open() {},
       message() {},
       close() {},
+      pong() {},
     },
     broadcast() {},
     clientCount() {
       return 0;
     },
+    checkHeartbeats() {
+      return 0;
+    },
   } as WebSocketHandler;
 }
 
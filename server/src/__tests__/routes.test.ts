@@ -1,7 +1,20 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
 import type { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { initDatabase } from '../database';
-import { handleRequest } from '../routes';
+import {
+  handleRequest,
+  MAX_BATCH_SIZE,
+  MAX_IMPORT_BODY_BYTES,
+  MAX_REQUEST_BODY_BYTES,
+  type RouteServices,
+} from '../routes';
+import { createAuthGuard } from '../auth';
+import { createMetrics } from '../metrics';
+import { createWebhookDispatcher } from '../webhooks';
+import { createRateLimiter } from '../rate-limit';
 import type { WebSocketHandler } from '../websocket';
 import type { VisualizerEvent } from '@shared/events';
 
@@ -17,6 +30,7 @@ function createMockWsHandler() {
         open() {},
         message() {},
         close() {},
+        pong() {},
       },
       broadcast(msg: unknown) {
         broadcasted.push(msg);
@@ -24,6 +38,9 @@ function createMockWsHandler() {
       clientCount() {
         return 0;
       },
+      checkHeartbeats() {
+        return 0;
+      },
     } as WebSocketHandler,
     broadcasted,
   };
@@ -75,6 +92,18 @@ async function postEvent(db: Database, ws: WebSocketHandler, body: unknown): Pro
   );
 }
 
+async function postBatch(db: Database, ws: WebSocketHandler, body: unknown): Promise<Response> {
+  return handleRequest(
+    req('/api/events/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    db,
+    ws,
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -108,14 +137,14 @@ describe('routes', () => {
       );
       expect(res.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:5173');
       expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
-      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type');
+      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Visualizer-Token');
     });
 
     test('includes CORS headers when no Origin header (non-browser request)', async () => {
       const res = await handleRequest(req('/api/events', { method: 'OPTIONS' }), db, ws);
       expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
-      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type');
+      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Visualizer-Token');
     });
   });
 
@@ -169,6 +198,16 @@ describe('routes', () => {
       expect(stored.type).toBe('SessionStarted');
     });
 
+    test('broadcast carries the stored sequence number; duplicates are not re-broadcast', async () => {
+      const event = makeSessionStartedEvent({ id: 'seq-check' });
+      await postEvent(db, ws, event);
+      const again = await postEvent(db, ws, event);
+      expect(again.status).toBe(201);
+
+      expect(broadcasted.length).toBe(1);
+      expect((broadcasted[0] as { seq: number }).seq).toBe(1);
+    });
+
     test('valid event triggers broadcast', async () => {
       const event = makeSessionStartedEvent();
       await postEvent(db, ws, event);
@@ -234,6 +273,18 @@ describe('routes', () => {
       expect(body.error).toContain('Unknown event type');
     });
 
+    test('missing type-specific field returns 400 with the field path', async () => {
+      const event = makeToolCallStartedEvent();
+      delete event.tool_use_id;
+      const res = await postEvent(db, ws, event);
+      expect(res.status).toBe(400);
+
+      const body = await res.json() as any;
+      expect(body.path).toBe('tool_use_id');
+      expect(body.error).toBe('Missing "tool_use_id" field for ToolCallStarted event');
+      expect(broadcasted.length).toBe(0);
+    });
+
     test('non-JSON body returns 500', async () => {
       const res = await handleRequest(
         req('/api/events', {
@@ -260,6 +311,51 @@ describe('routes', () => {
   // -----------------------------------------------------------------------
   // GET /api/events
   // -----------------------------------------------------------------------
+  describe('POST /api/events/batch', () => {
+    test('stores valid events and broadcasts them in order', async () => {
+      const res = await postBatch(db, ws, [
+        makeSessionStartedEvent({ id: 'b1' }),
+        makeToolCallStartedEvent({ id: 'b2' }),
+      ]);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      expect(body.accepted).toBe(2);
+      expect(body.rejected).toBe(0);
+      expect(body.results).toEqual([
+        { index: 0, id: 'b1', ok: true },
+        { index: 1, id: 'b2', ok: true },
+      ]);
+
+      expect(broadcasted.map((m) => (m as any).data.id)).toEqual(['b1', 'b2']);
+      expect((await handleRequest(req('/api/events/b2'), db, ws)).status).toBe(200);
+    });
+
+    test('rejects invalid items individually', async () => {
+      const res = await postBatch(db, ws, [
+        makeSessionStartedEvent({ id: 'ok-1' }),
+        { id: 'bad', type: 'Nope', timestamp: 't', session_id: 's' },
+      ]);
+      const body = await res.json() as any;
+      expect(body.accepted).toBe(1);
+      expect(body.rejected).toBe(1);
+      expect(body.results[1]).toEqual({ index: 1, ok: false, error: 'Unknown event type: "Nope"', path: 'type' });
+      expect(broadcasted.length).toBe(1);
+    });
+
+    test('returns 400 when the body is not an array', async () => {
+      const res = await postBatch(db, ws, makeSessionStartedEvent());
+      expect(res.status).toBe(400);
+    });
+
+    test('returns 400 when the batch is too large', async () => {
+      const events = Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, i) => makeSessionStartedEvent({ id: `big-${i}` }));
+      const res = await postBatch(db, ws, events);
+      expect(res.status).toBe(400);
+      expect(broadcasted.length).toBe(0);
+    });
+  });
+
   describe('GET /api/events', () => {
     async function seedEvents() {
       const events = [
@@ -361,6 +457,49 @@ describe('routes', () => {
       expect(body.length).toBe(1);
       expect(body[0].id).toBe('e2');
     });
+
+    test('filters by from/to and sorts descending', async () => {
+      await seedEvents();
+
+      const res = await handleRequest(
+        req('/api/events?from=2025-01-01T00:00:02Z&to=2025-01-01T00:00:04Z&order=desc'),
+        db,
+        ws,
+      );
+      const body = await res.json() as any[];
+      expect(body.map((e) => e.id)).toEqual(['e4', 'e3', 'e2']);
+    });
+
+    test('paginates with an opaque cursor when after is given', async () => {
+      await seedEvents();
+
+      const seen: string[] = [];
+      let after = '';
+      for (let i = 0; i < 10; i++) {
+        const res = await handleRequest(req(`/api/events?limit=2&after=${after}`), db, ws);
+        expect(res.status).toBe(200);
+        const body = await res.json() as any;
+        seen.push(...body.events.map((e: any) => e.id));
+        if (!body.next_cursor) break;
+        after = body.next_cursor;
+      }
+      expect(seen).toEqual(['e1', 'e2', 'e3', 'e4', 'e5']);
+    });
+
+    test('rejects an invalid cursor or one issued for the other order', async () => {
+      await seedEvents();
+
+      const bad = await handleRequest(req('/api/events?after=garbage'), db, ws);
+      expect(bad.status).toBe(400);
+      expect((await bad.json() as any).error).toBe('Invalid cursor');
+
+      const first = await (await handleRequest(req('/api/events?limit=1&after='), db, ws)).json() as any;
+      const mismatch = await handleRequest(req(`/api/events?order=desc&after=${first.next_cursor}`), db, ws);
+      expect(mismatch.status).toBe(400);
+
+      const order = await handleRequest(req('/api/events?order=sideways'), db, ws);
+      expect(order.status).toBe(400);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -430,6 +569,651 @@ describe('routes', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // GET /api/projects
+  // -----------------------------------------------------------------------
+  describe('GET /api/projects', () => {
+    test('groups sessions by the repository they ran in', async () => {
+      const repo = { cwd: '/work/app/server', git_root: '/work/app', git_branch: 'main' };
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'p1', session_id: 'sess-1', timestamp: '2025-01-01T00:00:01Z', ...repo }));
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'p2', session_id: 'sess-2', timestamp: '2025-01-01T00:00:02Z', ...repo }));
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'p3', session_id: 'sess-3', timestamp: '2025-01-01T00:00:03Z', cwd: '/tmp/x', git_root: null, git_branch: null }));
+
+      const res = await handleRequest(req('/api/projects'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      expect(body.map((p: any) => [p.project, p.session_count])).toEqual([['/tmp/x', 1], ['/work/app', 2]]);
+      expect(body[1].sessions[0]).toMatchObject({ session_id: 'sess-2', cwd: '/work/app/server', git_branch: 'main' });
+    });
+
+    test('rejects a SessionStarted with a non-string cwd', async () => {
+      const res = await postEvent(db, ws, { ...makeSessionStartedEvent({ id: 'bad-cwd' }), cwd: 42 } as any);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/search
+  // -----------------------------------------------------------------------
+  describe('GET /api/search', () => {
+    test('returns 400 when q is missing', async () => {
+      const res = await handleRequest(req('/api/search'), db, ws);
+      expect(res.status).toBe(400);
+    });
+
+    test('returns hits linking to session and event ids', async () => {
+      await postEvent(db, ws, {
+        id: 'prompt-1',
+        type: 'UserPrompt',
+        timestamp: '2025-01-01T00:00:00Z',
+        session_id: 'sess-Q',
+        prompt_text: 'migrate the auth module',
+      });
+
+      const res = await handleRequest(req('/api/search?q=auth'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      expect(body.length).toBe(1);
+      expect(body[0].event_id).toBe('prompt-1');
+      expect(body[0].session_id).toBe('sess-Q');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/tool-calls
+  // -----------------------------------------------------------------------
+  describe('GET /api/tool-calls', () => {
+    test('returns paired tool calls sorted by duration', async () => {
+      const finish = (id: string, toolUseId: string, timestamp: string, durationMs: number) =>
+        postEvent(db, ws, {
+          id,
+          type: 'ToolCallCompleted',
+          timestamp,
+          session_id: 'sess-TC',
+          tool_name: 'Bash',
+          tool_response: null,
+          duration_ms: durationMs,
+          tool_use_id: toolUseId,
+        });
+
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'tc1', session_id: 'sess-TC', tool_name: 'Bash', tool_use_id: 'tu-fast', timestamp: '2025-01-01T00:00:00Z' }));
+      await finish('tc2', 'tu-fast', '2025-01-01T00:00:01Z', 100);
+      await finish('tc3', 'tu-slow', '2025-01-01T00:00:09Z', 9000);
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'tc4', session_id: 'sess-TC', tool_name: 'Bash', tool_use_id: 'tu-slow', timestamp: '2025-01-01T00:00:00Z' }));
+
+      const res = await handleRequest(req('/api/tool-calls?tool_name=Bash&sort=duration_ms&order=desc'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any[];
+      expect(body.map((c) => [c.tool_use_id, c.duration_ms, c.outcome])).toEqual([
+        ['tu-slow', 9000, 'succeeded'],
+        ['tu-fast', 100, 'succeeded'],
+      ]);
+      expect(body[0].started_at).toBe('2025-01-01T00:00:00Z');
+    });
+
+    test('rejects unknown sort, order and outcome values', async () => {
+      for (const query of ['sort=payload', 'order=sideways', 'outcome=maybe', 'min_duration_ms=abc']) {
+        const res = await handleRequest(req(`/api/tool-calls?${query}`), db, ws);
+        expect(res.status).toBe(400);
+      }
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/sessions/:id/stats
+  // -----------------------------------------------------------------------
+  describe('GET /api/sessions/:id/stats', () => {
+    test('returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/stats'), db, ws);
+      expect(res.status).toBe(404);
+
+      const body = await res.json() as any;
+      expect(body.error).toBe('Session not found');
+    });
+
+    test('returns aggregated stats for a session', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'st1', session_id: 'sess-S', timestamp: '2025-01-01T00:00:00Z' }));
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'st2', session_id: 'sess-S', tool_use_id: 'tu-1', tool_name: 'Bash', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, {
+        id: 'st3',
+        type: 'ToolCallCompleted',
+        timestamp: '2025-01-01T00:00:03Z',
+        session_id: 'sess-S',
+        tool_name: 'Bash',
+        tool_response: null,
+        duration_ms: 0,
+        tool_use_id: 'tu-1',
+      });
+
+      const res = await handleRequest(req('/api/sessions/sess-S/stats'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      expect(body.session_id).toBe('sess-S');
+      expect(body.event_count).toBe(3);
+      expect(body.tool_calls.total).toBe(1);
+      expect(body.tool_calls.succeeded).toBe(1);
+      expect(body.tool_calls.p50_ms).toBe(2000);
+      expect(body.tool_calls.by_tool[0].tool_name).toBe('Bash');
+    });
+
+    test('decodes percent-encoded session ids', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ session_id: 'sess with space' }));
+
+      const res = await handleRequest(req('/api/sessions/sess%20with%20space/stats'), db, ws);
+      expect(res.status).toBe(200);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/sessions/:id/tree
+  // -----------------------------------------------------------------------
+  describe('GET /api/sessions/:id/tree', () => {
+    test('returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/tree'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('returns the reduced agent tree for a session', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 't1', session_id: 'sess-T', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, {
+        id: 't2',
+        type: 'AgentSpawned',
+        timestamp: '2025-01-01T00:00:02Z',
+        session_id: 'sess-T',
+        agent_id: 'sub-1',
+        parent_session_id: null,
+        agent_type: 'Explore',
+        model: 'sonnet',
+        task_description: 'look around',
+      });
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 't3', session_id: 'sess-T', tool_use_id: 'tu-T', timestamp: '2025-01-01T00:00:03Z' }));
+
+      const res = await handleRequest(req('/api/sessions/sess-T/tree'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      expect(body.rootAgentId).toBe('sess-T');
+      expect(body.agents['sess-T'].children).toEqual(['sub-1']);
+      expect(body.agents['sess-T'].status).toBe('tool_executing');
+      expect(body.agents['sub-1'].status).toBe('active');
+      expect(body.activeToolCalls.map((c: any) => c.tool_use_id)).toEqual(['tu-T']);
+    });
+  });
+
+  describe('token usage and cost', () => {
+    const usageEvent = (id: string, total: number) => ({
+      id,
+      type: 'TokenUsage',
+      timestamp: '2025-01-01T00:00:02Z',
+      session_id: 'sess-U',
+      agent_id: 'sess-U',
+      model: null,
+      total: { input_tokens: total, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      turn: { input_tokens: total, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      responses: 1,
+    });
+
+    test('GET /api/sessions/:id/usage returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/usage'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('reports per-agent and session cost, priced by the SessionStarted model', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'u1', session_id: 'sess-U', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, usageEvent('u2', 1_000_000));
+
+      const res = await handleRequest(req('/api/sessions/sess-U/usage'), db, ws);
+      expect(res.status).toBe(200);
+      const body = await res.json() as any;
+      expect(body.agents).toEqual([
+        expect.objectContaining({ agent_id: 'sess-U', model: 'claude-sonnet-4-20250514', cost_usd: 3 }),
+      ]);
+      expect(body.cost_usd).toBe(3);
+
+      const sessions = await (await handleRequest(req('/api/sessions'), db, ws)).json() as any;
+      expect(sessions[0]).toMatchObject({ session_id: 'sess-U', usage: { input_tokens: 1_000_000 }, cost_usd: 3 });
+    });
+
+    test('uses the configured pricing', async () => {
+      const pricing = { sonnet: { input: 1, output: 1, cache_write: 1, cache_read: 1 } };
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'u1', session_id: 'sess-U', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, usageEvent('u2', 1_000_000));
+
+      const res = await handleRequest(req('/api/sessions/sess-U/usage'), db, ws, null, { pricing });
+      expect((await res.json() as any).cost_usd).toBe(1);
+
+      const table = await (await handleRequest(req('/api/pricing'), db, ws, null, { pricing })).json();
+      expect(table).toEqual(pricing);
+    });
+
+    test('GET /api/pricing defaults to the list prices', async () => {
+      const res = await handleRequest(req('/api/pricing'), db, ws);
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as any)['claude-opus-4-6']).toEqual({ input: 5, output: 25, cache_write: 6.25, cache_read: 0.5 });
+    });
+  });
+
+  describe('GET /api/sessions/:id/chrome-trace', () => {
+    test('returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/chrome-trace'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('downloads the session as a Trace Event file', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'c1', session_id: 'sess-C', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'c2', session_id: 'sess-C', tool_use_id: 'tu-C', timestamp: '2025-01-01T00:00:02Z' }));
+
+      const res = await handleRequest(req('/api/sessions/sess-C/chrome-trace'), db, ws);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="session-sess-C.trace.json"');
+
+      const body = await res.json() as any;
+      expect(body.traceEvents.filter((e: any) => e.ph === 'b').map((e: any) => e.name)).toEqual(['Read']);
+    });
+  });
+
+  describe('OTLP export', () => {
+    test('GET /api/sessions/:id/otlp returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/otlp'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('GET /api/sessions/:id/otlp returns the session as an OTLP trace', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'o1', session_id: 'sess-O', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'o2', session_id: 'sess-O', tool_use_id: 'tu-O', timestamp: '2025-01-01T00:00:02Z' }));
+
+      const res = await handleRequest(req('/api/sessions/sess-O/otlp'), db, ws);
+      expect(res.status).toBe(200);
+
+      const body = await res.json() as any;
+      const spans = body.resourceSpans[0].scopeSpans[0].spans;
+      expect(spans.map((s: any) => s.name).sort()).toEqual(['Read', 'session']);
+      const session = spans.find((s: any) => s.name === 'session');
+      expect(spans.find((s: any) => s.name === 'Read').parentSpanId).toBe(session.spanId);
+    });
+
+    test('stored events are streamed to the exporter', async () => {
+      const exported: string[] = [];
+      const otlp = {
+        export: (event: VisualizerEvent) => exported.push(event.id),
+        flush: async () => {},
+        stop() {},
+        stats: () => ({ endpoint: 'http://localhost:4318/v1/traces', exportedSpans: 0, failedSpans: 0, lastError: null }),
+      };
+      const post = (path: string, body: unknown) =>
+        handleRequest(req(path, { method: 'POST', body: JSON.stringify(body) }), db, ws, null, { otlp });
+
+      await post('/api/events', makeSessionStartedEvent({ id: 'x1' }));
+      await post('/api/events', makeSessionStartedEvent({ id: 'x1' })); // duplicate — not exported again
+      await post('/api/events/batch', [makeSessionStartedEvent({ id: 'x2' })]);
+      expect(exported).toEqual(['x1', 'x2']);
+
+      const health = await (await handleRequest(req('/api/health'), db, ws, null, { otlp })).json() as any;
+      expect(health.otlp.endpoint).toBe('http://localhost:4318/v1/traces');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Session export / import
+  // -----------------------------------------------------------------------
+  describe('GET /api/sessions/:id/export and POST /api/import', () => {
+    test('export returns 404 for an unknown session', async () => {
+      const res = await handleRequest(req('/api/sessions/nope/export'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('export returns NDJSON as an attachment', async () => {
+      await postEvent(db, ws, makeSessionStartedEvent({ id: 'x1', session_id: 'sess-E', timestamp: '2025-01-01T00:00:01Z' }));
+      await postEvent(db, ws, makeToolCallStartedEvent({ id: 'x2', session_id: 'sess-E', timestamp: '2025-01-01T00:00:02Z' }));
+
+      const res = await handleRequest(req('/api/sessions/sess-E/export'), db, ws);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+      expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="session-sess-E.ndjson"');
+
+      const lines = (await res.text()).trimEnd().split('\n');
+      expect(lines.map((l) => JSON.parse(l).id)).toEqual(['x1', 'x2']);
+    });
+
+    test('import reports imported, skipped and per-line errors without broadcasting', async () => {
+      const good = JSON.stringify(makeSessionStartedEvent({ id: 'imp-1', session_id: 'sess-I' }));
+      const body = [good, good, '{oops'].join('\n');
+
+      const res = await handleRequest(
+        req('/api/import', { method: 'POST', headers: { 'Content-Type': 'application/x-ndjson' }, body }),
+        db,
+        ws,
+      );
+      expect(res.status).toBe(200);
+
+      const result = await res.json() as any;
+      expect(result.imported).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.errors).toEqual([{ line: 3, error: 'Invalid JSON' }]);
+      expect(broadcasted.length).toBe(0);
+    });
+
+    test('a server with the import body limit accepts archives over 1 MB but not oversized events', async () => {
+      const server = Bun.serve({
+        port: 0,
+        maxRequestBodySize: MAX_IMPORT_BODY_BYTES,
+        fetch: (request) => handleRequest(request, db, ws),
+      });
+      try {
+        const padding = 'x'.repeat(2000);
+        const lines = Array.from({ length: 800 }, (_, i) =>
+          JSON.stringify(makeToolCallStartedEvent({ id: `big-${i}`, session_id: 'sess-big', tool_input: { padding } })),
+        );
+        const archive = lines.join('\n');
+        expect(archive.length).toBeGreaterThan(MAX_REQUEST_BODY_BYTES);
+
+        const imported = await fetch(`http://127.0.0.1:${server.port}/api/import`, { method: 'POST', body: archive });
+        expect(imported.status).toBe(200);
+        expect(await imported.json()).toMatchObject({ imported: 800, skipped: 0, errors: [] });
+
+        const event = makeToolCallStartedEvent({ id: 'too-big', tool_input: { padding: 'x'.repeat(MAX_REQUEST_BODY_BYTES) } });
+        const rejected = await fetch(`http://127.0.0.1:${server.port}/api/events`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(event),
+        });
+        expect(rejected.status).toBe(413);
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  describe('POST /api/backfill', () => {
+    test('imports transcripts from the configured directory without broadcasting', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'visualizer-routes-backfill-'));
+      try {
+        const prompt = {
+          type: 'user',
+          uuid: 'u1',
+          sessionId: 'sess-B',
+          timestamp: '2025-01-01T00:00:00Z',
+          message: { role: 'user', content: 'hello' },
+        };
+        writeFileSync(join(dir, 'sess-B.jsonl'), JSON.stringify(prompt) + '\n');
+
+        const res = await handleRequest(req('/api/backfill', { method: 'POST' }), db, ws, null, { projectsDir: dir });
+        expect(res.status).toBe(200);
+        expect(await res.json()).toMatchObject({ files: 1, sessions: 1, imported: 3, errors: [] });
+        expect(broadcasted.length).toBe(0);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /metrics
+  // -----------------------------------------------------------------------
+  describe('GET /metrics', () => {
+    test('is not served when no metrics registry is configured', async () => {
+      const res = await handleRequest(req('/metrics'), db, ws);
+      expect(res.status).toBe(404);
+    });
+
+    test('returns Prometheus text with ingestion, rejection and tool duration metrics', async () => {
+      const services = { metrics: createMetrics() };
+      const post = (body: unknown) =>
+        handleRequest(req('/api/events', { method: 'POST', body: JSON.stringify(body) }), db, ws, null, services);
+
+      const started = makeSessionStartedEvent({ id: 'm1' });
+      await post(started);
+      await post(started); // duplicate — not counted again
+      await post({
+        id: 'm2',
+        type: 'ToolCallCompleted',
+        timestamp: new Date().toISOString(),
+        session_id: 'session-1',
+        tool_name: 'Bash',
+        tool_response: null,
+        duration_ms: 1500,
+        tool_use_id: 'tu-m',
+      });
+      await post({ ...makeSessionStartedEvent(), type: 'Nope' });
+      await post(makeToolCallStartedEvent({ tool_use_id: undefined }));
+
+      const res = await handleRequest(req('/metrics'), db, ws, null, services);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+
+      const text = await res.text();
+      expect(text).toContain('visualizer_events_ingested_total{type="SessionStarted"} 1');
+      expect(text).toContain('visualizer_events_ingested_total{type="ToolCallCompleted"} 1');
+      expect(text).toContain('visualizer_events_rejected_total{reason="unknown_type"} 1');
+      expect(text).toContain('visualizer_events_rejected_total{reason="missing_field"} 1');
+      expect(text).toContain('visualizer_tool_call_duration_seconds_bucket{tool_name="Bash",le="1"} 0');
+      expect(text).toContain('visualizer_tool_call_duration_seconds_bucket{tool_name="Bash",le="2.5"} 1');
+      expect(text).toContain('visualizer_tool_call_duration_seconds_count{tool_name="Bash"} 1');
+      expect(text).toContain('visualizer_websocket_clients 0');
+      expect(text).toMatch(/visualizer_db_size_bytes [1-9]\d*/);
+    });
+
+    test('counts batch rejections', async () => {
+      const services = { metrics: createMetrics() };
+      await handleRequest(req('/api/events/batch', { method: 'POST', body: '{oops' }), db, ws, null, services);
+      await handleRequest(
+        req('/api/events/batch', { method: 'POST', body: JSON.stringify({ events: [] }) }),
+        db,
+        ws,
+        null,
+        services,
+      );
+      await handleRequest(
+        req('/api/events/batch', { method: 'POST', body: JSON.stringify([makeSessionStartedEvent(), { id: 'x' }]) }),
+        db,
+        ws,
+        null,
+        services,
+      );
+
+      const text = await (await handleRequest(req('/metrics'), db, ws, null, services)).text();
+      expect(text).toContain('visualizer_events_rejected_total{reason="invalid_json"} 1');
+      expect(text).toContain('visualizer_events_rejected_total{reason="invalid_body"} 1');
+      expect(text).toContain('visualizer_events_rejected_total{reason="invalid_field"} 1');
+      expect(text).toContain('visualizer_events_ingested_total{type="SessionStarted"} 1');
+    });
+
+    test('counts bodies over the size limit', async () => {
+      const services = { metrics: createMetrics() };
+      const body = 'x'.repeat(MAX_REQUEST_BODY_BYTES + 1);
+      const res = await handleRequest(req('/api/events', { method: 'POST', body }), db, ws, null, services);
+      expect(res.status).toBe(413);
+
+      const text = await (await handleRequest(req('/metrics'), db, ws, null, services)).text();
+      expect(text).toContain('visualizer_events_rejected_total{reason="payload_too_large"} 1');
+    });
+
+    test('requires the auth token, which scrapers send as a bearer token', async () => {
+      const services = { metrics: createMetrics(), auth: createAuthGuard('secret') };
+      const get = (headers: Record<string, string>) =>
+        handleRequest(req('/metrics', { headers }), db, ws, null, services);
+
+      expect((await get({})).status).toBe(401);
+      expect((await get({ Authorization: 'Bearer wrong' })).status).toBe(401);
+      expect((await get({ Authorization: 'Bearer secret' })).status).toBe(200);
+      expect((await get({ 'X-Visualizer-Token': 'secret' })).status).toBe(200);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Rate limiting
+  // -----------------------------------------------------------------------
+  describe('rate limiting', () => {
+    const limited = () => ({ rateLimit: createRateLimiter({ ratePerSecond: 0.5, burst: 2 }) });
+    const post = (path: string, body: unknown, services: RouteServices) =>
+      handleRequest(req(path, { method: 'POST', body: JSON.stringify(body) }), db, ws, null, services);
+
+    test('returns 429 with Retry-After once a session exhausts its bucket', async () => {
+      const services = limited();
+      expect((await post('/api/events', makeSessionStartedEvent(), services)).status).toBe(201);
+      expect((await post('/api/events', makeSessionStartedEvent(), services)).status).toBe(201);
+
+      const res = await post('/api/events', makeSessionStartedEvent(), services);
+      expect(res.status).toBe(429);
+      expect(res.headers.get('Retry-After')).toBe('2');
+      expect(await res.json()).toEqual({ error: 'Rate limit exceeded', retry_after: 2 });
+
+      // Other sessions are unaffected
+      expect((await post('/api/events', makeSessionStartedEvent({ session_id: 'other' }), services)).status).toBe(201);
+    });
+
+    test('tells clients once instead of broadcasting dropped events', async () => {
+      const services = limited();
+      for (let i = 0; i < 5; i++) await post('/api/events', makeSessionStartedEvent(), services);
+
+      const types = broadcasted.map((m: any) => m.type);
+      expect(types).toEqual(['event', 'event', 'rate_limited']);
+      expect(broadcasted[2]).toEqual({ type: 'rate_limited', sessionId: 'session-1', dropped: 1, retryAfterSeconds: 2 });
+    });
+
+    test('rejects the items of a batch over the limit', async () => {
+      const services = limited();
+      const res = await post('/api/events/batch', [1, 2, 3].map(() => makeSessionStartedEvent()), services);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Retry-After')).toBe('2');
+      const body = await res.json() as any;
+      expect(body.accepted).toBe(2);
+      expect(body.results[2]).toEqual({ index: 2, ok: false, error: 'Rate limit exceeded' });
+
+      const refused = await post('/api/events/batch', [makeSessionStartedEvent()], services);
+      expect(refused.status).toBe(429);
+    });
+
+    test('drops are counted in /api/health and /metrics', async () => {
+      const services = { ...limited(), metrics: createMetrics() };
+      for (let i = 0; i < 3; i++) await post('/api/events', makeSessionStartedEvent(), services);
+
+      const health = await (await handleRequest(req('/api/health'), db, ws, null, services)).json() as any;
+      expect(health.rateLimit).toMatchObject({ enabled: true, ratePerSecond: 0.5, burst: 2, dropped: 1, limitedSessions: 1 });
+      expect(health.rateLimit.sessions[0]).toMatchObject({ session_id: 'session-1', dropped: 1 });
+
+      const metrics = await (await handleRequest(req('/metrics'), db, ws, null, services)).text();
+      expect(metrics).toContain('visualizer_events_rejected_total{reason="rate_limited"} 1');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Webhooks
+  // -----------------------------------------------------------------------
+  describe('webhooks', () => {
+    function webhookServices(statuses: number[] = []) {
+      const sent: unknown[] = [];
+      const webhooks = createWebhookDispatcher(
+        [{ url: 'http://localhost:9000/', events: ['WaitingForUser'], template: { text: '{{message}}' }, headers: {} }],
+        {
+          fetch: async (_url, init) => {
+            sent.push(JSON.parse(init.body as string));
+            return new Response(null, { status: statuses.shift() ?? 200 });
+          },
+        },
+      );
+      return { sent, webhooks };
+    }
+
+    const waitingEvent = (id: string) => ({
+      id,
+      type: 'WaitingForUser',
+      timestamp: new Date().toISOString(),
+      session_id: 'session-1',
+      notification_type: 'notification',
+      message: `message ${id}`,
+    });
+
+    test('stored events are dispatched once, including batch inserts', async () => {
+      const { sent, webhooks } = webhookServices();
+      const post = (path: string, body: unknown) =>
+        handleRequest(req(path, { method: 'POST', body: JSON.stringify(body) }), db, ws, null, { webhooks });
+
+      await post('/api/events', waitingEvent('w1'));
+      await post('/api/events', waitingEvent('w1')); // duplicate — not delivered again
+      await post('/api/events', makeSessionStartedEvent());
+      await post('/api/events/batch', [waitingEvent('w2')]);
+      await webhooks.drain();
+
+      expect(sent).toEqual([{ text: 'message w1' }, { text: 'message w2' }]);
+    });
+
+    test('GET /api/webhooks/deliveries lists deliveries and filters by status', async () => {
+      const { webhooks } = webhookServices([404]);
+      webhooks.dispatch(waitingEvent('w1') as VisualizerEvent);
+      webhooks.dispatch(waitingEvent('w2') as VisualizerEvent);
+      await webhooks.drain();
+
+      const res = await handleRequest(req('/api/webhooks/deliveries?status=failed'), db, ws, null, { webhooks });
+      expect(res.status).toBe(200);
+      const body = await res.json() as any[];
+      expect(body.map((d) => [d.event_id, d.status, d.response_status])).toEqual([['w1', 'failed', 404]]);
+
+      const limited = await handleRequest(req('/api/webhooks/deliveries?limit=1'), db, ws, null, { webhooks });
+      expect((await limited.json() as any[]).map((d) => d.event_id)).toEqual(['w2']);
+    });
+
+    test('GET /api/webhooks/deliveries is empty without webhooks and validates params', async () => {
+      const res = await handleRequest(req('/api/webhooks/deliveries'), db, ws);
+      expect(await res.json()).toEqual([]);
+
+      expect((await handleRequest(req('/api/webhooks/deliveries?status=lost'), db, ws)).status).toBe(400);
+      expect((await handleRequest(req('/api/webhooks/deliveries?limit=0'), db, ws)).status).toBe(400);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Token auth
+  // -----------------------------------------------------------------------
+  describe('token auth', () => {
+    const services = { auth: createAuthGuard('secret') };
+
+    test('API requests without the token return 401', async () => {
+      const res = await handleRequest(req('/api/events'), db, ws, null, services);
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Unauthorized' });
+    });
+
+    test('unauthorized POSTs are not stored or broadcast', async () => {
+      const res = await handleRequest(
+        req('/api/events', { method: 'POST', body: JSON.stringify(makeSessionStartedEvent()) }),
+        db,
+        ws,
+        null,
+        services,
+      );
+      expect(res.status).toBe(401);
+      expect(broadcasted.length).toBe(0);
+    });
+
+    test('API requests with the token header are served', async () => {
+      const res = await handleRequest(
+        req('/api/events', { headers: { 'X-Visualizer-Token': 'secret' } }),
+        db,
+        ws,
+        null,
+        services,
+      );
+      expect(res.status).toBe(200);
+    });
+
+    test('health check and preflight stay open', async () => {
+      expect((await handleRequest(req('/api/health'), db, ws, null, services)).status).toBe(200);
+      expect((await handleRequest(req('/api/events', { method: 'OPTIONS' }), db, ws, null, services)).status).toBe(204);
+    });
+
+    test('pages opened with ?token= set the cookie and redirect', async () => {
+      const res = await handleRequest(req('/?token=secret'), db, ws, null, services);
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe('/');
+      expect(res.headers.get('Set-Cookie')).toContain('visualizer_token=secret');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Unknown routes
   // -----------------------------------------------------------------------
@@ -481,7 +1265,7 @@ describe('routes', () => {
       expect(res.status).toBe(404);
       expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
-      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type');
+      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Visualizer-Token');
     });
 
     test('500 response has CORS headers (no Origin = non-browser)', async () => {
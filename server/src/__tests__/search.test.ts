@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { buildMatchQuery, initSearchIndex, searchEvents } from '../search';
+import { applyRetention } from '../retention';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function store(db: Database, event: Record<string, unknown>) {
+  insertEvent(db, {
+    id: event.id as string,
+    type: event.type as string,
+    session_id: event.session_id as string,
+    timestamp: event.timestamp as string,
+    payload: JSON.stringify(event),
+  });
+}
+
+function prompt(id: string, sessionId: string, text: string, timestamp = '2025-01-01T00:00:00Z') {
+  return { id, type: 'UserPrompt', session_id: sessionId, timestamp, prompt_text: text };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('buildMatchQuery', () => {
+  test('returns null for blank input', () => {
+    expect(buildMatchQuery('   ')).toBeNull();
+  });
+
+  test('quotes every term and prefix-matches the last one', () => {
+    expect(buildMatchQuery('auth modu')).toBe('"auth" "modu"*');
+  });
+
+  test('neutralises FTS operators and quotes', () => {
+    expect(buildMatchQuery('a"b OR -c')).toBe('"a""b" "OR" "-c"*');
+  });
+});
+
+describe('searchEvents', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('finds user prompts', () => {
+    store(db, prompt('p1', 'sess-A', 'please migrate the auth module to OAuth'));
+    store(db, prompt('p2', 'sess-B', 'write some tests'));
+
+    const hits = searchEvents(db, 'auth module');
+    expect(hits.length).toBe(1);
+    expect(hits[0].event_id).toBe('p1');
+    expect(hits[0].session_id).toBe('sess-A');
+    expect(hits[0].type).toBe('UserPrompt');
+    expect(hits[0].snippet).toContain('[auth]');
+  });
+
+  test('indexes tool_input values, tool errors and notification messages', () => {
+    store(db, {
+      id: 't1', type: 'ToolCallStarted', session_id: 's', timestamp: '2025-01-01T00:00:01Z',
+      tool_name: 'Bash', tool_input: { command: 'bun test --coverage' }, tool_use_id: 'tu1',
+    });
+    store(db, {
+      id: 'f1', type: 'ToolCallFailed', session_id: 's', timestamp: '2025-01-01T00:00:02Z',
+      tool_name: 'Edit', error: 'old_string not found in file', tool_use_id: 'tu2',
+    });
+    store(db, {
+      id: 'w1', type: 'WaitingForUser', session_id: 's', timestamp: '2025-01-01T00:00:03Z',
+      notification_type: 'notification', message: 'Claude needs your attention',
+    });
+
+    expect(searchEvents(db, 'coverage').map((h) => h.event_id)).toEqual(['t1']);
+    expect(searchEvents(db, 'not found').map((h) => h.event_id)).toEqual(['f1']);
+    expect(searchEvents(db, 'attention').map((h) => h.event_id)).toEqual(['w1']);
+  });
+
+  test('does not index events without searchable text', () => {
+    store(db, {
+      id: 's1', type: 'SessionStarted', session_id: 'auth', timestamp: '2025-01-01T00:00:00Z',
+      agent_type: 'main', model: 'auth-model', source: 'cli',
+    });
+    expect(searchEvents(db, 'auth')).toEqual([]);
+  });
+
+  test('filters by session_id', () => {
+    store(db, prompt('p1', 'sess-A', 'deploy the app'));
+    store(db, prompt('p2', 'sess-B', 'deploy the docs'));
+    expect(searchEvents(db, 'deploy', { session_id: 'sess-B' }).map((h) => h.event_id)).toEqual(['p2']);
+  });
+
+  test('supports prefix matching on the last term', () => {
+    store(db, prompt('p1', 's', 'refactor the websocket handler'));
+    expect(searchEvents(db, 'webso').length).toBe(1);
+  });
+
+  test('removes index entries when events are deleted', () => {
+    store(db, prompt('old', 's', 'ancient history', '2020-01-01T00:00:00Z'));
+    applyRetention(
+      db,
+      { maxAgeDays: 1, maxEvents: null, maxSessions: null, intervalMs: 1000 },
+      Date.parse('2025-01-01T00:00:00Z'),
+    );
+    expect(searchEvents(db, 'ancient')).toEqual([]);
+  });
+
+  test('initSearchIndex indexes events stored before the index existed', () => {
+    store(db, prompt('p1', 's', 'backfilled prompt'));
+    db.run('DROP TABLE events_fts');
+    db.run('DROP TRIGGER events_fts_insert');
+    db.run('DROP TRIGGER events_fts_delete');
+
+    initSearchIndex(db);
+    expect(searchEvents(db, 'backfilled').map((h) => h.event_id)).toEqual(['p1']);
+  });
+});
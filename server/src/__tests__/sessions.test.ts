@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent, getSessions } from '../database';
+import { migrate, MIGRATIONS } from '../migrations';
+import { getProjects } from '../sessions';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function sessionStarted(
+  sessionId: string,
+  at: number,
+  location: { cwd?: string | null; git_root?: string | null; git_branch?: string | null } = {},
+): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'SessionStarted',
+    timestamp: ts(at),
+    session_id: sessionId,
+    agent_type: 'main',
+    model: 'claude',
+    source: 'cli',
+    ...location,
+  };
+}
+
+function prompt(sessionId: string, at: number): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'UserPrompt',
+    timestamp: ts(at),
+    session_id: sessionId,
+    prompt_text: 'hello',
+  };
+}
+
+function store(db: Database, event: VisualizerEvent) {
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+}
+
+const repoA = { cwd: '/work/a/server', git_root: '/work/a', git_branch: 'main' };
+const repoB = { cwd: '/work/b', git_root: '/work/b', git_branch: 'fix' };
+
+// ---------------------------------------------------------------------------
+// Session location
+// ---------------------------------------------------------------------------
+
+describe('sessions table', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('getSessions reports where each session ran', () => {
+    store(db, sessionStarted('s1', 0, repoA));
+    store(db, prompt('s1', 5));
+
+    expect(getSessions(db)).toEqual([
+      {
+        session_id: 's1',
+        event_count: 2,
+        first_event: ts(0),
+        last_event: ts(5),
+        cwd: '/work/a/server',
+        git_root: '/work/a',
+        git_branch: 'main',
+        project: '/work/a',
+      },
+    ]);
+  });
+
+  test('falls back to the working directory outside a repository', () => {
+    store(db, sessionStarted('s1', 0, { cwd: '/tmp/scratch', git_root: null, git_branch: null }));
+    expect(getSessions(db)[0]).toMatchObject({ cwd: '/tmp/scratch', git_root: null, project: '/tmp/scratch' });
+  });
+
+  test('sessions from older hooks have no location', () => {
+    store(db, sessionStarted('s1', 0));
+    expect(getSessions(db)[0]).toMatchObject({ cwd: null, git_root: null, git_branch: null, project: null });
+  });
+
+  test('the most recent SessionStarted wins', () => {
+    store(db, sessionStarted('s1', 10, { ...repoA, git_branch: 'second' }));
+    store(db, sessionStarted('s1', 0, repoA));
+    expect(getSessions(db)[0].git_branch).toBe('second');
+  });
+
+  test('deleting the events forgets the location', () => {
+    store(db, sessionStarted('s1', 0, repoA));
+    db.run('DELETE FROM events');
+    expect(db.prepare('SELECT COUNT(*) AS n FROM sessions').get()).toEqual({ n: 0 });
+  });
+
+  test('the migration records sessions stored before it existed', () => {
+    const legacy = new Database(':memory:');
+    migrate(legacy, MIGRATIONS.slice(0, MIGRATIONS.findIndex((m) => m.name === 'sessions table')));
+    store(legacy, sessionStarted('s1', 0, repoA));
+    store(legacy, sessionStarted('s1', 5, repoB));
+    store(legacy, sessionStarted('s2', 0));
+
+    migrate(legacy);
+    expect(getSessions(legacy).map((s) => [s.session_id, s.project])).toEqual([
+      ['s1', '/work/b'],
+      ['s2', null],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Projects
+// ---------------------------------------------------------------------------
+
+describe('getProjects', () => {
+  test('groups sessions by project, most recently active first', () => {
+    const db = initDatabase(':memory:');
+    store(db, sessionStarted('a1', 0, repoA));
+    store(db, sessionStarted('b1', 10, repoB));
+    store(db, sessionStarted('a2', 20, { ...repoA, cwd: '/work/a/client' }));
+    store(db, prompt('a2', 30));
+    store(db, prompt('legacy', 5));
+
+    const projects = getProjects(db);
+    expect(projects.map((p) => [p.project, p.session_count, p.event_count, p.first_event, p.last_event])).toEqual([
+      ['/work/a', 2, 3, ts(0), ts(30)],
+      ['/work/b', 1, 1, ts(10), ts(10)],
+      [null, 1, 1, ts(5), ts(5)],
+    ]);
+    expect(projects[0].sessions.map((s) => s.session_id)).toEqual(['a2', 'a1']);
+  });
+
+  test('is empty without events', () => {
+    expect(getProjects(initDatabase(':memory:'))).toEqual([]);
+  });
+});
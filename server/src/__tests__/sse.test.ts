@@ -0,0 +1,224 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { createSseHandler, formatSseEvent, type SseHandler } from '../sse';
+import { handleRequest } from '../routes';
+import type { WebSocketHandler } from '../websocket';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeEvent(overrides: Partial<Record<string, unknown>> = {}): VisualizerEvent {
+  return {
+    id: crypto.randomUUID(),
+    type: 'SessionStarted',
+    timestamp: new Date().toISOString(),
+    session_id: 'session-1',
+    agent_type: 'main',
+    model: 'claude-sonnet-4-20250514',
+    source: 'cli',
+    ...overrides,
+  } as VisualizerEvent;
+}
+
+function seed(db: Database, overrides: Partial<Record<string, unknown>> = {}): VisualizerEvent {
+  const event = makeEvent(overrides);
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+  return event;
+}
+
+const noopWs: WebSocketHandler = {
+  handlers: { open() {}, message() {}, close() {}, pong() {} },
+  broadcast() {},
+  clientCount() {
+    return 0;
+  },
+  checkHeartbeats() {
+    return 0;
+  },
+};
+
+/** Open a stream and return a reader that collects decoded `data:` payloads. */
+function openStream(sse: SseHandler, path: string, headers: Record<string, string> = {}) {
+  const url = new URL(`http://localhost${path}`);
+  const res = sse.handle(new Request(url.href, { headers }), url);
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  async function readEvents(count: number): Promise<VisualizerEvent[]> {
+    const events: VisualizerEvent[] = [];
+    while (events.length < count) {
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() ?? '';
+      for (const frame of frames) {
+        const data = frame.split('\n').find((line) => line.startsWith('data: '));
+        if (data) events.push(JSON.parse(data.slice('data: '.length)));
+      }
+      if (events.length >= count) break;
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value);
+    }
+    return events;
+  }
+
+  return { res, reader, readEvents };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SSE stream', () => {
+  let db: Database;
+  let sse: SseHandler;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    sse = createSseHandler(db);
+  });
+
+  test('formatSseEvent uses the sequence number as the SSE id', () => {
+    const event = makeEvent({ id: 'evt-1' });
+    expect(formatSseEvent(event, 7)).toBe(`id: 7\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  test('responds with an event-stream content type', async () => {
+    const { res, reader } = openStream(sse, '/api/stream');
+    expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(res.headers.get('Cache-Control')).toBe('no-cache');
+    await reader.cancel();
+  });
+
+  test('delivers broadcast events to connected clients', async () => {
+    const { reader, readEvents } = openStream(sse, '/api/stream');
+    expect(sse.clientCount()).toBe(1);
+
+    const event = makeEvent({ id: 'live-1' });
+    sse.broadcast(event, 1);
+
+    const received = await readEvents(1);
+    expect(received[0].id).toBe('live-1');
+    await reader.cancel();
+  });
+
+  test('applies session_id and type filters to live events', async () => {
+    const { reader, readEvents } = openStream(sse, '/api/stream?session_id=A&type=UserPrompt');
+
+    sse.broadcast(makeEvent({ id: 'wrong-session', session_id: 'B', type: 'UserPrompt', prompt_text: 'x' }), 1);
+    sse.broadcast(makeEvent({ id: 'wrong-type', session_id: 'A' }), 2);
+    sse.broadcast(makeEvent({ id: 'match', session_id: 'A', type: 'UserPrompt', prompt_text: 'y' }), 3);
+
+    const received = await readEvents(1);
+    expect(received.map((e) => e.id)).toEqual(['match']);
+    await reader.cancel();
+  });
+
+  test('resumes after a numeric Last-Event-ID by sequence number', async () => {
+    seed(db, { id: 'e1' });
+    seed(db, { id: 'e2' });
+    seed(db, { id: 'e3', session_id: 'other' });
+    seed(db, { id: 'e4' });
+
+    const { reader, readEvents } = openStream(sse, '/api/stream?session_id=session-1', {
+      'Last-Event-ID': '1',
+    });
+
+    const received = await readEvents(2);
+    expect(received.map((e) => e.id)).toEqual(['e2', 'e4']);
+    await reader.cancel();
+  });
+
+  test('resumes after an event-id Last-Event-ID in insertion order', async () => {
+    seed(db, { id: 'e1' });
+    seed(db, { id: 'e2' });
+    seed(db, { id: 'e3', session_id: 'other' });
+    seed(db, { id: 'e4' });
+
+    const { reader, readEvents } = openStream(sse, '/api/stream?session_id=session-1', {
+      'Last-Event-ID': 'e1',
+    });
+
+    const received = await readEvents(2);
+    expect(received.map((e) => e.id)).toEqual(['e2', 'e4']);
+    await reader.cancel();
+  });
+
+  test('resumes across more events than a single page holds', async () => {
+    for (let i = 1; i <= 1200; i++) seed(db, { id: `e${i}` });
+
+    const { reader, readEvents } = openStream(sse, '/api/stream', { 'Last-Event-ID': '10' });
+    // Nothing is read ahead of the client, and it is not live until caught up
+    expect(sse.clientCount()).toBe(0);
+
+    const received = await readEvents(1190);
+    expect(sse.clientCount()).toBe(1);
+    expect(received).toHaveLength(1190);
+    expect(received[0].id).toBe('e11');
+    expect(received[received.length - 1].id).toBe('e1200');
+    await reader.cancel();
+  });
+
+  test('accepts last_event_id as a query parameter', async () => {
+    seed(db, { id: 'e1' });
+    seed(db, { id: 'e2' });
+
+    const { reader, readEvents } = openStream(sse, '/api/stream?last_event_id=e1');
+    const received = await readEvents(1);
+    expect(received[0].id).toBe('e2');
+    await reader.cancel();
+  });
+
+  test('removes the client when the stream is cancelled', async () => {
+    const { reader } = openStream(sse, '/api/stream');
+    expect(sse.clientCount()).toBe(1);
+    await reader.cancel();
+    expect(sse.clientCount()).toBe(0);
+  });
+
+  test('GET /api/stream is routed to the SSE handler and fed by POST /api/events', async () => {
+    const res = await handleRequest(
+      new Request('http://localhost/api/stream'),
+      db,
+      noopWs,
+      null,
+      { sse },
+    );
+    expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+
+    const event = makeEvent({ id: 'posted' });
+    await handleRequest(
+      new Request('http://localhost/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      }),
+      db,
+      noopWs,
+      null,
+      { sse },
+    );
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!text.includes('posted')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    expect(text).toContain('id: 1\n');
+    expect(text).toContain('"id":"posted"');
+    await reader.cancel();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { computeSessionStats, getSessionStats, percentile } from '../stats';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function started(toolUseId: string, toolName: string, at: number): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallStarted',
+    timestamp: ts(at),
+    session_id: 'session-1',
+    tool_name: toolName,
+    tool_input: {},
+    tool_use_id: toolUseId,
+  };
+}
+
+function completed(toolUseId: string, toolName: string, at: number, durationMs = 0): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallCompleted',
+    timestamp: ts(at),
+    session_id: 'session-1',
+    tool_name: toolName,
+    tool_response: null,
+    duration_ms: durationMs,
+    tool_use_id: toolUseId,
+  };
+}
+
+function failed(toolUseId: string, toolName: string, at: number): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallFailed',
+    timestamp: ts(at),
+    session_id: 'session-1',
+    tool_name: toolName,
+    error: 'boom',
+    tool_use_id: toolUseId,
+  };
+}
+
+function store(db: Database, event: VisualizerEvent) {
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('percentile', () => {
+  test('returns null for empty input', () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  test('uses nearest rank', () => {
+    const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(100);
+    expect(percentile([7], 95)).toBe(7);
+  });
+});
+
+describe('computeSessionStats', () => {
+  test('returns null when there are no events', () => {
+    expect(computeSessionStats('session-1', [])).toBeNull();
+  });
+
+  test('counts calls, successes and failures per tool', () => {
+    const stats = computeSessionStats('session-1', [
+      started('t1', 'Bash', 1),
+      completed('t1', 'Bash', 2, 1000),
+      started('t2', 'Bash', 3),
+      failed('t2', 'Bash', 4),
+      started('t3', 'Read', 5),
+      completed('t3', 'Read', 6, 10),
+    ])!;
+
+    expect(stats.tool_calls.total).toBe(3);
+    expect(stats.tool_calls.succeeded).toBe(2);
+    expect(stats.tool_calls.failed).toBe(1);
+
+    const bash = stats.tool_calls.by_tool.find((t) => t.tool_name === 'Bash')!;
+    expect(bash.calls).toBe(2);
+    expect(bash.succeeded).toBe(1);
+    expect(bash.failed).toBe(1);
+    // Most-used tool first
+    expect(stats.tool_calls.by_tool[0].tool_name).toBe('Bash');
+  });
+
+  test('derives duration from timestamps when duration_ms is zero', () => {
+    const stats = computeSessionStats('session-1', [
+      started('t1', 'Grep', 10),
+      completed('t1', 'Grep', 13, 0),
+    ])!;
+    expect(stats.tool_calls.p50_ms).toBe(3000);
+  });
+
+  test('computes p50 and p95 over reported durations', () => {
+    const events: VisualizerEvent[] = [];
+    for (let i = 1; i <= 20; i++) {
+      events.push(started(`t${i}`, 'Bash', i));
+      events.push(completed(`t${i}`, 'Bash', i, i * 100));
+    }
+    const stats = computeSessionStats('session-1', events)!;
+    expect(stats.tool_calls.p50_ms).toBe(1000);
+    expect(stats.tool_calls.p95_ms).toBe(1900);
+  });
+
+  test('counts a completion without a matching start as one call', () => {
+    const stats = computeSessionStats('session-1', [completed('orphan', 'Edit', 1, 5)])!;
+    expect(stats.tool_calls.total).toBe(1);
+    expect(stats.tool_calls.by_tool[0].calls).toBe(1);
+  });
+
+  test('counts subagents, permission waits and compactions', () => {
+    const stats = computeSessionStats('session-1', [
+      {
+        id: 'a', type: 'AgentSpawned', timestamp: ts(1), session_id: 'session-1',
+        agent_id: 'agent-1', parent_session_id: 'session-1', agent_type: 'task',
+        model: 'm', task_description: null,
+      },
+      {
+        id: 'b', type: 'WaitingForUser', timestamp: ts(2), session_id: 'session-1',
+        notification_type: 'permission_request', message: 'Bash',
+      },
+      {
+        id: 'c', type: 'WaitingForUser', timestamp: ts(3), session_id: 'session-1',
+        notification_type: 'notification', message: 'idle',
+      },
+      { id: 'd', type: 'ContextCompaction', timestamp: ts(4), session_id: 'session-1', context_pressure: 0.9 },
+    ])!;
+
+    expect(stats.subagents_spawned).toBe(1);
+    expect(stats.permission_waits).toBe(1);
+    expect(stats.compactions).toBe(1);
+    expect(stats.event_count).toBe(4);
+    expect(stats.first_event).toBe(ts(1));
+    expect(stats.last_event).toBe(ts(4));
+  });
+});
+
+describe('getSessionStats', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('returns null for an unknown session', () => {
+    expect(getSessionStats(db, 'missing')).toBeNull();
+  });
+
+  test('only includes events from the requested session', () => {
+    store(db, started('t1', 'Bash', 1));
+    store(db, completed('t1', 'Bash', 2, 50));
+    store(db, { ...started('t2', 'Read', 3), session_id: 'session-2' } as VisualizerEvent);
+
+    const stats = getSessionStats(db, 'session-1')!;
+    expect(stats.event_count).toBe(2);
+    expect(stats.tool_calls.total).toBe(1);
+  });
+});
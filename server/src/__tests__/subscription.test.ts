@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'bun:test';
+import type { VisualizerEvent } from '@shared/events';
+import { initDatabase, insertEvent, getEvents } from '../database';
+import { eventAgentIds, matchesSubscription, normalizeFilter, toQueryFilters } from '../subscription';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeEvent(overrides: Record<string, unknown> = {}): VisualizerEvent {
+  return {
+    id: crypto.randomUUID(),
+    type: 'SessionStarted',
+    timestamp: '2025-01-01T00:00:00Z',
+    session_id: 'session-A',
+    agent_type: 'main',
+    model: 'm',
+    source: 'cli',
+    ...overrides,
+  } as VisualizerEvent;
+}
+
+const spawned = makeEvent({
+  id: 'spawn',
+  type: 'AgentSpawned',
+  agent_id: 'agent-1',
+  parent_session_id: 'session-A',
+  task_description: null,
+  timestamp: '2025-01-01T00:00:01Z',
+});
+const message = makeEvent({
+  id: 'msg',
+  type: 'MessageSent',
+  from_agent: 'session-A',
+  to_agent: 'agent-2',
+  content_preview: 'hi',
+  timestamp: '2025-01-01T00:00:02Z',
+});
+const other = makeEvent({ id: 'other', session_id: 'session-B', timestamp: '2025-01-01T00:00:03Z' });
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('normalizeFilter', () => {
+  test('returns an empty filter for non-objects', () => {
+    expect(normalizeFilter(null)).toEqual({});
+    expect(normalizeFilter('x')).toEqual({});
+  });
+
+  test('drops non-string entries, empty lists and unknown keys', () => {
+    expect(normalizeFilter({ sessionIds: ['a', 1, ''], eventTypes: [], agentIds: 'x', extra: ['y'] })).toEqual({
+      sessionIds: ['a'],
+    });
+  });
+
+  test('caps list length', () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `s${i}`);
+    expect(normalizeFilter({ sessionIds: ids }).sessionIds!.length).toBe(100);
+  });
+});
+
+describe('eventAgentIds', () => {
+  test('includes agent_id for spawn events and both ends of messages', () => {
+    expect(eventAgentIds(spawned)).toEqual(['session-A', 'agent-1']);
+    expect(eventAgentIds(message)).toEqual(['session-A', 'session-A', 'agent-2']);
+    expect(eventAgentIds(other)).toEqual(['session-B']);
+  });
+});
+
+describe('matchesSubscription', () => {
+  test('an empty filter matches everything', () => {
+    expect(matchesSubscription(other, {})).toBe(true);
+  });
+
+  test('every present list must match', () => {
+    expect(matchesSubscription(spawned, { sessionIds: ['session-A'], eventTypes: ['AgentSpawned'] })).toBe(true);
+    expect(matchesSubscription(spawned, { sessionIds: ['session-A'], eventTypes: ['SessionStarted'] })).toBe(false);
+  });
+
+  test('agentIds match any agent the event refers to', () => {
+    expect(matchesSubscription(message, { agentIds: ['agent-2'] })).toBe(true);
+    expect(matchesSubscription(other, { agentIds: ['agent-2'] })).toBe(false);
+  });
+});
+
+describe('toQueryFilters', () => {
+  test('SQL filtering agrees with the in-memory matcher', () => {
+    const db = initDatabase(':memory:');
+    const events = [spawned, message, other];
+    for (const e of events) {
+      insertEvent(db, { id: e.id, type: e.type, session_id: e.session_id, timestamp: e.timestamp, payload: JSON.stringify(e) });
+    }
+
+    const filters = [
+      { sessionIds: ['session-B'] },
+      { eventTypes: ['AgentSpawned' as const, 'MessageSent' as const] },
+      { agentIds: ['agent-1'] },
+      { agentIds: ['agent-2'], eventTypes: ['MessageSent' as const] },
+      { agentIds: ['session-A'] },
+    ];
+    for (const filter of filters) {
+      const fromSql = (getEvents(db, toQueryFilters(filter)) as VisualizerEvent[]).map((e) => e.id);
+      const inMemory = events.filter((e) => matchesSubscription(e, filter)).map((e) => e.id);
+      expect(fromSql).toEqual(inMemory);
+    }
+  });
+});
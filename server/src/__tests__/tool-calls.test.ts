@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { migrate, MIGRATIONS } from '../migrations';
+import { queryToolCalls } from '../tool-calls';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function started(toolUseId: string, toolName: string, at: number, sessionId = 'session-1'): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallStarted',
+    timestamp: ts(at),
+    session_id: sessionId,
+    tool_name: toolName,
+    tool_input: {},
+    tool_use_id: toolUseId,
+  };
+}
+
+function completed(toolUseId: string, toolName: string, at: number, durationMs = 0): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallCompleted',
+    timestamp: ts(at),
+    session_id: 'session-1',
+    tool_name: toolName,
+    tool_response: null,
+    duration_ms: durationMs,
+    tool_use_id: toolUseId,
+  };
+}
+
+function failed(toolUseId: string, toolName: string, at: number): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallFailed',
+    timestamp: ts(at),
+    session_id: 'session-1',
+    tool_name: toolName,
+    error: 'boom',
+    tool_use_id: toolUseId,
+  };
+}
+
+function store(db: Database, event: VisualizerEvent) {
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Maintenance at ingest
+// ---------------------------------------------------------------------------
+
+describe('tool_calls table', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('a started call is running until it finishes', () => {
+    store(db, started('tu-1', 'Bash', 0));
+    expect(queryToolCalls(db)).toEqual([
+      {
+        tool_use_id: 'tu-1',
+        session_id: 'session-1',
+        tool_name: 'Bash',
+        started_at: ts(0),
+        ended_at: null,
+        duration_ms: null,
+        outcome: 'running',
+        error: null,
+      },
+    ]);
+
+    store(db, completed('tu-1', 'Bash', 3, 2500));
+    const [call] = queryToolCalls(db);
+    expect(call.outcome).toBe('succeeded');
+    expect(call.ended_at).toBe(ts(3));
+    expect(call.duration_ms).toBe(2500);
+  });
+
+  test('derives the duration from timestamps when none is reported', () => {
+    store(db, started('tu-1', 'Bash', 1));
+    store(db, completed('tu-1', 'Bash', 5));
+    expect(queryToolCalls(db)[0].duration_ms).toBe(4000);
+  });
+
+  test('pairs a completion that arrives before its start', () => {
+    store(db, completed('tu-1', 'Read', 4));
+    expect(queryToolCalls(db)[0]).toMatchObject({ outcome: 'succeeded', started_at: null, duration_ms: null });
+
+    store(db, started('tu-1', 'Read', 1));
+    expect(queryToolCalls(db)[0]).toMatchObject({
+      outcome: 'succeeded',
+      started_at: ts(1),
+      ended_at: ts(4),
+      duration_ms: 3000,
+    });
+  });
+
+  test('records failures with their error', () => {
+    store(db, started('tu-1', 'Bash', 0));
+    store(db, failed('tu-1', 'Bash', 2));
+    expect(queryToolCalls(db)[0]).toMatchObject({ outcome: 'failed', error: 'boom', duration_ms: 2000 });
+  });
+
+  test('ignores tool events without a tool_use_id', () => {
+    store(db, completed('', 'Bash', 0));
+    expect(queryToolCalls(db)).toEqual([]);
+  });
+
+  test('deleting the events removes the paired call', () => {
+    store(db, started('tu-1', 'Bash', 0));
+    store(db, completed('tu-1', 'Bash', 1));
+    db.run('DELETE FROM events');
+    expect(queryToolCalls(db)).toEqual([]);
+  });
+
+  test('the migration pairs tool events stored before it existed', () => {
+    const legacy = new Database(':memory:');
+    const beforeToolCalls = MIGRATIONS.slice(0, MIGRATIONS.findIndex((m) => m.name === 'tool_calls table'));
+    migrate(legacy, beforeToolCalls);
+    store(legacy, completed('tu-1', 'Grep', 6));
+    store(legacy, started('tu-1', 'Grep', 2));
+    store(legacy, started('tu-2', 'Bash', 3));
+
+    migrate(legacy);
+    const calls = queryToolCalls(legacy, { sort: 'started_at', order: 'asc' });
+    expect(calls.map((c) => [c.tool_use_id, c.outcome, c.duration_ms])).toEqual([
+      ['tu-1', 'succeeded', 4000],
+      ['tu-2', 'running', null],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Querying
+// ---------------------------------------------------------------------------
+
+describe('queryToolCalls', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    store(db, started('a', 'Bash', 0));
+    store(db, completed('a', 'Bash', 10, 10_000));
+    store(db, started('b', 'Bash', 20));
+    store(db, completed('b', 'Bash', 21, 1_000));
+    store(db, started('c', 'Read', 30));
+    store(db, failed('c', 'Read', 35));
+    store(db, started('d', 'Bash', 40, 'session-2'));
+  });
+
+  test('defaults to the most recently started first', () => {
+    expect(queryToolCalls(db).map((c) => c.tool_use_id)).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  test('sorts by duration with unfinished calls last', () => {
+    expect(queryToolCalls(db, { sort: 'duration_ms' }).map((c) => c.tool_use_id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(queryToolCalls(db, { sort: 'duration_ms', order: 'asc' }).map((c) => c.tool_use_id)).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  test('filters by session, tool, outcome, duration and time range', () => {
+    const ids = (query: Parameters<typeof queryToolCalls>[1]) =>
+      queryToolCalls(db, query).map((c) => c.tool_use_id).sort();
+
+    expect(ids({ session_id: 'session-2' })).toEqual(['d']);
+    expect(ids({ tool_name: 'Bash', outcome: 'succeeded' })).toEqual(['a', 'b']);
+    expect(ids({ outcome: 'failed' })).toEqual(['c']);
+    expect(ids({ min_duration_ms: 5000 })).toEqual(['a', 'c']);
+    expect(ids({ from: ts(20), to: ts(30) })).toEqual(['b', 'c']);
+  });
+
+  test('applies limit and offset', () => {
+    expect(queryToolCalls(db, { limit: 2, offset: 1 }).map((c) => c.tool_use_id)).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { initDatabase, insertEvent } from '../database';
+import { getSessionTree } from '../tree';
+import {
+  createAgentTreeState,
+  reduceAgentEvent,
+  reduceAgentEvents,
+  toAgentTree,
+} from '@shared/reducer';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+function base(sessionId = 'session-1') {
+  counter++;
+  return { id: `evt-${counter}`, timestamp: ts(counter), session_id: sessionId };
+}
+
+function sessionStarted(sessionId = 'session-1'): VisualizerEvent {
+  return { ...base(sessionId), type: 'SessionStarted', agent_type: 'main', model: 'opus', source: 'cli' };
+}
+
+function agentSpawned(agentId: string, sessionId = 'session-1'): VisualizerEvent {
+  return {
+    ...base(sessionId),
+    type: 'AgentSpawned',
+    agent_id: agentId,
+    parent_session_id: null,
+    agent_type: 'Explore',
+    model: 'sonnet',
+    task_description: 'search',
+  };
+}
+
+function toolStarted(toolUseId: string, sessionId = 'session-1'): VisualizerEvent {
+  return { ...base(sessionId), type: 'ToolCallStarted', tool_name: 'Bash', tool_input: {}, tool_use_id: toolUseId };
+}
+
+function toolFailed(toolUseId: string, sessionId = 'session-1'): VisualizerEvent {
+  return { ...base(sessionId), type: 'ToolCallFailed', tool_name: 'Bash', error: 'boom', tool_use_id: toolUseId };
+}
+
+// ---------------------------------------------------------------------------
+// Reducer
+// ---------------------------------------------------------------------------
+
+describe('reduceAgentEvent', () => {
+  test('does not mutate the input state', () => {
+    const initial = reduceAgentEvents([sessionStarted()]);
+    const agentsBefore = initial.agents;
+
+    const next = reduceAgentEvent(initial, toolStarted('tu-1'));
+
+    expect(next).not.toBe(initial);
+    expect(initial.agents).toBe(agentsBefore);
+    expect(initial.agents.get('session-1')!.status).toBe('active');
+    expect(initial.activeToolCalls.size).toBe(0);
+    expect(next.agents.get('session-1')!.status).toBe('tool_executing');
+  });
+
+  test('returns the same state for events that do not affect the tree', () => {
+    const state = reduceAgentEvents([sessionStarted()]);
+    const next = reduceAgentEvent(state, {
+      ...base(),
+      type: 'ContextCompaction',
+      context_pressure: 0.9,
+    });
+    expect(next).toBe(state);
+  });
+
+  test('spawned agents start as spawning only for live events', () => {
+    const state = reduceAgentEvents([sessionStarted()]);
+    const event = agentSpawned('sub-1');
+
+    expect(reduceAgentEvent(state, event, { live: true }).agents.get('sub-1')!.status).toBe('spawning');
+    expect(reduceAgentEvent(state, event).agents.get('sub-1')!.status).toBe('active');
+  });
+
+  test('auto-creates a root agent for a session whose start was missed', () => {
+    const state = reduceAgentEvent(createAgentTreeState(), toolStarted('tu-1', 'late'));
+    expect(state.rootAgentId).toBe('late');
+    expect(state.agents.get('late')!.agentType).toBe('unknown');
+    expect(state.activeToolCalls.has('tu-1')).toBe(true);
+  });
+
+  test('a new session replaces the previous root subtree and its tool calls', () => {
+    const state = reduceAgentEvents([
+      sessionStarted('old'),
+      agentSpawned('sub-old', 'old'),
+      toolStarted('tu-old', 'old'),
+      sessionStarted('new'),
+    ]);
+
+    expect([...state.agents.keys()]).toEqual(['new']);
+    expect(state.rootAgentId).toBe('new');
+    expect(state.activeToolCalls.size).toBe(0);
+  });
+
+  test('a failed tool call leaves the agent in error without a timer', () => {
+    const state = reduceAgentEvents([sessionStarted(), toolStarted('tu-1'), toolFailed('tu-1')]);
+    expect(state.agents.get('session-1')!.status).toBe('error');
+    expect(state.activeToolCalls.size).toBe(0);
+  });
+});
+
+describe('token usage', () => {
+  const counts = { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 30, cache_read_input_tokens: 40 };
+
+  function tokenUsage(agentId: string, model: string | null): VisualizerEvent {
+    return { ...base(), type: 'TokenUsage', agent_id: agentId, model, total: counts, turn: counts, responses: 2 };
+  }
+
+  test('records usage and the model actually used on the agent', () => {
+    const state = reduceAgentEvents([sessionStarted(), agentSpawned('sub-1'), tokenUsage('sub-1', 'claude-haiku-4-5')]);
+    expect(state.agents.get('sub-1')!.usage).toEqual(counts);
+    expect(state.agents.get('sub-1')!.model).toBe('claude-haiku-4-5');
+    expect(state.agents.get('session-1')!.usage).toBeNull();
+  });
+
+  test('keeps the known model when the transcript names none', () => {
+    const state = reduceAgentEvents([sessionStarted(), tokenUsage('session-1', null)]);
+    expect(state.agents.get('session-1')!.model).toBe('opus');
+  });
+
+  test('ignores usage for an unknown agent', () => {
+    const state = reduceAgentEvents([sessionStarted()]);
+    expect(reduceAgentEvent(state, tokenUsage('ghost', 'x')).agents.has('ghost')).toBe(false);
+  });
+});
+
+describe('toAgentTree', () => {
+  test('produces a plain serialisable record', () => {
+    const tree = toAgentTree(reduceAgentEvents([sessionStarted(), agentSpawned('sub-1')]));
+    expect(Object.keys(tree)).toEqual(['session-1', 'sub-1']);
+    expect(JSON.parse(JSON.stringify(tree))).toEqual(tree);
+    expect(tree['sub-1'].parentId).toBe('session-1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getSessionTree
+// ---------------------------------------------------------------------------
+
+describe('getSessionTree', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  function store(event: VisualizerEvent) {
+    insertEvent(db, {
+      id: event.id,
+      type: event.type,
+      session_id: event.session_id,
+      timestamp: event.timestamp,
+      payload: JSON.stringify(event),
+    });
+  }
+
+  test('returns null for an unknown session', () => {
+    expect(getSessionTree(db, 'nope')).toBeNull();
+  });
+
+  test('replays events in timestamp order regardless of insertion order', () => {
+    const start = sessionStarted();
+    const spawn = agentSpawned('sub-1');
+    store(spawn);
+    store(start);
+
+    const tree = getSessionTree(db, 'session-1')!;
+    expect(tree.rootAgentId).toBe('session-1');
+    expect(tree.agents['session-1'].children).toEqual(['sub-1']);
+  });
+});
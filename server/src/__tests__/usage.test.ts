@@ -0,0 +1,267 @@
+/**
+ * Tests for model pricing (shared/src/pricing.ts) and per-session token
+ * usage and cost (server/src/usage.ts).
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { initDatabase, insertEvent } from '../database';
+import { migrate, MIGRATIONS } from '../migrations';
+import { getSessionSummaries } from '../sessions';
+import {
+  getSessionUsage,
+  getUsageBySession,
+  loadPricingConfig,
+  parsePricingOverrides,
+  PricingConfigError,
+} from '../usage';
+import { DEFAULT_PRICING, estimateCost, findPricing, formatCost } from '@shared/pricing';
+import type { TokenCounts, VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function ts(seconds: number): string {
+  return new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)).toISOString();
+}
+
+const counts = (input: number, output: number, cacheWrite = 0, cacheRead = 0): TokenCounts => ({
+  input_tokens: input,
+  output_tokens: output,
+  cache_creation_input_tokens: cacheWrite,
+  cache_read_input_tokens: cacheRead,
+});
+
+function base(sessionId: string, at: number) {
+  return { id: `evt-${++counter}`, timestamp: ts(at), session_id: sessionId };
+}
+
+function sessionStarted(sessionId: string, at: number, model = 'claude-sonnet-4-5'): VisualizerEvent {
+  return { ...base(sessionId, at), type: 'SessionStarted', agent_type: 'main', model, source: 'cli' };
+}
+
+function agentSpawned(sessionId: string, agentId: string, at: number, model: string): VisualizerEvent {
+  return {
+    ...base(sessionId, at),
+    type: 'AgentSpawned',
+    agent_id: agentId,
+    parent_session_id: sessionId,
+    agent_type: 'Explore',
+    model,
+    task_description: null,
+  };
+}
+
+function tokenUsage(
+  sessionId: string,
+  agentId: string,
+  at: number,
+  total: TokenCounts,
+  model: string | null = null,
+): VisualizerEvent {
+  return { ...base(sessionId, at), type: 'TokenUsage', agent_id: agentId, model, total, turn: total, responses: 1 };
+}
+
+function store(db: Database, event: VisualizerEvent) {
+  insertEvent(db, {
+    id: event.id,
+    type: event.type,
+    session_id: event.session_id,
+    timestamp: event.timestamp,
+    payload: JSON.stringify(event),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Pricing table
+// ---------------------------------------------------------------------------
+
+describe('findPricing', () => {
+  test('prefers an exact entry, then the longest prefix', () => {
+    expect(findPricing('claude-opus-4-6')).toBe(DEFAULT_PRICING['claude-opus-4-6']);
+    expect(findPricing('claude-opus-4-1-20250805')).toBe(DEFAULT_PRICING['claude-opus-4-1']);
+    expect(findPricing('claude-opus-4-20250514')).toBe(DEFAULT_PRICING['claude-opus-4']);
+    expect(findPricing('Claude-Sonnet-4-5-20250929')).toBe(DEFAULT_PRICING['claude-sonnet-4-5']);
+  });
+
+  test('falls back to the family alias the name contains', () => {
+    expect(findPricing('sonnet')).toBe(DEFAULT_PRICING.sonnet);
+    expect(findPricing('us.anthropic.claude-haiku-9')).toBe(DEFAULT_PRICING.haiku);
+  });
+
+  test('returns null for unknown or missing models', () => {
+    expect(findPricing('gpt-4o')).toBeNull();
+    expect(findPricing('unknown')).toBeNull();
+    expect(findPricing(null)).toBeNull();
+  });
+});
+
+describe('estimateCost', () => {
+  test('prices each kind of token per million', () => {
+    const pricing = { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 };
+    expect(estimateCost(counts(1_000_000, 100_000, 200_000, 2_000_000), pricing)).toBeCloseTo(3 + 1.5 + 0.75 + 0.6);
+  });
+
+  test('formatCost keeps small amounts visible', () => {
+    expect(formatCost(12.3)).toBe('$12.30');
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pricing configuration
+// ---------------------------------------------------------------------------
+
+describe('parsePricingOverrides', () => {
+  test('merges overrides over the defaults and derives cache prices', () => {
+    const table = parsePricingOverrides({
+      'My-Model': { input: 2, output: 8 },
+      opus: { input: 1, output: 1, cache_read: 0 },
+    });
+    expect(table['my-model']).toEqual({ input: 2, output: 8, cache_write: 2.5, cache_read: 0.2 });
+    expect(table.opus).toEqual({ input: 1, output: 1, cache_write: 1.25, cache_read: 0 });
+    expect(table['claude-sonnet-4-5']).toBe(DEFAULT_PRICING['claude-sonnet-4-5']);
+  });
+
+  test('rejects malformed tables and prices', () => {
+    expect(() => parsePricingOverrides([])).toThrow(PricingConfigError);
+    expect(() => parsePricingOverrides({ m: 5 })).toThrow('m must be an object');
+    expect(() => parsePricingOverrides({ m: { input: 1 } })).toThrow('input and output');
+    expect(() => parsePricingOverrides({ m: { input: -1, output: 1 } })).toThrow(PricingConfigError);
+    expect(() => parsePricingOverrides({ m: { input: 1, output: 1, cache_write: '2' } })).toThrow('cache prices');
+  });
+});
+
+describe('loadPricingConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'visualizer-pricing-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('uses the defaults when unset', () => {
+    expect(loadPricingConfig({})).toBe(DEFAULT_PRICING);
+  });
+
+  test('reads overrides from the configured file', () => {
+    const path = join(dir, 'pricing.json');
+    writeFileSync(path, JSON.stringify({ 'local-model': { input: 0, output: 0 } }));
+    expect(loadPricingConfig({ CLAUDE_VISUALIZER_PRICING: path })['local-model']).toMatchObject({ input: 0 });
+  });
+
+  test('reports unreadable files', () => {
+    const path = join(dir, 'missing.json');
+    expect(() => loadPricingConfig({ CLAUDE_VISUALIZER_PRICING: path })).toThrow(`cannot read ${path}`);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Session usage
+// ---------------------------------------------------------------------------
+
+describe('getSessionUsage', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('sums the latest usage of each agent and prices it by model', () => {
+    store(db, sessionStarted('s1', 0, 'claude-sonnet-4-5'));
+    store(db, tokenUsage('s1', 's1', 1, counts(100, 10)));
+    store(db, agentSpawned('s1', 'sub-1', 2, 'claude-haiku-4-5'));
+    store(db, tokenUsage('s1', 'sub-1', 3, counts(1_000_000, 0)));
+    // The main agent's next turn: cumulative, so it replaces the first report
+    store(db, tokenUsage('s1', 's1', 4, counts(1_000_000, 100_000), 'claude-opus-4-6'));
+
+    const usage = getSessionUsage(db, 's1')!;
+    expect(usage.agents.map((a) => [a.agent_id, a.model])).toEqual([
+      ['s1', 'claude-opus-4-6'],
+      ['sub-1', 'claude-haiku-4-5'],
+    ]);
+    expect(usage.agents[0].cost_usd).toBeCloseTo(5 + 2.5);
+    expect(usage.agents[1].cost_usd).toBeCloseTo(1);
+    expect(usage.usage).toEqual(counts(2_000_000, 100_000));
+    expect(usage.cost_usd).toBeCloseTo(8.5);
+    expect(usage.unpriced_models).toEqual([]);
+  });
+
+  test('reports models it cannot price', () => {
+    store(db, sessionStarted('s1', 0, 'local-llama'));
+    store(db, tokenUsage('s1', 's1', 1, counts(10, 10)));
+
+    expect(getSessionUsage(db, 's1')).toMatchObject({ cost_usd: null, unpriced_models: ['local-llama'] });
+    const custom = parsePricingOverrides({ 'local-llama': { input: 1_000_000, output: 0 } });
+    expect(getSessionUsage(db, 's1', custom)?.cost_usd).toBeCloseTo(10);
+  });
+
+  test('has zero usage before any agent reports, and null for unknown sessions', () => {
+    store(db, sessionStarted('s1', 0));
+    expect(getSessionUsage(db, 's1')).toEqual({
+      session_id: 's1',
+      usage: counts(0, 0),
+      cost_usd: null,
+      unpriced_models: [],
+      agents: [],
+    });
+    expect(getSessionUsage(db, 'missing')).toBeNull();
+  });
+
+  test('getUsageBySession and getSessionSummaries cover every session', () => {
+    store(db, sessionStarted('s1', 0));
+    store(db, tokenUsage('s1', 's1', 1, counts(1_000_000, 0)));
+    store(db, sessionStarted('s2', 2));
+
+    expect([...getUsageBySession(db).keys()]).toEqual(['s1']);
+    expect(getSessionSummaries(db).map((s) => [s.session_id, s.usage?.input_tokens ?? null, s.cost_usd])).toEqual([
+      ['s2', null, null],
+      ['s1', 1_000_000, 3],
+    ]);
+  });
+});
+
+describe('agent_usage table', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+  });
+
+  test('keeps the most recent report when an older one is stored later', () => {
+    store(db, sessionStarted('s1', 0));
+    store(db, tokenUsage('s1', 's1', 5, counts(500, 50), 'claude-opus-4-6'));
+    store(db, tokenUsage('s1', 's1', 2, counts(100, 10), 'claude-haiku-4-5'));
+
+    expect(getSessionUsage(db, 's1')!.agents).toMatchObject([
+      { agent_id: 's1', model: 'claude-opus-4-6', usage: counts(500, 50) },
+    ]);
+  });
+
+  test('deleting the events forgets the usage', () => {
+    store(db, sessionStarted('s1', 0));
+    store(db, tokenUsage('s1', 's1', 1, counts(10, 10)));
+    db.run('DELETE FROM events');
+    expect(db.prepare('SELECT COUNT(*) AS n FROM agent_usage').get()).toEqual({ n: 0 });
+  });
+
+  test('the migration records usage stored before it existed', () => {
+    const legacy = new Database(':memory:');
+    migrate(legacy, MIGRATIONS.slice(0, MIGRATIONS.findIndex((m) => m.name === 'agent_usage table')));
+    store(legacy, sessionStarted('s1', 0, 'claude-haiku-4-5'));
+    store(legacy, tokenUsage('s1', 's1', 2, counts(1_000_000, 0)));
+    store(legacy, tokenUsage('s1', 's1', 1, counts(10, 0)));
+
+    migrate(legacy);
+    expect(getSessionUsage(legacy, 's1')).toMatchObject({ usage: counts(1_000_000, 0), cost_usd: 1 });
+  });
+});
@@ -83,14 +83,32 @@ const eventFactories: Record<string, () => Record<string, unknown>> = {
     makeEvent('ContextCompaction', {
       context_pressure: 0.85,
     }),
+  TokenUsage: () =>
+    makeEvent('TokenUsage', {
+      agent_id: 'session-uuid-5678',
+      model: 'claude-opus-4-6',
+      total: {
+        input_tokens: 120,
+        output_tokens: 800,
+        cache_creation_input_tokens: 5000,
+        cache_read_input_tokens: 2000,
+      },
+      turn: { input_tokens: 20, output_tokens: 300, cache_creation_input_tokens: 0, cache_read_input_tokens: 1000 },
+      responses: 4,
+    }),
 };
 
+/** A fully valid event of `type` with `extra` fields merged over it. */
+function makeValidEvent(type: string, extra: Record<string, unknown> = {}) {
+  return { ...eventFactories[type](), ...extra };
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
 
 describe('validateEvent', () => {
-  // ---- Valid events for all 11 types ----
+  // ---- Valid events for all 12 types ----
   describe('valid events', () => {
     for (const [type, factory] of Object.entries(eventFactories)) {
       test(`accepts a valid ${type} event`, () => {
@@ -105,8 +123,8 @@ describe('validateEvent', () => {
       });
     }
 
-    test('covers all 11 event types', () => {
-      expect(Object.keys(eventFactories)).toHaveLength(11);
+    test('covers all 12 event types', () => {
+      expect(Object.keys(eventFactories)).toHaveLength(12);
     });
 
     test('returns the parsed event object on success', () => {
@@ -410,7 +428,7 @@ describe('validateEvent', () => {
   // ---- String length limits ----
   describe('string length limits', () => {
     test('rejects when id exceeds 256 characters', () => {
-      const body = makeEvent('SessionStarted', { id: 'x'.repeat(257) });
+      const body = makeValidEvent('SessionStarted', { id: 'x'.repeat(257) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(false);
       expect(result.error).toBe('"id" exceeds maximum length of 256 characters');
@@ -418,14 +436,14 @@ describe('validateEvent', () => {
     });
 
     test('accepts id at exactly 256 characters', () => {
-      const body = makeEvent('SessionStarted', { id: 'x'.repeat(256) });
+      const body = makeValidEvent('SessionStarted', { id: 'x'.repeat(256) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(true);
       expect(event).not.toBeNull();
     });
 
     test('rejects when timestamp exceeds 64 characters', () => {
-      const body = makeEvent('SessionStarted', { timestamp: 'x'.repeat(65) });
+      const body = makeValidEvent('SessionStarted', { timestamp: 'x'.repeat(65) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(false);
       expect(result.error).toBe('"timestamp" exceeds maximum length of 64 characters');
@@ -433,14 +451,14 @@ describe('validateEvent', () => {
     });
 
     test('accepts timestamp at exactly 64 characters', () => {
-      const body = makeEvent('SessionStarted', { timestamp: 'x'.repeat(64) });
+      const body = makeValidEvent('SessionStarted', { timestamp: 'x'.repeat(64) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(true);
       expect(event).not.toBeNull();
     });
 
     test('rejects when session_id exceeds 256 characters', () => {
-      const body = makeEvent('SessionStarted', { session_id: 'x'.repeat(257) });
+      const body = makeValidEvent('SessionStarted', { session_id: 'x'.repeat(257) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(false);
       expect(result.error).toBe('"session_id" exceeds maximum length of 256 characters');
@@ -448,7 +466,7 @@ describe('validateEvent', () => {
     });
 
     test('accepts session_id at exactly 256 characters', () => {
-      const body = makeEvent('SessionStarted', { session_id: 'x'.repeat(256) });
+      const body = makeValidEvent('SessionStarted', { session_id: 'x'.repeat(256) });
       const { event, result } = validateEvent(body);
       expect(result.valid).toBe(true);
       expect(event).not.toBeNull();
@@ -459,7 +477,7 @@ describe('validateEvent', () => {
   describe('payload size limit', () => {
     test('rejects when overall payload exceeds 64KB', () => {
       // Create a payload with a very large extra field to push it over 64KB
-      const body = makeEvent('SessionStarted', {
+      const body = makeValidEvent('SessionStarted', {
         big_field: 'x'.repeat(65_536),
       });
       const { event, result } = validateEvent(body);
@@ -470,7 +488,7 @@ describe('validateEvent', () => {
 
     test('accepts payload at exactly 64KB', () => {
       // Build a payload and pad it to exactly 64KB
-      const base = makeEvent('SessionStarted');
+      const base = makeValidEvent('SessionStarted');
       const baseSize = JSON.stringify(base).length;
       // We need total to be exactly 65536.
       // Adding a field: {"pad":"..."} adds ~9 chars of overhead for key+quotes+colon+comma
@@ -507,4 +525,97 @@ describe('validateEvent', () => {
       expect(result.error).toBe('Missing or invalid "session_id" field');
     });
   });
+
+  // ---- Type-specific fields ----
+  describe('type-specific fields', () => {
+    test('rejects ToolCallStarted without tool_use_id', () => {
+      const input = eventFactories.ToolCallStarted();
+      delete input.tool_use_id;
+      const { event, result } = validateEvent(input);
+      expect(event).toBeNull();
+      expect(result).toEqual({
+        valid: false,
+        error: 'Missing "tool_use_id" field for ToolCallStarted event',
+        path: 'tool_use_id',
+      });
+    });
+
+    test('rejects ContextCompaction with a string context_pressure', () => {
+      const { event, result } = validateEvent(makeValidEvent('ContextCompaction', { context_pressure: '0.8' }));
+      expect(event).toBeNull();
+      expect(result.path).toBe('context_pressure');
+      expect(result.error).toBe('Invalid "context_pressure" field for ContextCompaction event: expected finite number');
+    });
+
+    test('rejects a non-finite number', () => {
+      const { result } = validateEvent(makeValidEvent('ToolCallCompleted', { duration_ms: null }));
+      expect(result.path).toBe('duration_ms');
+    });
+
+    test('accepts null for nullable fields', () => {
+      const { result } = validateEvent(makeValidEvent('ToolCallCompleted', { tool_response: null }));
+      expect(result.valid).toBe(true);
+    });
+
+    test('stores a structured tool_response from older hooks as JSON text', () => {
+      const input = makeValidEvent('ToolCallCompleted', { tool_response: { stdout: 'x' } });
+      const { event, result } = validateEvent(input);
+      expect(result.valid).toBe(true);
+      expect(event).toMatchObject({ tool_response: '{"stdout":"x"}' });
+      expect(input.tool_response).toEqual({ stdout: 'x' });
+    });
+
+    test('rejects a tool_response that is neither text nor structured', () => {
+      const { result } = validateEvent(makeValidEvent('ToolCallCompleted', { tool_response: 42 }));
+      expect(result).toEqual({
+        valid: false,
+        error: 'Invalid "tool_response" field for ToolCallCompleted event: expected string or null',
+        path: 'tool_response',
+      });
+    });
+
+    test('rejects null for non-nullable fields', () => {
+      const { result } = validateEvent(makeValidEvent('AgentSpawned', { agent_id: null }));
+      expect(result.path).toBe('agent_id');
+    });
+
+    test('rejects an array tool_input', () => {
+      const { result } = validateEvent(makeValidEvent('ToolCallStarted', { tool_input: ['a'] }));
+      expect(result.path).toBe('tool_input');
+      expect(result.error).toContain('expected object');
+    });
+
+    test('rejects an unknown notification_type', () => {
+      const { result } = validateEvent(makeValidEvent('WaitingForUser', { notification_type: 'alert' }));
+      expect(result.path).toBe('notification_type');
+      expect(result.error).toContain('"notification" | "permission_request"');
+    });
+
+    test('rejects token counts that are missing, negative or fractional', () => {
+      const total = { input_tokens: 1, output_tokens: 2, cache_creation_input_tokens: 3, cache_read_input_tokens: 4 };
+      const invalid = [
+        { ...total, output_tokens: undefined },
+        { ...total, input_tokens: -1 },
+        { ...total, cache_read_input_tokens: 1.5 },
+      ];
+      const paths = invalid.map((bad) => validateEvent(makeValidEvent('TokenUsage', { total: bad })).result.path);
+      expect(paths).toEqual(['total.output_tokens', 'total.input_tokens', 'total.cache_read_input_tokens']);
+      expect(validateEvent(makeValidEvent('TokenUsage', { turn: 'lots' })).result.path).toBe('turn');
+      expect(validateEvent(makeValidEvent('TokenUsage', { responses: -2 })).result.path).toBe('responses');
+    });
+
+    test('names the full dotted path of nested fields', () => {
+      const turn = { input_tokens: 1, output_tokens: 2, cache_creation_input_tokens: 3, cache_read_input_tokens: 'x' };
+      expect(validateEvent(makeValidEvent('TokenUsage', { turn })).result).toEqual({
+        valid: false,
+        error: 'Invalid "turn.cache_read_input_tokens" field for TokenUsage event: expected non-negative integer',
+        path: 'turn.cache_read_input_tokens',
+      });
+    });
+
+    test('reports the path of base field errors', () => {
+      const { result } = validateEvent(makeValidEvent('UserPrompt', { session_id: 7 }));
+      expect(result.path).toBe('session_id');
+    });
+  });
 });
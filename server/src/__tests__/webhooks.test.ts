@@ -0,0 +1,253 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createWebhookDispatcher,
+  loadWebhookConfig,
+  parseWebhooks,
+  renderTemplate,
+  WebhookConfigError,
+  DEFAULT_WEBHOOK_EVENTS,
+  DELIVERY_LOG_SIZE,
+  type WebhookConfig,
+} from '../webhooks';
+import type { VisualizerEvent } from '@shared/events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let counter = 0;
+
+function waiting(message = 'Claude needs your permission'): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'WaitingForUser',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    session_id: 'session-1',
+    notification_type: 'permission_request',
+    message,
+  };
+}
+
+function toolStarted(): VisualizerEvent {
+  return {
+    id: `evt-${++counter}`,
+    type: 'ToolCallStarted',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    session_id: 'session-1',
+    tool_name: 'Bash',
+    tool_input: { command: 'ls -la' },
+    tool_use_id: 'tu-1',
+  };
+}
+
+function webhook(overrides: Partial<WebhookConfig> = {}): WebhookConfig {
+  return { url: 'http://localhost:9000/hook', events: ['WaitingForUser'], template: null, headers: {}, ...overrides };
+}
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** A fetch stand-in answering with `statuses` in turn (a thrown error for null), then 200. */
+function fakeFetch(statuses: (number | null)[] = []) {
+  const sent: SentRequest[] = [];
+  const fetch = async (url: string, init: RequestInit) => {
+    sent.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) });
+    const status = statuses.length > 0 ? statuses.shift()! : 200;
+    if (status === null) throw new Error('connection refused');
+    return new Response(null, { status });
+  };
+  return { sent, fetch };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+describe('parseWebhooks', () => {
+  test('applies defaults', () => {
+    expect(parseWebhooks([{ url: 'http://127.0.0.1:8080/notify' }])).toEqual([
+      { url: 'http://127.0.0.1:8080/notify', events: DEFAULT_WEBHOOK_EVENTS, template: null, headers: {} },
+    ]);
+  });
+
+  test('accepts loopback URLs only', () => {
+    expect(() => parseWebhooks([{ url: 'http://[::1]:8080/' }, { url: 'https://localhost/' }])).not.toThrow();
+    for (const url of ['http://example.com/hook', 'http://10.0.0.1/', 'file:///tmp/x', 'not a url']) {
+      expect(() => parseWebhooks([{ url }])).toThrow(WebhookConfigError);
+    }
+  });
+
+  test('rejects unknown event types and malformed fields', () => {
+    expect(() => parseWebhooks({ url: 'http://localhost/' })).toThrow('expected an array');
+    expect(() => parseWebhooks([{ url: 'http://localhost/', events: ['Nope'] }])).toThrow('events');
+    expect(() => parseWebhooks([{ url: 'http://localhost/', headers: { 'X-N': 1 } }])).toThrow('headers');
+  });
+});
+
+describe('loadWebhookConfig', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  test('has no webhooks when unset', () => {
+    expect(loadWebhookConfig({})).toEqual([]);
+  });
+
+  test('reads the file named by CLAUDE_VISUALIZER_WEBHOOKS', () => {
+    const tmp = (dir = mkdtempSync(join(tmpdir(), 'visualizer-webhooks-')));
+    const path = join(tmp, 'webhooks.json');
+    writeFileSync(path, JSON.stringify([{ url: 'http://localhost:9000/', events: ['SessionEnded'] }]));
+    expect(loadWebhookConfig({ CLAUDE_VISUALIZER_WEBHOOKS: path })[0].events).toEqual(['SessionEnded']);
+
+    writeFileSync(path, '{ not json');
+    expect(() => loadWebhookConfig({ CLAUDE_VISUALIZER_WEBHOOKS: path })).toThrow(WebhookConfigError);
+    expect(() => loadWebhookConfig({ CLAUDE_VISUALIZER_WEBHOOKS: join(tmp, 'missing.json') })).toThrow('cannot read');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+describe('renderTemplate', () => {
+  test('substitutes event fields, keeping the type of whole-string placeholders', () => {
+    const event = toolStarted();
+    const rendered = renderTemplate(
+      {
+        text: '{{tool_name}} in {{ session_id }}: {{tool_input.command}}',
+        input: '{{tool_input}}',
+        kind: '{{event.type}}',
+        tags: ['visualizer', '{{type}}'],
+        count: 1,
+      },
+      event,
+    );
+    expect(rendered).toEqual({
+      text: 'Bash in session-1: ls -la',
+      input: { command: 'ls -la' },
+      kind: 'ToolCallStarted',
+      tags: ['visualizer', 'ToolCallStarted'],
+      count: 1,
+    });
+  });
+
+  test('renders the whole event and unknown fields', () => {
+    const event = waiting();
+    expect(renderTemplate({ event: '{{event}}', missing: '{{nope}}', text: 'x{{nope.deeper}}y' }, event)).toEqual({
+      event,
+      missing: null,
+      text: 'xy',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+describe('createWebhookDispatcher', () => {
+  test('posts subscribed events only', async () => {
+    const { sent, fetch } = fakeFetch();
+    const dispatcher = createWebhookDispatcher([webhook({ headers: { Authorization: 'Bearer t' } })], { fetch });
+    const event = waiting();
+    dispatcher.dispatch(toolStarted());
+    dispatcher.dispatch(event);
+    await dispatcher.drain();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].url).toBe('http://localhost:9000/hook');
+    expect(sent[0].headers).toEqual({ Authorization: 'Bearer t', 'Content-Type': 'application/json' });
+    expect(sent[0].body).toEqual(event);
+    expect(dispatcher.deliveries()).toMatchObject([
+      { event_id: event.id, event_type: 'WaitingForUser', status: 'delivered', attempts: 1, response_status: 200, error: null },
+    ]);
+  });
+
+  test('sends the rendered template', async () => {
+    const { sent, fetch } = fakeFetch();
+    const dispatcher = createWebhookDispatcher([webhook({ template: { text: '{{message}}' } })], { fetch });
+    dispatcher.dispatch(waiting('Approve rm -rf?'));
+    await dispatcher.drain();
+    expect(sent[0].body).toEqual({ text: 'Approve rm -rf?' });
+  });
+
+  test('retries network errors and server errors with backoff', async () => {
+    const { sent, fetch } = fakeFetch([null, 503]);
+    const dispatcher = createWebhookDispatcher([webhook()], { fetch, baseDelayMs: 1 });
+    dispatcher.dispatch(waiting());
+    expect(dispatcher.deliveries()[0].status).toBe('pending');
+
+    await dispatcher.drain();
+    expect(sent).toHaveLength(3);
+    expect(dispatcher.deliveries()[0]).toMatchObject({ status: 'delivered', attempts: 3, error: null });
+  });
+
+  test('gives up after the maximum attempts', async () => {
+    const { sent, fetch } = fakeFetch([500, 500, 500]);
+    const dispatcher = createWebhookDispatcher([webhook()], { fetch, baseDelayMs: 1, maxAttempts: 2 });
+    dispatcher.dispatch(waiting());
+    await dispatcher.drain();
+    expect(sent).toHaveLength(2);
+    expect(dispatcher.deliveries()[0]).toMatchObject({ status: 'failed', attempts: 2, response_status: 500, error: 'HTTP 500' });
+  });
+
+  test('does not retry client errors', async () => {
+    const { sent, fetch } = fakeFetch([404]);
+    const dispatcher = createWebhookDispatcher([webhook()], { fetch, baseDelayMs: 1 });
+    dispatcher.dispatch(waiting());
+    await dispatcher.drain();
+    expect(sent).toHaveLength(1);
+    expect(dispatcher.deliveries()[0]).toMatchObject({ status: 'failed', response_status: 404 });
+  });
+
+  test('filters and limits the delivery log, newest first', async () => {
+    const { fetch } = fakeFetch([404]);
+    const dispatcher = createWebhookDispatcher([webhook()], { fetch });
+    const first = waiting();
+    const second = waiting();
+    const third = waiting();
+    for (const event of [first, second, third]) dispatcher.dispatch(event);
+    await dispatcher.drain();
+
+    expect(dispatcher.deliveries().map((d) => d.event_id)).toEqual([third.id, second.id, first.id]);
+    expect(dispatcher.deliveries({ status: 'failed' }).map((d) => d.event_id)).toEqual([first.id]);
+    expect(dispatcher.deliveries({ limit: 1 }).map((d) => d.event_id)).toEqual([third.id]);
+  });
+
+  test('keeps only the most recent deliveries', async () => {
+    const { fetch } = fakeFetch();
+    const dispatcher = createWebhookDispatcher([webhook()], { fetch });
+    for (let i = 0; i < DELIVERY_LOG_SIZE + 5; i++) dispatcher.dispatch(waiting());
+    await dispatcher.drain();
+    expect(dispatcher.deliveries()).toHaveLength(DELIVERY_LOG_SIZE);
+  });
+
+  test('delivers to a real local endpoint', async () => {
+    const received: unknown[] = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        received.push(await req.json());
+        return new Response('ok');
+      },
+    });
+    try {
+      const dispatcher = createWebhookDispatcher([webhook({ url: `http://127.0.0.1:${server.port}/`, template: { id: '{{id}}' } })]);
+      const event = waiting();
+      dispatcher.dispatch(event);
+      await dispatcher.drain();
+      expect(received).toEqual([{ id: event.id }]);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -2,7 +2,8 @@ import { describe, test, expect, beforeEach } from 'bun:test';
 import type { Database } from 'bun:sqlite';
 import type { ServerWebSocket } from 'bun';
 import { initDatabase, insertEvent } from '../database';
-import { createWebSocketHandler, type WebSocketHandler } from '../websocket';
+import { createWebSocketHandler, RESUME_PAGE_SIZE, type WebSocketHandler } from '../websocket';
+import { createMetrics } from '../metrics';
 import type { ServerMessage } from '@shared/messages';
 
 // ---------------------------------------------------------------------------
@@ -12,20 +13,38 @@ import type { ServerMessage } from '@shared/messages';
 interface MockWebSocket {
   sentMessages: string[];
   closed: boolean;
+  terminated: boolean;
+  pings: number;
+  bufferedAmount: number;
   sendText(msg: string): void;
   close(): void;
+  terminate(): void;
+  ping(): void;
+  getBufferedAmount(): number;
 }
 
 function createMockWs(): MockWebSocket {
   return {
     sentMessages: [],
     closed: false,
+    terminated: false,
+    pings: 0,
+    bufferedAmount: 0,
     sendText(msg: string) {
       this.sentMessages.push(msg);
     },
     close() {
       this.closed = true;
     },
+    terminate() {
+      this.terminated = true;
+    },
+    ping() {
+      this.pings++;
+    },
+    getBufferedAmount() {
+      return this.bufferedAmount;
+    },
   };
 }
 
@@ -46,15 +65,19 @@ function makeEvent(overrides: Record<string, unknown> = {}) {
   return { ...base, ...overrides };
 }
 
-function seedEvent(db: Database, overrides: Record<string, unknown> = {}) {
+function seedEvent(db: Database, overrides: Record<string, unknown> = {}, historical = false) {
   const event = makeEvent(overrides);
-  insertEvent(db, {
-    id: event.id as string,
-    type: event.type as string,
-    session_id: event.session_id as string,
-    timestamp: event.timestamp as string,
-    payload: JSON.stringify(event),
-  });
+  insertEvent(
+    db,
+    {
+      id: event.id as string,
+      type: event.type as string,
+      session_id: event.session_id as string,
+      timestamp: event.timestamp as string,
+      payload: JSON.stringify(event),
+    },
+    { historical },
+  );
   return event;
 }
 
@@ -307,6 +330,212 @@ describe('WebSocket handler', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // message handler — resume
+  // -----------------------------------------------------------------------
+  describe('resume message', () => {
+    type History = { type: 'history'; data: Array<{ id: string }>; lastSeq: number; hasMore: boolean };
+
+    function resume(mock: MockWebSocket, payload: Record<string, unknown>): History {
+      wsHandler.handlers.message(
+        mock as unknown as ServerWebSocket<unknown>,
+        JSON.stringify({ type: 'resume', ...payload }),
+      );
+      const messages = parseSent(mock);
+      return messages[messages.length - 1] as unknown as History;
+    }
+
+    test('subscribe history reports the latest seq', () => {
+      seedEvent(db, { id: 'e1' });
+      seedEvent(db, { id: 'e2' });
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+      wsHandler.handlers.message(mock as unknown as ServerWebSocket<unknown>, JSON.stringify({ type: 'subscribe' }));
+
+      const history = parseSent(mock)[1] as unknown as History;
+      expect(history.lastSeq).toBe(2);
+      expect(history.hasMore).toBe(false);
+    });
+
+    test('returns only events after afterSeq, in seq order', () => {
+      seedEvent(db, { id: 'e1', timestamp: '2025-01-01T00:00:02Z' });
+      seedEvent(db, { id: 'e2', timestamp: '2025-01-01T00:00:02Z' });
+      seedEvent(db, { id: 'e3', timestamp: '2025-01-01T00:00:01Z' });
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+
+      const history = resume(mock, { afterSeq: 1 });
+      expect(history.data.map((e) => e.id)).toEqual(['e2', 'e3']);
+      expect(history.lastSeq).toBe(3);
+      expect(history.hasMore).toBe(false);
+    });
+
+    test('pages large gaps with hasMore', () => {
+      for (let i = 0; i < RESUME_PAGE_SIZE + 5; i++) {
+        seedEvent(db, { id: `p${i}` });
+      }
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+
+      const first = resume(mock, { afterSeq: 0 });
+      expect(first.data.length).toBe(RESUME_PAGE_SIZE);
+      expect(first.hasMore).toBe(true);
+      expect(first.lastSeq).toBe(RESUME_PAGE_SIZE);
+
+      const second = resume(mock, { afterSeq: first.lastSeq });
+      expect(second.data.length).toBe(5);
+      expect(second.hasMore).toBe(false);
+      expect(second.lastSeq).toBe(RESUME_PAGE_SIZE + 5);
+    });
+
+    test('leaves backfilled and imported events out of resumes and the default history', () => {
+      seedEvent(db, { id: 'live-1', timestamp: '2025-06-01T00:00:01Z' });
+      seedEvent(db, { id: 'old-1', session_id: 'session-old', timestamp: '2025-01-01T00:00:00Z' }, true);
+      seedEvent(db, { id: 'live-2', timestamp: '2025-06-01T00:00:02Z' });
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+
+      const resumed = resume(mock, { afterSeq: 1 });
+      expect(resumed.data.map((e) => e.id)).toEqual(['live-2']);
+      expect(resumed.lastSeq).toBe(3);
+
+      wsHandler.handlers.message(mock as unknown as ServerWebSocket<unknown>, JSON.stringify({ type: 'subscribe' }));
+      expect((parseSent(mock).at(-1) as unknown as History).data.map((e) => e.id)).toEqual(['live-1', 'live-2']);
+
+      // Asking for the session by id loads its history, e.g. to jump to a search hit
+      wsHandler.handlers.message(
+        mock as unknown as ServerWebSocket<unknown>,
+        JSON.stringify({ type: 'subscribe', sessionId: 'session-old' }),
+      );
+      expect((parseSent(mock).at(-1) as unknown as History).data.map((e) => e.id)).toEqual(['old-1']);
+    });
+
+    test('applies the filter and still advances lastSeq to the head', () => {
+      seedEvent(db, { id: 'a1', session_id: 'session-A' });
+      seedEvent(db, { id: 'b1', session_id: 'session-B' });
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+
+      const history = resume(mock, { afterSeq: 0, filter: { sessionIds: ['session-A'] } });
+      expect(history.data.map((e) => e.id)).toEqual(['a1']);
+      expect(history.lastSeq).toBe(2);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // subscription filters
+  // -----------------------------------------------------------------------
+  describe('subscription filters', () => {
+    function subscribe(mock: MockWebSocket, payload: Record<string, unknown>) {
+      wsHandler.handlers.message(
+        mock as unknown as ServerWebSocket<unknown>,
+        JSON.stringify({ type: 'subscribe', ...payload }),
+      );
+    }
+
+    test('filter narrows the history', () => {
+      seedEvent(db, { id: 'e1', session_id: 'session-A', timestamp: '2025-01-01T00:00:01Z' });
+      seedEvent(db, { id: 'e2', session_id: 'session-B', timestamp: '2025-01-01T00:00:02Z' });
+      seedEvent(db, {
+        id: 'e3',
+        type: 'UserPrompt',
+        session_id: 'session-A',
+        timestamp: '2025-01-01T00:00:03Z',
+        prompt_text: 'hi',
+      });
+
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+      subscribe(mock, { filter: { sessionIds: ['session-A'], eventTypes: ['SessionStarted'] } });
+
+      const history = parseSent(mock)[1] as { type: 'history'; data: Array<{ id: string }> };
+      expect(history.data.map((e) => e.id)).toEqual(['e1']);
+    });
+
+    test('filter applies to live broadcasts', () => {
+      const pinned = createMockWs();
+      const all = createMockWs();
+      wsHandler.handlers.open(pinned as unknown as ServerWebSocket<unknown>);
+      wsHandler.handlers.open(all as unknown as ServerWebSocket<unknown>);
+      subscribe(pinned, { filter: { sessionIds: ['session-A'] } });
+
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent({ session_id: 'session-B' }) as never });
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent({ session_id: 'session-A' }) as never });
+
+      const pinnedEvents = parseSent(pinned).filter((m) => m.type === 'event');
+      expect(pinnedEvents.length).toBe(1);
+      expect((pinnedEvents[0] as { data: { session_id: string } }).data.session_id).toBe('session-A');
+      expect(parseSent(all).filter((m) => m.type === 'event').length).toBe(2);
+    });
+
+    test('rate-limit notices only reach clients whose filter covers the session', () => {
+      const pinned = createMockWs();
+      const all = createMockWs();
+      wsHandler.handlers.open(pinned as unknown as ServerWebSocket<unknown>);
+      wsHandler.handlers.open(all as unknown as ServerWebSocket<unknown>);
+      subscribe(pinned, { filter: { sessionIds: ['session-A'] } });
+
+      const notice = (sessionId: string) =>
+        ({ type: 'rate_limited', sessionId, dropped: 1, retryAfterSeconds: 1 }) as const;
+      wsHandler.broadcast(notice('session-B'));
+      wsHandler.broadcast(notice('session-A'));
+
+      const pinnedNotices = parseSent(pinned).filter((m) => m.type === 'rate_limited');
+      expect(pinnedNotices).toEqual([notice('session-A')]);
+      expect(parseSent(all).filter((m) => m.type === 'rate_limited')).toHaveLength(2);
+    });
+
+    test('agentIds match spawned sub-agents and messages', () => {
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+      subscribe(mock, { filter: { agentIds: ['agent-7'] } });
+
+      wsHandler.broadcast({
+        type: 'event',
+        seq: 1,
+        data: makeEvent({ type: 'AgentSpawned', session_id: 'session-A', agent_id: 'agent-7' }) as never,
+      });
+      wsHandler.broadcast({
+        type: 'event',
+        seq: 2,
+        data: makeEvent({ type: 'MessageSent', session_id: 'session-A', from_agent: 'session-A', to_agent: 'agent-7' }) as never,
+      });
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent({ session_id: 'session-A' }) as never });
+
+      expect(parseSent(mock).filter((m) => m.type === 'event').length).toBe(2);
+    });
+
+    test('subscribe without a filter keeps the current one; {} clears it', () => {
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+      subscribe(mock, { filter: { sessionIds: ['session-A'] } });
+      subscribe(mock, { sessionId: 'session-A' });
+
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent({ session_id: 'session-B' }) as never });
+      expect(parseSent(mock).filter((m) => m.type === 'event').length).toBe(0);
+
+      subscribe(mock, { filter: {} });
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent({ session_id: 'session-B' }) as never });
+      expect(parseSent(mock).filter((m) => m.type === 'event').length).toBe(1);
+    });
+
+    test('replay honours the connection filter', () => {
+      seedEvent(db, { id: 'e1', session_id: 'session-A', timestamp: '2025-01-01T00:00:01Z' });
+      seedEvent(db, { id: 'e2', session_id: 'session-B', timestamp: '2025-01-01T00:00:02Z' });
+
+      const mock = createMockWs();
+      wsHandler.handlers.open(mock as unknown as ServerWebSocket<unknown>);
+      subscribe(mock, { filter: { sessionIds: ['session-B'] } });
+      wsHandler.handlers.message(
+        mock as unknown as ServerWebSocket<unknown>,
+        JSON.stringify({ type: 'replay', fromTimestamp: '2025-01-01T00:00:00Z' }),
+      );
+
+      const replay = parseSent(mock)[2] as { type: 'history'; data: Array<{ id: string }> };
+      expect(replay.data.map((e) => e.id)).toEqual(['e2']);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // broadcast
   // -----------------------------------------------------------------------
@@ -318,7 +547,7 @@ describe('WebSocket handler', () => {
       wsHandler.handlers.open(mock2 as unknown as ServerWebSocket<unknown>);
 
       const event = makeEvent();
-      wsHandler.broadcast({ type: 'event', data: event as never });
+      wsHandler.broadcast({ type: 'event', seq: 1, data: event as never });
 
       // Each client gets connected + broadcast
       const messages1 = parseSent(mock1);
@@ -340,7 +569,7 @@ describe('WebSocket handler', () => {
       // Disconnect mock2
       wsHandler.handlers.close(mock2 as unknown as ServerWebSocket<unknown>);
 
-      wsHandler.broadcast({ type: 'event', data: makeEvent() as never });
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent() as never });
 
       // mock1 gets connected + event, mock2 only gets connected (from open)
       expect(parseSent(mock1).length).toBe(2);
@@ -349,9 +578,88 @@ describe('WebSocket handler', () => {
 
     test('broadcast with no clients does not throw', () => {
       expect(() => {
-        wsHandler.broadcast({ type: 'event', data: makeEvent() as never });
+        wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent() as never });
       }).not.toThrow();
     });
+
+    test('counts bytes sent to each client in metrics', () => {
+      const metrics = createMetrics();
+      const handler = createWebSocketHandler(db, { metrics });
+      const mock1 = createMockWs();
+      const mock2 = createMockWs();
+      handler.handlers.open(mock1 as unknown as ServerWebSocket<unknown>);
+      handler.handlers.open(mock2 as unknown as ServerWebSocket<unknown>);
+
+      handler.broadcast({ type: 'event', seq: 1, data: makeEvent() as never });
+
+      const bytes = Buffer.byteLength(mock1.sentMessages[1]);
+      const output = metrics.render({ websocketClients: 2, sseClients: 0, dbSizeBytes: 0 });
+      expect(output).toContain(`visualizer_broadcast_bytes_total{transport="websocket"} ${bytes * 2}`);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // heartbeat
+  // -----------------------------------------------------------------------
+  describe('heartbeat', () => {
+    test('pings clients and evicts those that never answered', () => {
+      const responsive = createMockWs();
+      const dead = createMockWs();
+      wsHandler.handlers.open(responsive as unknown as ServerWebSocket<unknown>);
+      wsHandler.handlers.open(dead as unknown as ServerWebSocket<unknown>);
+
+      expect(wsHandler.checkHeartbeats()).toBe(0);
+      expect(responsive.pings).toBe(1);
+      expect(dead.pings).toBe(1);
+
+      wsHandler.handlers.pong(responsive as unknown as ServerWebSocket<unknown>);
+      expect(wsHandler.checkHeartbeats()).toBe(1);
+
+      expect(dead.terminated).toBe(true);
+      expect(responsive.terminated).toBe(false);
+      expect(responsive.pings).toBe(2);
+      expect(wsHandler.clientCount()).toBe(1);
+    });
+
+    test('evicted clients no longer receive broadcasts', () => {
+      const dead = createMockWs();
+      wsHandler.handlers.open(dead as unknown as ServerWebSocket<unknown>);
+      wsHandler.checkHeartbeats();
+      wsHandler.checkHeartbeats();
+
+      wsHandler.broadcast({ type: 'event', seq: 1, data: makeEvent() as never });
+      expect(parseSent(dead).length).toBe(1); // only connected
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // backpressure
+  // -----------------------------------------------------------------------
+  describe('backpressure', () => {
+    test('a slow client is told to resync and then skipped until it resumes', () => {
+      const handler = createWebSocketHandler(db, { maxBufferedBytes: 1000 });
+      const slow = createMockWs();
+      const fast = createMockWs();
+      handler.handlers.open(slow as unknown as ServerWebSocket<unknown>);
+      handler.handlers.open(fast as unknown as ServerWebSocket<unknown>);
+
+      slow.bufferedAmount = 5000;
+      handler.broadcast({ type: 'event', seq: 1, data: makeEvent() as never });
+      handler.broadcast({ type: 'event', seq: 2, data: makeEvent() as never });
+
+      expect(parseSent(slow).map((m) => m.type)).toEqual(['connected', 'resync']);
+      expect(parseSent(slow)[1]).toEqual({ type: 'resync', reason: 'backpressure' });
+      expect(parseSent(fast).map((m) => m.type)).toEqual(['connected', 'event', 'event']);
+
+      // Still lagging after draining, until it asks to resume
+      slow.bufferedAmount = 0;
+      handler.broadcast({ type: 'event', seq: 3, data: makeEvent() as never });
+      expect(parseSent(slow).length).toBe(2);
+
+      handler.handlers.message(slow as unknown as ServerWebSocket<unknown>, JSON.stringify({ type: 'resume', afterSeq: 0 }));
+      handler.broadcast({ type: 'event', seq: 4, data: makeEvent() as never });
+      expect(parseSent(slow).map((m) => m.type)).toEqual(['connected', 'resync', 'history', 'event']);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -0,0 +1,84 @@
+/**
+ * Session export / import as newline-delimited JSON (NDJSON) archives.
+ *
+ * An archive is one event payload per line, in chronological order. Imports
+ * validate every line with `validateEvent` and insert with `insertEvent`, so
+ * re-importing the same archive is idempotent (duplicate ids are skipped).
+ * Imported events are stored as historical: they are not broadcast, and
+ * resuming clients and the default subscribe history leave them out.
+ */
+import type { Database } from 'bun:sqlite';
+import { insertEvent } from './database';
+import { validateEvent } from './validation';
+
+export interface ImportLineError {
+  line: number;
+  error: string;
+  /** Offending field, for validation failures. */
+  path?: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  errors: ImportLineError[];
+}
+
+/** Serialize all events of a session as NDJSON, or null when the session is unknown. */
+export function exportSession(db: Database, sessionId: string): string | null {
+  const rows = db
+    .prepare('SELECT payload FROM events WHERE session_id = ? ORDER BY timestamp ASC, rowid ASC')
+    .all(sessionId) as { payload: string }[];
+  if (rows.length === 0) return null;
+  return rows.map((r) => r.payload).join('\n') + '\n';
+}
+
+/**
+ * Import an NDJSON archive. Blank lines are ignored; invalid lines are reported
+ * by 1-based line number and do not stop the rest of the import.
+ */
+export function importArchive(db: Database, ndjson: string): ImportResult {
+  const result: ImportResult = { imported: 0, skipped: 0, errors: [] };
+  const lines = ndjson.split(/\r?\n/);
+
+  const run = db.transaction(() => {
+    lines.forEach((raw, index) => {
+      const line = raw.trim();
+      if (!line) return;
+
+      let body: unknown;
+      try {
+        body = JSON.parse(line);
+      } catch {
+        result.errors.push({ line: index + 1, error: 'Invalid JSON' });
+        return;
+      }
+
+      const { event, result: validation } = validateEvent(body);
+      if (!event) {
+        result.errors.push({ line: index + 1, error: validation.error ?? 'Invalid event', path: validation.path });
+        return;
+      }
+
+      const seq = insertEvent(
+        db,
+        {
+          id: event.id,
+          type: event.type,
+          session_id: event.session_id,
+          timestamp: event.timestamp,
+          payload: JSON.stringify(event),
+        },
+        { historical: true },
+      );
+      if (seq !== null) {
+        result.imported++;
+      } else {
+        result.skipped++;
+      }
+    });
+  });
+  run();
+
+  return result;
+}
@@ -0,0 +1,96 @@
+/**
+ * Shared-secret authentication for the HTTP API and WebSocket upgrade.
+ *
+ * `claude-visualizer start` generates a random token, writes it to
+ * ~/.claude-visualizer/token (mode 0600) and passes it to the server via
+ * CLAUDE_VISUALIZER_TOKEN. Hooks send it in the X-Visualizer-Token header;
+ * Prometheus scrapers, which can only send credentials as
+ * `Authorization: Bearer`, may use that instead.
+ * Browsers cannot attach custom headers to WebSocket or EventSource requests,
+ * so opening any page with `?token=<token>` stores it in an HttpOnly cookie
+ * (the same flow Jupyter uses) and redirects to the clean URL.
+ *
+ * When no token is configured (dev server, or `start --no-auth`) every
+ * request is allowed.
+ */
+import { timingSafeEqual } from 'node:crypto';
+import { TOKEN_HEADER } from '@shared/connection';
+
+export const TOKEN_COOKIE = 'visualizer_token';
+export const TOKEN_QUERY_PARAM = 'token';
+
+export interface AuthGuard {
+  /** False when no token is configured — every request is then authorized. */
+  enabled: boolean;
+  /** Whether the request carries the token in a header (ours or a bearer token) or the cookie. */
+  isAuthorized(req: Request): boolean;
+  /**
+   * When `url` carries a valid `?token=`, returns a redirect to the same URL
+   * without it that sets the auth cookie; otherwise null.
+   */
+  loginRedirect(url: URL): Response | null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/** The credentials of an `Authorization: Bearer` header, or null when absent. */
+function bearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/** Extract a cookie value from a Cookie header, or null when absent. */
+export function readCookie(header: string | null, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    if (part.slice(0, eq).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+export function createAuthGuard(token: string | null): AuthGuard {
+  const enabled = !!token;
+
+  function matches(candidate: string | null): boolean {
+    return !!token && candidate !== null && safeEqual(candidate, token);
+  }
+
+  return {
+    enabled,
+
+    isAuthorized(req) {
+      if (!enabled) return true;
+      return (
+        matches(req.headers.get(TOKEN_HEADER)) ||
+        matches(bearerToken(req.headers.get('Authorization'))) ||
+        matches(readCookie(req.headers.get('Cookie'), TOKEN_COOKIE))
+      );
+    },
+
+    loginRedirect(url) {
+      if (!enabled || !matches(url.searchParams.get(TOKEN_QUERY_PARAM))) return null;
+
+      const clean = new URL(url.href);
+      clean.searchParams.delete(TOKEN_QUERY_PARAM);
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: clean.pathname + clean.search,
+          'Set-Cookie': `${TOKEN_COOKIE}=${encodeURIComponent(token!)}; Path=/; HttpOnly; SameSite=Strict`,
+        },
+      });
+    },
+  };
+}
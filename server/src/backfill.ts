@@ -0,0 +1,329 @@
+/**
+ * Backfill history from Claude Code transcripts written before the hooks
+ * were installed.
+ *
+ * Claude Code keeps a JSONL transcript per session under
+ * ~/.claude/projects/<project>/<session>.jsonl ($CLAUDE_CONFIG_DIR/projects
+ * when set). Each transcript is replayed into the events the hooks would have
+ * sent: SessionStarted, UserPrompt, ToolCallStarted/Completed/Failed,
+ * AgentSpawned/Completed for Task calls, TokenUsage and SessionEnded, all with
+ * the transcript's original timestamps.
+ *
+ * Event ids are derived from the session and the transcript entry or tool use
+ * they come from, so running the backfill again only adds what is new. The
+ * closing TokenUsage and SessionEnded are per session and are replaced when
+ * the transcript has grown, so totals are never counted twice.
+ * For sessions the hooks also recorded, such as a session resumed after they
+ * were installed, only the entries older than the first hook event are
+ * replayed. Subagent entries are skipped: subagents are reconstructed from
+ * the Task calls that started them.
+ * Like archive imports, backfilled events are stored as historical: they are
+ * not broadcast, and resuming clients and the default subscribe history leave
+ * them out, so old sessions never replay into the live scene.
+ */
+import { readdir, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, basename } from 'node:path';
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+import {
+  entryText,
+  isUserPrompt,
+  parseTranscriptLines,
+  summarizeTranscript,
+  type TranscriptEntry,
+} from '@shared/transcript';
+import { insertEvent } from './database';
+import { validateEvent } from './validation';
+
+/** Prefix of every backfilled event id. */
+export const BACKFILL_ID_PREFIX = 'backfill:';
+
+/** Tool names that start a subagent; Claude Code renamed Task to Agent. */
+const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+/** Same limits the hooks apply to tool input and output. */
+const STRING_MAX_LENGTH = 2048;
+const TOOL_INPUT_MAX_BYTES = 8192;
+
+/** Model name Claude Code writes on responses it synthesizes itself. */
+const SYNTHETIC_MODEL = '<synthetic>';
+
+export interface BackfillFileError {
+  file: string;
+  error: string;
+}
+
+export interface BackfillResult {
+  /** Transcript files read. */
+  files: number;
+  /** Sessions that gained at least one event. */
+  sessions: number;
+  imported: number;
+  /** Events already stored by an earlier backfill. */
+  skipped: number;
+  /** Sessions the hooks also recorded; only their entries from before the first hook event are backfilled. */
+  recorded_sessions: number;
+  errors: BackfillFileError[];
+}
+
+/** Where Claude Code keeps its transcripts. */
+export function resolveProjectsDir(env: Record<string, string | undefined> = process.env): string {
+  return join(env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude'), 'projects');
+}
+
+function clip(text: string): string {
+  return text.length <= STRING_MAX_LENGTH ? text : text.slice(0, STRING_MAX_LENGTH) + ' [truncated]';
+}
+
+function clipToolInput(input: unknown): Record<string, unknown> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {};
+  const clipped = Object.fromEntries(
+    Object.entries(input).map(([key, value]) => [key, typeof value === 'string' ? clip(value) : value]),
+  );
+  if (JSON.stringify(clipped).length > TOOL_INPUT_MAX_BYTES) {
+    return { _truncated: true, _originalKeys: Object.keys(input) };
+  }
+  return clipped;
+}
+
+function blocks(entry: TranscriptEntry): Record<string, unknown>[] {
+  const content = entry.message?.content;
+  if (!Array.isArray(content)) return [];
+  return content.filter((b): b is Record<string, unknown> => !!b && typeof b === 'object');
+}
+
+/** Text of a tool_result block, whose content is a string or a list of content blocks. */
+function toolResultText(block: Record<string, unknown>): string {
+  const content = block.content;
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((b) => b && typeof b === 'object' && b.type === 'text' && typeof b.text === 'string')
+    .map((b) => b.text as string)
+    .join('\n');
+}
+
+const str = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+interface OpenToolCall {
+  name: string;
+  startedAt: number;
+  isSubagent: boolean;
+}
+
+/**
+ * Synthesize the events of one transcript. `fallbackSessionId` is used when
+ * no entry names its session, e.g. the transcript's file name.
+ */
+export function transcriptToEvents(entries: TranscriptEntry[], fallbackSessionId: string): VisualizerEvent[] {
+  const main = entries.filter((e) => !e.isSidechain && e.timestamp && !Number.isNaN(Date.parse(e.timestamp)));
+  if (main.length === 0) return [];
+
+  const sessionId = main.find((e) => e.sessionId)?.sessionId ?? fallbackSessionId;
+  const base = (key: string, timestamp: string) => ({
+    id: `${BACKFILL_ID_PREFIX}${sessionId}:${key}`,
+    timestamp,
+    session_id: sessionId,
+  });
+  const first = main[0];
+  const last = main[main.length - 1];
+  const summary = summarizeTranscript(main);
+  const firstModel = main.find((e) => e.message?.model && e.message.model !== SYNTHETIC_MODEL)?.message?.model;
+  const model = firstModel ?? 'unknown';
+
+  const events: VisualizerEvent[] = [
+    {
+      ...base(`${first.uuid ?? 'start'}:started`, first.timestamp!),
+      type: 'SessionStarted',
+      agent_type: 'main',
+      model,
+      source: 'backfill',
+      cwd: main.find((e) => e.cwd)?.cwd ?? null,
+      git_root: null,
+      git_branch: main.find((e) => e.gitBranch)?.gitBranch ?? null,
+    },
+  ];
+
+  const open = new Map<string, OpenToolCall>();
+  main.forEach((entry, index) => {
+    const timestamp = entry.timestamp!;
+    const key = entry.uuid ?? `#${index}`;
+
+    if (isUserPrompt(entry)) {
+      events.push({ ...base(`${key}:prompt`, timestamp), type: 'UserPrompt', prompt_text: entryText(entry) });
+      return;
+    }
+
+    for (const block of blocks(entry)) {
+      if (entry.type === 'assistant' && block.type === 'tool_use') {
+        const toolUseId = str(block.id);
+        const name = str(block.name) ?? 'unknown';
+        if (!toolUseId || open.has(toolUseId)) continue;
+        const input = clipToolInput(block.input);
+        const isSubagent = SUBAGENT_TOOLS.has(name);
+        open.set(toolUseId, { name, startedAt: Date.parse(timestamp), isSubagent });
+
+        events.push({
+          ...base(`${toolUseId}:started`, timestamp),
+          type: 'ToolCallStarted',
+          tool_name: name,
+          tool_input: input,
+          tool_use_id: toolUseId,
+        });
+        if (isSubagent) {
+          // The subagent's own id is not in the main transcript; the Task call's id stands in for it
+          events.push({
+            ...base(`${toolUseId}:spawned`, timestamp),
+            type: 'AgentSpawned',
+            agent_id: toolUseId,
+            parent_session_id: sessionId,
+            agent_type: str(input.subagent_type) ?? 'general-purpose',
+            model: str(input.model) ?? model,
+            task_description: str(input.description) ?? str(input.prompt),
+          });
+        }
+      } else if (entry.type === 'user' && block.type === 'tool_result') {
+        const toolUseId = str(block.tool_use_id);
+        const call = toolUseId ? open.get(toolUseId) : undefined;
+        if (!toolUseId || !call) continue;
+        open.delete(toolUseId);
+        const text = clip(toolResultText(block));
+
+        if (call.isSubagent) {
+          events.push({
+            ...base(`${toolUseId}:agent-completed`, timestamp),
+            type: 'AgentCompleted',
+            agent_id: toolUseId,
+            transcript_path: null,
+            result: text || null,
+          });
+        }
+        events.push(
+          block.is_error === true
+            ? {
+                ...base(`${toolUseId}:failed`, timestamp),
+                type: 'ToolCallFailed',
+                tool_name: call.name,
+                error: text || 'Tool call failed',
+                tool_use_id: toolUseId,
+              }
+            : {
+                ...base(`${toolUseId}:completed`, timestamp),
+                type: 'ToolCallCompleted',
+                tool_name: call.name,
+                tool_response: text || null,
+                duration_ms: Math.max(0, Date.parse(timestamp) - call.startedAt),
+                tool_use_id: toolUseId,
+              },
+        );
+      }
+    }
+  });
+
+  // Keyed by the session alone: a transcript that grew since the last run replaces its end
+  if (summary.responses > 0) {
+    events.push({
+      ...base('end:usage', last.timestamp!),
+      type: 'TokenUsage',
+      agent_id: sessionId,
+      model: summary.model,
+      total: summary.total,
+      turn: summary.turn,
+      responses: summary.responses,
+    });
+  }
+  events.push({
+    ...base('end', last.timestamp!),
+    type: 'SessionEnded',
+    reason: 'other',
+    summary: summary.finalText ? clip(summary.finalText) : null,
+  });
+  return events;
+}
+
+/** Time of the session's first event that did not come from a backfill, or null when the hooks never saw it. */
+function firstHookEventTime(db: Database, sessionId: string): number | null {
+  const row = db
+    .prepare(`SELECT MIN(timestamp) AS first FROM events WHERE session_id = ? AND substr(id, 1, ?) != ?`)
+    .get(sessionId, BACKFILL_ID_PREFIX.length, BACKFILL_ID_PREFIX) as { first: string | null };
+  return row.first === null ? null : Date.parse(row.first);
+}
+
+async function listTranscripts(dir: string): Promise<string[]> {
+  return (await readdir(dir, { recursive: true }))
+    .filter((path) => path.endsWith('.jsonl'))
+    .sort()
+    .map((path) => join(dir, path));
+}
+
+/**
+ * Backfill every transcript under `projectsDir`, one transaction per
+ * transcript. Files are read asynchronously, so the server keeps answering
+ * other requests between transcripts.
+ */
+export async function backfillTranscripts(
+  db: Database,
+  projectsDir: string = resolveProjectsDir(),
+): Promise<BackfillResult> {
+  const result: BackfillResult = { files: 0, sessions: 0, imported: 0, skipped: 0, recorded_sessions: 0, errors: [] };
+
+  let files: string[];
+  try {
+    files = await listTranscripts(projectsDir);
+  } catch (err) {
+    result.errors.push({ file: projectsDir, error: err instanceof Error ? err.message : String(err) });
+    return result;
+  }
+
+  // Ends stored by an earlier run that no longer match, including ends keyed by an older entry
+  const staleEnd = db.prepare(
+    'DELETE FROM events WHERE session_id = ? AND type = ? AND substr(id, 1, ?) = ? AND (id != ? OR payload != ?)',
+  );
+
+  for (const file of files) {
+    let entries: TranscriptEntry[];
+    let events: VisualizerEvent[];
+    try {
+      entries = parseTranscriptLines(await readFile(file, 'utf8'));
+      events = transcriptToEvents(entries, basename(file, '.jsonl'));
+    } catch (err) {
+      result.errors.push({ file, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    result.files++;
+    if (events.length === 0) continue;
+    const hookedAt = firstHookEventTime(db, events[0].session_id);
+    if (hookedAt !== null) {
+      // A session resumed after the hooks were installed: only its earlier part is missing
+      result.recorded_sessions++;
+      const earlier = entries.filter((e) => e.timestamp && Date.parse(e.timestamp) < hookedAt);
+      events = transcriptToEvents(earlier, events[0].session_id);
+    }
+
+    let imported = 0;
+    db.transaction(() => {
+      for (const candidate of events) {
+        const { event, result: validation } = validateEvent(candidate);
+        if (!event) {
+          result.errors.push({ file, error: `${candidate.id}: ${validation.error ?? 'Invalid event'}` });
+          continue;
+        }
+        const payload = JSON.stringify(event);
+        if (event.type === 'TokenUsage' || event.type === 'SessionEnded') {
+          staleEnd.run(event.session_id, event.type, BACKFILL_ID_PREFIX.length, BACKFILL_ID_PREFIX, event.id, payload);
+        }
+        const seq = insertEvent(
+          db,
+          { id: event.id, type: event.type, session_id: event.session_id, timestamp: event.timestamp, payload },
+          { historical: true },
+        );
+        if (seq !== null) imported++;
+        else result.skipped++;
+      }
+    })();
+    result.imported += imported;
+    if (imported > 0) result.sessions++;
+  }
+  return result;
+}
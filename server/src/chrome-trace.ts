@@ -0,0 +1,191 @@
+/**
+ * Export of a session's tool-call timeline in the Chrome Trace Event format,
+ * for chrome://tracing and Perfetto (ui.perfetto.dev).
+ *
+ * Every agent of the session (the main agent and each subagent) is one
+ * thread: subagent lifetimes are complete ("X") events on their own thread,
+ * and prompts, waits for the user and compactions are instant ("i") events on
+ * the thread of the agent that reported them. Tool events carry only the
+ * session id, so tool calls sit on the main agent's thread as async ("b"/"e")
+ * slices keyed by tool_use_id; calls that overlap (parallel calls, or calls
+ * made by running subagents) get tracks of their own instead of nesting.
+ */
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+
+/** Every agent is a thread of this one process. */
+const PID = 1;
+
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'b' | 'e' | 'i' | 'M';
+  /** Microseconds since the epoch. */
+  ts: number;
+  dur?: number;
+  /** Pairs the begin and end of an async slice: the tool_use_id. */
+  id?: string;
+  /** Scope of an instant event: thread. */
+  s?: 't';
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: TraceEvent[];
+  displayTimeUnit: 'ms';
+}
+
+/** A tool call or subagent whose slice is emitted when it ends. */
+interface OpenSlice {
+  name: string;
+  tid: number;
+  ts: number;
+  args: Record<string, unknown>;
+}
+
+function toMicros(timestamp: string): number {
+  return Date.parse(timestamp) * 1000;
+}
+
+function slice(open: OpenSlice, cat: 'tool' | 'agent', end: number, args: Record<string, unknown>): TraceEvent {
+  return { name: open.name, cat, ph: 'X', ts: open.ts, dur: end - open.ts, pid: PID, tid: open.tid, args };
+}
+
+/** A tool call as an async slice: its begin and end events. */
+function toolSlice(id: string, open: OpenSlice, end: number, args: Record<string, unknown>): TraceEvent[] {
+  const common = { name: open.name, cat: 'tool', id, pid: PID, tid: open.tid };
+  return [
+    { ...common, ph: 'b', ts: open.ts, args },
+    { ...common, ph: 'e', ts: end },
+  ];
+}
+
+/**
+ * Convert a session's events, in timestamp order, to trace events.
+ * Tool calls and subagents that never finished end at the last event.
+ */
+export function toChromeTrace(events: VisualizerEvent[]): ChromeTrace {
+  const traceEvents: TraceEvent[] = [];
+  const tids = new Map<string, number>();
+  const toolCalls = new Map<string, OpenSlice>();
+  const agents = new Map<string, OpenSlice>();
+  let lastTs = 0;
+
+  function tidFor(agentId: string, label = agentId): number {
+    let tid = tids.get(agentId);
+    if (tid === undefined) {
+      tid = tids.size + 1;
+      tids.set(agentId, tid);
+      traceEvents.push(
+        { name: 'thread_name', ph: 'M', ts: 0, pid: PID, tid, args: { name: label } },
+        { name: 'thread_sort_index', ph: 'M', ts: 0, pid: PID, tid, args: { sort_index: tid } },
+      );
+    }
+    return tid;
+  }
+
+  function instant(agentId: string, event: VisualizerEvent, args: Record<string, unknown>): void {
+    traceEvents.push({
+      name: event.type,
+      cat: 'session',
+      ph: 'i',
+      s: 't',
+      ts: toMicros(event.timestamp),
+      pid: PID,
+      tid: tidFor(agentId),
+      args,
+    });
+  }
+
+  for (const event of events) {
+    const ts = toMicros(event.timestamp);
+    lastTs = Math.max(lastTs, ts);
+
+    switch (event.type) {
+      case 'SessionStarted':
+        tidFor(event.session_id, `${event.agent_type} (${event.session_id})`);
+        break;
+
+      case 'AgentSpawned': {
+        const tid = tidFor(event.agent_id, `${event.agent_type} (${event.agent_id})`);
+        agents.set(event.agent_id, {
+          tid,
+          ts,
+          name: event.agent_type,
+          args: { agent_id: event.agent_id, model: event.model, task_description: event.task_description },
+        });
+        break;
+      }
+
+      case 'AgentCompleted': {
+        const agent = agents.get(event.agent_id);
+        if (!agent) break;
+        agents.delete(event.agent_id);
+        traceEvents.push(slice(agent, 'agent', ts, agent.args));
+        break;
+      }
+
+      case 'ToolCallStarted':
+        toolCalls.set(event.tool_use_id, {
+          name: event.tool_name,
+          tid: tidFor(event.session_id),
+          ts,
+          args: { tool_use_id: event.tool_use_id, tool_input: event.tool_input },
+        });
+        break;
+
+      case 'ToolCallCompleted':
+      case 'ToolCallFailed': {
+        // A completion without its start is placed using the reported duration
+        const call = toolCalls.get(event.tool_use_id) ?? {
+          name: event.tool_name,
+          tid: tidFor(event.session_id),
+          ts: event.type === 'ToolCallCompleted' ? ts - event.duration_ms * 1000 : ts,
+          args: { tool_use_id: event.tool_use_id },
+        };
+        toolCalls.delete(event.tool_use_id);
+        const args =
+          event.type === 'ToolCallFailed'
+            ? { ...call.args, outcome: 'failed', error: event.error }
+            : { ...call.args, outcome: 'succeeded' };
+        traceEvents.push(...toolSlice(event.tool_use_id, call, ts, args));
+        break;
+      }
+
+      case 'UserPrompt':
+        instant(event.session_id, event, { prompt_text: event.prompt_text });
+        break;
+
+      case 'WaitingForUser':
+        instant(event.session_id, event, { notification_type: event.notification_type, message: event.message });
+        break;
+
+      case 'ContextCompaction':
+        instant(event.session_id, event, { context_pressure: event.context_pressure });
+        break;
+    }
+  }
+
+  for (const [toolUseId, call] of toolCalls) {
+    traceEvents.push(...toolSlice(toolUseId, call, lastTs, { ...call.args, outcome: 'running' }));
+  }
+  for (const agent of agents.values()) {
+    traceEvents.push(slice(agent, 'agent', lastTs, { ...agent.args, running: true }));
+  }
+
+  // Viewers nest slices by start time, with the enclosing (longer) slice first; the sort is stable,
+  // so an instant call's begin stays ahead of its end
+  traceEvents.sort((a, b) => a.ts - b.ts || (b.dur ?? 0) - (a.dur ?? 0));
+  return { traceEvents, displayTimeUnit: 'ms' };
+}
+
+/** The tool-call timeline of a stored session. Returns null when it has no events. */
+export function getSessionChromeTrace(db: Database, sessionId: string): ChromeTrace | null {
+  const rows = db
+    .prepare('SELECT payload FROM events WHERE session_id = ? ORDER BY timestamp ASC, rowid ASC')
+    .all(sessionId) as { payload: string }[];
+  if (rows.length === 0) return null;
+  return toChromeTrace(rows.map((r) => JSON.parse(r.payload) as VisualizerEvent));
+}
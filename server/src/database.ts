@@ -1,6 +1,7 @@
 import { Database } from 'bun:sqlite';
 import { dirname } from 'node:path';
 import { mkdirSync } from 'node:fs';
+import { migrate } from './migrations';
 
 /**
  * Resolve the database file path from explicit argument, env var, or default.
@@ -26,31 +27,54 @@ export function initDatabase(path?: string): Database {
   db.run('PRAGMA journal_mode = WAL');
   db.run('PRAGMA synchronous = NORMAL');
 
-  db.run(`
-    CREATE TABLE IF NOT EXISTS events (
-      id TEXT PRIMARY KEY,
-      type TEXT NOT NULL,
-      session_id TEXT NOT NULL,
-      timestamp TEXT NOT NULL,
-      payload TEXT NOT NULL
-    )
-  `);
-
-  db.run('CREATE INDEX IF NOT EXISTS idx_events_session ON events(session_id)');
-  db.run('CREATE INDEX IF NOT EXISTS idx_events_type ON events(type)');
-  db.run('CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp)');
+  // Schema changes ship as numbered steps in migrations.ts
+  try {
+    migrate(db);
+  } catch (err) {
+    db.close();
+    throw err;
+  }
 
   return db;
 }
 
+/**
+ * Store an event. Duplicate ids are ignored, so re-sending an event is safe.
+ * Returns the sequence number assigned to the new row, or null for a duplicate.
+ *
+ * `historical` marks events that did not arrive live (backfills and archive
+ * imports). Their seq is newer than what connected clients have seen, so
+ * resumes and the default subscribe history leave them out.
+ */
 export function insertEvent(
   db: Database,
   event: { id: string; type: string; session_id: string; timestamp: string; payload: string },
-): void {
+  options: { historical?: boolean } = {},
+): number | null {
   const stmt = db.prepare(
-    'INSERT OR IGNORE INTO events (id, type, session_id, timestamp, payload) VALUES (?, ?, ?, ?, ?)',
+    options.historical
+      ? 'INSERT OR IGNORE INTO events (id, type, session_id, timestamp, payload, historical) ' +
+          'VALUES (?, ?, ?, ?, ?, 1) RETURNING rowid'
+      : 'INSERT OR IGNORE INTO events (id, type, session_id, timestamp, payload) VALUES (?, ?, ?, ?, ?) RETURNING rowid',
   );
-  stmt.run(event.id, event.type, event.session_id, event.timestamp, event.payload);
+  const row = stmt.get(event.id, event.type, event.session_id, event.timestamp, event.payload) as
+    | { rowid: number }
+    | null;
+  if (!row) return null;
+  const stored = db.prepare('SELECT seq FROM events WHERE rowid = ?').get(row.rowid) as { seq: number };
+  return stored.seq;
+}
+
+/** Sequence number of a stored event, or null when the id is unknown. */
+export function getSeqForEventId(db: Database, id: string): number | null {
+  const row = db.prepare('SELECT seq FROM events WHERE id = ?').get(id) as { seq: number } | null;
+  return row ? row.seq : null;
+}
+
+/** Highest sequence number ever assigned (0 for an empty database). */
+export function getLatestSeq(db: Database): number {
+  const row = db.prepare('SELECT value FROM event_sequence WHERE id = 1').get() as { value: number };
+  return row.value;
 }
 
 export function getEventById(db: Database, id: string): unknown | null {
@@ -62,13 +86,30 @@ export function getEventById(db: Database, id: string): unknown | null {
 export interface EventQueryFilters {
   session_id?: string;
   type?: string;
+  /** Match any of these sessions. */
+  session_ids?: string[];
+  /** Match any of these event types. */
+  types?: string[];
+  /** Match events whose session_id, agent_id, from_agent or to_agent is listed. */
+  agent_ids?: string[];
   fromTimestamp?: string;
+  /** Inclusive upper bound on timestamp. */
+  toTimestamp?: string;
+  /** Sort direction by timestamp; defaults to ascending. Ignored with `latest`. */
+  order?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
   latest?: boolean;
+  /** Leave out backfilled and imported events. */
+  live_only?: boolean;
 }
 
-export function getEvents(db: Database, filters: EventQueryFilters = {}): unknown[] {
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/** WHERE-clause fragments shared by the event queries. */
+function buildConditions(filters: EventQueryFilters): { conditions: string[]; params: (string | number)[] } {
   const conditions: string[] = [];
   const params: (string | number)[] = [];
 
@@ -84,20 +125,51 @@ export function getEvents(db: Database, filters: EventQueryFilters = {}): unknow
     conditions.push('timestamp >= ?');
     params.push(filters.fromTimestamp);
   }
+  if (filters.toTimestamp) {
+    conditions.push('timestamp <= ?');
+    params.push(filters.toTimestamp);
+  }
+  if (filters.session_ids?.length) {
+    conditions.push(`session_id IN (${placeholders(filters.session_ids)})`);
+    params.push(...filters.session_ids);
+  }
+  if (filters.types?.length) {
+    conditions.push(`type IN (${placeholders(filters.types)})`);
+    params.push(...filters.types);
+  }
+  if (filters.live_only) {
+    conditions.push('historical = 0');
+  }
+  if (filters.agent_ids?.length) {
+    const list = placeholders(filters.agent_ids);
+    conditions.push(
+      `(session_id IN (${list})` +
+        ` OR json_extract(payload, '$.agent_id') IN (${list})` +
+        ` OR json_extract(payload, '$.from_agent') IN (${list})` +
+        ` OR json_extract(payload, '$.to_agent') IN (${list}))`,
+    );
+    for (let i = 0; i < 4; i++) params.push(...filters.agent_ids);
+  }
+
+  return { conditions, params };
+}
+
+export function getEvents(db: Database, filters: EventQueryFilters = {}): unknown[] {
+  const { conditions, params } = buildConditions(filters);
 
   const limit = filters.limit ?? 100;
   const offset = filters.offset ?? 0;
 
   if (filters.latest) {
     // Subquery: grab the newest N rows (DESC), then re-sort ASC for chronological replay
-    let inner = 'SELECT payload, timestamp FROM events';
+    let inner = 'SELECT payload, timestamp, seq FROM events';
     if (conditions.length > 0) {
       inner += ' WHERE ' + conditions.join(' AND ');
     }
-    inner += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?';
+    inner += ' ORDER BY timestamp DESC, seq DESC LIMIT ? OFFSET ?';
     params.push(limit, offset);
 
-    const sql = `SELECT payload FROM (${inner}) sub ORDER BY sub.timestamp ASC`;
+    const sql = `SELECT payload FROM (${inner}) sub ORDER BY sub.timestamp ASC, sub.seq ASC`;
     const stmt = db.prepare(sql);
     const rows = stmt.all(...params) as { payload: string }[];
     return rows.map((r) => JSON.parse(r.payload));
@@ -107,7 +179,8 @@ export function getEvents(db: Database, filters: EventQueryFilters = {}): unknow
   if (conditions.length > 0) {
     sql += ' WHERE ' + conditions.join(' AND ');
   }
-  sql += ' ORDER BY timestamp ASC';
+  // seq breaks ties between events stamped in the same millisecond, in arrival order
+  sql += filters.order === 'desc' ? ' ORDER BY timestamp DESC, seq DESC' : ' ORDER BY timestamp ASC, seq ASC';
   sql += ` LIMIT ? OFFSET ?`;
   params.push(limit, offset);
 
@@ -116,6 +189,107 @@ export function getEvents(db: Database, filters: EventQueryFilters = {}): unknow
   return rows.map((r) => JSON.parse(r.payload));
 }
 
+/** Position of the last event of a page, for keyset pagination. */
+export interface EventCursor {
+  timestamp: string;
+  seq: number;
+  order: 'asc' | 'desc';
+}
+
+export interface EventPage {
+  events: unknown[];
+  /** Cursor for the following page, or null when this page is the last. */
+  next_cursor: string | null;
+}
+
+/** Opaque, URL-safe form of a cursor. */
+export function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify([cursor.timestamp, cursor.seq, cursor.order])).toString('base64url');
+}
+
+/** Parse a cursor produced by `encodeCursor`, or null when it is malformed. */
+export function decodeCursor(value: string): EventCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 3 &&
+      typeof parsed[0] === 'string' &&
+      Number.isInteger(parsed[1]) &&
+      (parsed[2] === 'asc' || parsed[2] === 'desc')
+    ) {
+      return { timestamp: parsed[0], seq: parsed[1], order: parsed[2] };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * One page of events ordered by (timestamp, seq). Unlike LIMIT/OFFSET, the
+ * keyset condition stays fast on deep pages and never skips or repeats rows
+ * that share a timestamp. `after` must have been issued for the same order.
+ */
+export function getEventsPage(
+  db: Database,
+  filters: EventQueryFilters,
+  after: EventCursor | null,
+  limit: number,
+): EventPage {
+  const order = filters.order ?? 'asc';
+  const { conditions, params } = buildConditions(filters);
+  if (after) {
+    conditions.push(`(timestamp, seq) ${order === 'desc' ? '<' : '>'} (?, ?)`);
+    params.push(after.timestamp, after.seq);
+  }
+
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+  let sql = 'SELECT seq, timestamp, payload FROM events';
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ');
+  }
+  // Fetch one extra row to learn whether another page follows
+  sql += ` ORDER BY timestamp ${direction}, seq ${direction} LIMIT ?`;
+  params.push(limit + 1);
+
+  const rows = db.prepare(sql).all(...params) as { seq: number; timestamp: string; payload: string }[];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    events: page.map((r) => JSON.parse(r.payload)),
+    next_cursor: rows.length > limit && last ? encodeCursor({ timestamp: last.timestamp, seq: last.seq, order }) : null,
+  };
+}
+
+export interface SequencedEvent {
+  seq: number;
+  event: unknown;
+}
+
+/**
+ * Events stored after sequence number `afterSeq`, in sequence order. Accepts
+ * the same filters as `getEvents` so resumed streams honour subscriptions.
+ * Backfilled and imported events are never included: a resuming client
+ * missed only what arrived live.
+ */
+export function getEventsAfterSeq(
+  db: Database,
+  afterSeq: number,
+  filters: Pick<EventQueryFilters, 'session_id' | 'type' | 'session_ids' | 'types' | 'agent_ids'> = {},
+  limit = 1000,
+): SequencedEvent[] {
+  const { conditions, params } = buildConditions({ ...filters, live_only: true });
+  conditions.unshift('seq > ?');
+  params.unshift(afterSeq);
+
+  const sql = `SELECT seq, payload FROM events WHERE ${conditions.join(' AND ')} ORDER BY seq ASC LIMIT ?`;
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as { seq: number; payload: string }[];
+  return rows.map((r) => ({ seq: r.seq, event: JSON.parse(r.payload) }));
+}
+
 export function getEventsBySession(db: Database, sessionId: string): unknown[] {
   return getEvents(db, { session_id: sessionId, limit: 1000 });
 }
@@ -129,17 +303,28 @@ export interface SessionInfo {
   event_count: number;
   first_event: string;
   last_event: string;
+  /** Working directory and git location from SessionStarted; null when not reported. */
+  cwd: string | null;
+  git_root: string | null;
+  git_branch: string | null;
+  /** Grouping key for GET /api/projects: the git root, else the working directory. */
+  project: string | null;
 }
 
 export function getSessions(db: Database): SessionInfo[] {
   const stmt = db.prepare(`
     SELECT
-      session_id,
+      e.session_id,
       COUNT(*) as event_count,
-      MIN(timestamp) as first_event,
-      MAX(timestamp) as last_event
-    FROM events
-    GROUP BY session_id
+      MIN(e.timestamp) as first_event,
+      MAX(e.timestamp) as last_event,
+      s.cwd,
+      s.git_root,
+      s.git_branch,
+      COALESCE(s.git_root, s.cwd) as project
+    FROM events e
+    LEFT JOIN sessions s ON s.session_id = e.session_id
+    GROUP BY e.session_id
     ORDER BY last_event DESC
   `);
   return stmt.all() as SessionInfo[];
@@ -150,3 +335,10 @@ export function getEventCount(db: Database): number {
   const row = stmt.get() as { count: number };
   return row.count;
 }
+
+/** Size of the main database file in bytes (excluding the WAL). */
+export function getDatabaseSize(db: Database): number {
+  const pageCount = db.prepare('PRAGMA page_count').get() as { page_count: number };
+  const pageSize = db.prepare('PRAGMA page_size').get() as { page_size: number };
+  return pageCount.page_count * pageSize.page_size;
+}
@@ -2,9 +2,20 @@
  * Event server entry point — Bun HTTP + WebSocket server.
  */
 import { existsSync } from 'node:fs';
-import { handleRequest } from './routes';
+import { handleRequest, MAX_IMPORT_BODY_BYTES, type RouteServices } from './routes';
+import type { Database } from 'bun:sqlite';
 import { initDatabase } from './database';
+import { SchemaVersionError } from './migrations';
 import { createWebSocketHandler } from './websocket';
+import { createSseHandler } from './sse';
+import { createRetentionJob, parseRetentionConfig } from './retention';
+import { createAuthGuard } from './auth';
+import { createMetrics } from './metrics';
+import { createRateLimiter, parseRateLimitConfig } from './rate-limit';
+import { createWebhookDispatcher, loadWebhookConfig, WebhookConfigError, type WebhookDispatcher } from './webhooks';
+import { createOtlpExporter, parseOtlpEndpoint, parseOtlpIdleTtl, OtlpConfigError } from './otlp';
+import { loadPricingConfig, PricingConfigError } from './usage';
+import type { PricingTable } from '@shared/pricing';
 
 const PORT = Number(process.env.VISUALIZER_PORT) || 3333;
 
@@ -12,21 +23,64 @@ const PORT = Number(process.env.VISUALIZER_PORT) || 3333;
 const CLIENT_DIR = process.env.VISUALIZER_CLIENT_DIR || null;
 const validClientDir = CLIENT_DIR && existsSync(CLIENT_DIR) ? CLIENT_DIR : null;
 
-const db = initDatabase();
-const wsHandler = createWebSocketHandler(db);
+// Shared secret set by `claude-visualizer start`; unset means auth is disabled
+const authGuard = createAuthGuard(process.env.CLAUDE_VISUALIZER_TOKEN || null);
+
+let db: Database;
+let webhooks: WebhookDispatcher;
+let otlpEndpoint: string | null;
+let pricing: PricingTable;
+try {
+  db = initDatabase();
+  webhooks = createWebhookDispatcher(loadWebhookConfig());
+  otlpEndpoint = parseOtlpEndpoint();
+  pricing = loadPricingConfig();
+} catch (err) {
+  if (
+    err instanceof SchemaVersionError ||
+    err instanceof WebhookConfigError ||
+    err instanceof OtlpConfigError ||
+    err instanceof PricingConfigError
+  ) {
+    console.error(err.message);
+    process.exit(1);
+  }
+  throw err;
+}
+const metrics = createMetrics();
+const wsHandler = createWebSocketHandler(db, { metrics });
+const sseHandler = createSseHandler(db, undefined, metrics);
+const retentionJob = createRetentionJob(db, parseRetentionConfig());
+retentionJob.start();
+
+const services: RouteServices = {
+  sse: sseHandler,
+  retention: retentionJob,
+  auth: authGuard,
+  metrics,
+  webhooks,
+  rateLimit: createRateLimiter(parseRateLimitConfig()),
+  pricing,
+  ...(otlpEndpoint ? { otlp: createOtlpExporter(otlpEndpoint, { idleTtlMs: parseOtlpIdleTtl() }) } : {}),
+};
 
 const server = Bun.serve({
   port: PORT,
-  maxRequestBodySize: 1_048_576, // 1MB — prevents memory exhaustion from oversized POST bodies
+  // Session archives may be large; every other POST route is held to 1MB in handleRequest
+  maxRequestBodySize: MAX_IMPORT_BODY_BYTES,
+  idleTimeout: 60, // seconds — must outlast the SSE keep-alive interval
   fetch(req, server) {
     // Upgrade WebSocket requests
     if (new URL(req.url).pathname === '/ws') {
+      if (!authGuard.isAuthorized(req)) {
+        return new Response('Unauthorized', { status: 401 });
+      }
       const upgraded = server.upgrade(req, { data: {} });
       if (upgraded) return undefined;
       return new Response('WebSocket upgrade failed', { status: 400 });
     }
 
-    return handleRequest(req, db, wsHandler, validClientDir);
+    return handleRequest(req, db, wsHandler, validClientDir, services);
   },
   websocket: wsHandler.handlers,
 });
@@ -0,0 +1,128 @@
+/**
+ * Prometheus metrics for the event server, served at GET /metrics in the
+ * text exposition format (version 0.0.4).
+ *
+ * Counters and histograms are accumulated in memory as events flow through
+ * the routes and broadcasters; gauges (connected clients, database size) are
+ * sampled by the caller at scrape time and passed to `render`.
+ */
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Upper bounds, in seconds, of the tool call duration histogram buckets. */
+export const TOOL_DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export type BroadcastTransport = 'websocket' | 'sse';
+
+export interface MetricsGauges {
+  websocketClients: number;
+  sseClients: number;
+  dbSizeBytes: number;
+}
+
+export interface Metrics {
+  /** A new event was stored (duplicates are not counted). */
+  eventIngested(type: string): void;
+  /** An event or request body was rejected; `reason` is a short snake_case code. */
+  eventRejected(reason: string): void;
+  toolCallDuration(toolName: string, durationMs: number): void;
+  bytesBroadcast(transport: BroadcastTransport, bytes: number): void;
+  render(gauges: MetricsGauges): string;
+}
+
+interface Histogram {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+function increment(map: Map<string, number>, key: string, by = 1): void {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+/** Escape a label value per the exposition format (backslash, quote, newline). */
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function header(lines: string[], name: string, type: 'counter' | 'gauge' | 'histogram', help: string): void {
+  lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} ${type}`);
+}
+
+function labelledCounter(lines: string[], name: string, label: string, values: Map<string, number>): void {
+  for (const [key, value] of [...values].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`${name}{${label}="${escapeLabelValue(key)}"} ${value}`);
+  }
+}
+
+export function createMetrics(): Metrics {
+  const ingested = new Map<string, number>();
+  const rejected = new Map<string, number>();
+  const broadcastBytes = new Map<string, number>();
+  const toolDurations = new Map<string, Histogram>();
+
+  return {
+    eventIngested(type) {
+      increment(ingested, type);
+    },
+
+    eventRejected(reason) {
+      increment(rejected, reason);
+    },
+
+    toolCallDuration(toolName, durationMs) {
+      if (!Number.isFinite(durationMs) || durationMs < 0) return;
+      let histogram = toolDurations.get(toolName);
+      if (!histogram) {
+        histogram = { buckets: TOOL_DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+        toolDurations.set(toolName, histogram);
+      }
+      const seconds = durationMs / 1000;
+      TOOL_DURATION_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) histogram.buckets[i]++;
+      });
+      histogram.sum += seconds;
+      histogram.count++;
+    },
+
+    bytesBroadcast(transport, bytes) {
+      increment(broadcastBytes, transport, bytes);
+    },
+
+    render(gauges) {
+      const lines: string[] = [];
+
+      header(lines, 'visualizer_events_ingested_total', 'counter', 'Events stored, by event type.');
+      labelledCounter(lines, 'visualizer_events_ingested_total', 'type', ingested);
+
+      header(lines, 'visualizer_events_rejected_total', 'counter', 'Events rejected at ingestion, by reason.');
+      labelledCounter(lines, 'visualizer_events_rejected_total', 'reason', rejected);
+
+      header(lines, 'visualizer_tool_call_duration_seconds', 'histogram', 'Duration of completed tool calls, by tool name.');
+      for (const [toolName, histogram] of [...toolDurations].sort(([a], [b]) => a.localeCompare(b))) {
+        const label = `tool_name="${escapeLabelValue(toolName)}"`;
+        TOOL_DURATION_BUCKETS.forEach((bound, i) => {
+          lines.push(`visualizer_tool_call_duration_seconds_bucket{${label},le="${bound}"} ${histogram.buckets[i]}`);
+        });
+        lines.push(`visualizer_tool_call_duration_seconds_bucket{${label},le="+Inf"} ${histogram.count}`);
+        lines.push(`visualizer_tool_call_duration_seconds_sum{${label}} ${histogram.sum}`);
+        lines.push(`visualizer_tool_call_duration_seconds_count{${label}} ${histogram.count}`);
+      }
+
+      header(lines, 'visualizer_broadcast_bytes_total', 'counter', 'Bytes sent to live clients, by transport.');
+      labelledCounter(lines, 'visualizer_broadcast_bytes_total', 'transport', broadcastBytes);
+
+      header(lines, 'visualizer_websocket_clients', 'gauge', 'Connected WebSocket clients.');
+      lines.push(`visualizer_websocket_clients ${gauges.websocketClients}`);
+
+      header(lines, 'visualizer_sse_clients', 'gauge', 'Connected Server-Sent Events clients.');
+      lines.push(`visualizer_sse_clients ${gauges.sseClients}`);
+
+      header(lines, 'visualizer_db_size_bytes', 'gauge', 'Size of the SQLite database (page_count * page_size).');
+      lines.push(`visualizer_db_size_bytes ${gauges.dbSizeBytes}`);
+
+      return lines.join('\n') + '\n';
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Versioned schema migrations for the SQLite database.
+ *
+ * Each migration has a unique, increasing version number and runs in its own
+ * transaction together with the row that records it in `schema_version`, so a
+ * failing step leaves the database at the previous version. `migrate` applies
+ * every step newer than the database and refuses to touch a database written
+ * by a newer server.
+ *
+ * To change the schema, append a migration — never edit one that has shipped.
+ * Steps 1–3 are written idempotently because databases created before
+ * versioning already contain some of their tables, columns and triggers.
+ */
+import type { Database } from 'bun:sqlite';
+import { initSearchIndex } from './search';
+import { initToolCallsTable } from './tool-calls';
+import { initSessionsTable } from './sessions';
+import { initAgentUsageTable } from './usage';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): void;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  /** Names of the migrations applied by this run, in order. */
+  applied: string[];
+}
+
+/** Thrown when the database was created by a newer server than this one. */
+export class SchemaVersionError extends Error {
+  constructor(
+    readonly databaseVersion: number,
+    readonly supportedVersion: number,
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than this server supports (${supportedVersion}). ` +
+        'Upgrade claude-office-visualizer, or point CLAUDE_VISUALIZER_DB at another database.',
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create events table',
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS events (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          payload TEXT NOT NULL
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_events_session ON events(session_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_events_type ON events(type)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp)');
+    },
+  },
+  {
+    version: 2,
+    name: 'event sequence numbers',
+    up: addEventSequence,
+  },
+  {
+    version: 3,
+    name: 'full-text search index',
+    up: initSearchIndex,
+  },
+  {
+    version: 4,
+    name: 'tool_calls table',
+    up: initToolCallsTable,
+  },
+  {
+    version: 5,
+    name: 'timestamp and seq index for keyset pagination',
+    up(db) {
+      db.run('CREATE INDEX IF NOT EXISTS idx_events_timestamp_seq ON events(timestamp, seq)');
+    },
+  },
+  {
+    version: 6,
+    name: 'sessions table',
+    up: initSessionsTable,
+  },
+  {
+    version: 7,
+    name: 'historical events',
+    up(db) {
+      // Backfilled and imported events: stored and queryable, never replayed into a live scene
+      db.run('ALTER TABLE events ADD COLUMN historical INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 8,
+    name: 'agent_usage table',
+    up: initAgentUsageTable,
+  },
+];
+
+/** Schema version this server writes. */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Give every stored event a server-assigned sequence number.
+ *
+ * A single-row counter table (rather than MAX(seq) + 1) keeps the sequence
+ * monotonic even after retention deletes the newest rows of a session. The
+ * counter is advanced by a trigger, so every insert path gets a seq. Databases
+ * created before sequencing are backfilled in rowid (arrival) order.
+ */
+function addEventSequence(db: Database): void {
+  const columns = db.prepare('PRAGMA table_info(events)').all() as { name: string }[];
+  if (!columns.some((c) => c.name === 'seq')) {
+    db.run('ALTER TABLE events ADD COLUMN seq INTEGER');
+    db.run('UPDATE events SET seq = rowid');
+  }
+  db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_events_seq ON events(seq)');
+
+  db.run('CREATE TABLE IF NOT EXISTS event_sequence (id INTEGER PRIMARY KEY CHECK (id = 1), value INTEGER NOT NULL)');
+  db.run('INSERT OR IGNORE INTO event_sequence (id, value) SELECT 1, COALESCE(MAX(seq), 0) FROM events');
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS events_assign_seq AFTER INSERT ON events
+    BEGIN
+      UPDATE event_sequence SET value = value + 1 WHERE id = 1;
+      UPDATE events SET seq = (SELECT value FROM event_sequence WHERE id = 1) WHERE rowid = new.rowid;
+    END
+  `);
+}
+
+function ensureVersionTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+/** Highest applied migration version, or 0 for a new or pre-versioning database. */
+export function getSchemaVersion(db: Database): number {
+  ensureVersionTable(db);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Bring the database up to the latest migration. Throws SchemaVersionError
+ * (without modifying anything) when the database is newer than `migrations`.
+ */
+export function migrate(db: Database, migrations: Migration[] = MIGRATIONS): MigrationResult {
+  const from = getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (from > latest) {
+    throw new SchemaVersionError(from, latest);
+  }
+
+  const record = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+  const applied: string[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= from) continue;
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    applied.push(migration.name);
+  }
+
+  return { from, to: Math.max(from, latest), applied };
+}
@@ -0,0 +1,532 @@
+/**
+ * OpenTelemetry export of sessions as traces, in the OTLP/HTTP JSON encoding.
+ *
+ * A session is the root span, each subagent a child span of the agent that
+ * spawned it, and each tool call a leaf span of the agent that made it, keyed
+ * by tool_use_id. Prompts, messages, waits, compactions and token usage become
+ * span events.
+ * Attributes are taken from the VisualizerEvent fields under the `claude.`
+ * prefix. Trace and span ids are derived from session, agent and tool ids, so
+ * exporting the same session twice yields the same trace.
+ *
+ * GET /api/sessions/:id/otlp builds the trace on demand. When
+ * CLAUDE_VISUALIZER_OTLP_ENDPOINT names a local collector (for example
+ * http://localhost:4318/v1/traces), spans are also streamed to it as they
+ * finish.
+ */
+import { createHash } from 'node:crypto';
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+
+const SCOPE_NAME = 'claude-office-visualizer';
+const SERVICE_NAME = 'claude-code';
+
+/** Longest string attribute value; tool input and responses can be large. */
+export const MAX_ATTRIBUTE_LENGTH = 4096;
+
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_BATCH_SIZE = 512;
+const DEFAULT_TIMEOUT_MS = 5000;
+/** Ended sessions remembered so late events do not reopen their traces. */
+const MAX_ENDED_SESSIONS = 1000;
+/** Sessions that crash or are killed never end; their spans are exported after this long without events. */
+export const DEFAULT_IDLE_TTL_MS = 6 * 60 * 60 * 1000;
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// ---------------------------------------------------------------------------
+// OTLP JSON shapes
+// ---------------------------------------------------------------------------
+
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpanEvent {
+  timeUnixNano: string;
+  name: string;
+  attributes: OtlpKeyValue[];
+}
+
+/** Status codes: 0 unset, 1 ok, 2 error. */
+export interface OtlpStatus {
+  code: 0 | 1 | 2;
+  message?: string;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** SPAN_KIND_INTERNAL */
+  kind: 1;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: OtlpSpanEvent[];
+  status: OtlpStatus;
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+// ---------------------------------------------------------------------------
+// Span building
+// ---------------------------------------------------------------------------
+
+function hexId(input: string, length: number): string {
+  return createHash('sha256').update(input).digest('hex').slice(0, length);
+}
+
+export function traceIdForSession(sessionId: string): string {
+  return hexId(`session:${sessionId}`, 32);
+}
+
+/** ISO timestamp to nanoseconds since the epoch, as OTLP JSON encodes 64-bit integers. */
+function toUnixNano(timestamp: string): string {
+  const ms = Date.parse(timestamp);
+  return (BigInt(Number.isFinite(ms) ? ms : 0) * 1_000_000n).toString();
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return { stringValue: text.length > MAX_ATTRIBUTE_LENGTH ? text.slice(0, MAX_ATTRIBUTE_LENGTH) : text };
+}
+
+function attribute(key: string, value: unknown): OtlpKeyValue[] {
+  const converted = toAnyValue(value);
+  return converted ? [{ key, value: converted }] : [];
+}
+
+const BASE_FIELDS = new Set(['id', 'type', 'timestamp', 'session_id']);
+
+/** An event's own fields as `claude.<field>` attributes; nulls are left out. */
+function eventAttributes(event: VisualizerEvent): OtlpKeyValue[] {
+  return Object.entries(event)
+    .filter(([key]) => !BASE_FIELDS.has(key))
+    .flatMap(([key, value]) => attribute(`claude.${key}`, value));
+}
+
+interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+interface OpenSpan {
+  span: OtlpSpan;
+  /** Latest event time seen for the span, used to end it if it never completes. */
+  lastSeen: string;
+  /** Clock time of that event's arrival, used to evict sessions that went idle. */
+  touchedAt: number;
+  /** Root span of a session: its end also ends its open descendants. */
+  sessionId: string | null;
+}
+
+export interface TraceBuilder {
+  /** Feed the next event, in timestamp order. Finished spans go to `onSpan`. */
+  add(event: VisualizerEvent): void;
+  /**
+   * End every span still open at the last time it was seen, marked with
+   * `visualizer.incomplete`, e.g. for a session that is still running.
+   */
+  finish(): void;
+  /**
+   * End the spans of every session without events for longer than
+   * `idleTtlMs`, marked `visualizer.incomplete` with an error status. Late
+   * events of an evicted session are ignored, as after it ends.
+   */
+  evictIdle(idleTtlMs: number): void;
+}
+
+export function createTraceBuilder(onSpan: (span: OtlpSpan) => void, clock: () => number = Date.now): TraceBuilder {
+  /** Span of every agent (session or subagent) of a running session, kept after it ends for late events. */
+  const contexts = new Map<string, SpanContext>();
+  const open = new Map<string, OpenSpan>();
+  /** Recently ended sessions, oldest first; their late events are not re-exported. */
+  const endedSessions = new Set<string>();
+
+  function startSpan(
+    key: string,
+    context: SpanContext,
+    parent: SpanContext | null,
+    name: string,
+    event: VisualizerEvent,
+    sessionId: string | null = null,
+  ): OpenSpan {
+    const span: OtlpSpan = {
+      traceId: context.traceId,
+      spanId: context.spanId,
+      ...(parent ? { parentSpanId: parent.spanId } : {}),
+      name,
+      kind: 1,
+      startTimeUnixNano: toUnixNano(event.timestamp),
+      endTimeUnixNano: toUnixNano(event.timestamp),
+      attributes: [...attribute('claude.session_id', event.session_id), ...eventAttributes(event)],
+      events: [],
+      status: { code: 0 },
+    };
+    const entry = { span, lastSeen: event.timestamp, touchedAt: clock(), sessionId };
+    open.set(key, entry);
+    return entry;
+  }
+
+  function endSpan(key: string, timestamp: string, incomplete = false, status?: OtlpStatus): void {
+    const entry = open.get(key);
+    if (!entry) return;
+    open.delete(key);
+    entry.span.endTimeUnixNano = toUnixNano(timestamp);
+    if (incomplete) entry.span.attributes.push(...attribute('visualizer.incomplete', true));
+    if (status) entry.span.status = status;
+    onSpan(entry.span);
+  }
+
+  /** Drop the agents of an ended session and remember it, so late events do not reopen its trace. */
+  function forgetSession(sessionId: string, traceId: string): void {
+    for (const [agentId, context] of [...contexts]) {
+      if (context.traceId === traceId) contexts.delete(agentId);
+    }
+    endedSessions.add(sessionId);
+    if (endedSessions.size > MAX_ENDED_SESSIONS) {
+      endedSessions.delete(endedSessions.values().next().value!);
+    }
+  }
+
+  /** The span for events attributed to `agentId`, starting a session span when it is new. */
+  function agentContext(agentId: string, event: VisualizerEvent): SpanContext {
+    let context = contexts.get(agentId);
+    if (!context) {
+      context = { traceId: traceIdForSession(agentId), spanId: hexId(`agent:${agentId}`, 16) };
+      contexts.set(agentId, context);
+      startSpan(`agent:${agentId}`, context, null, 'session', event, agentId);
+    }
+    const entry = open.get(`agent:${agentId}`);
+    if (entry) {
+      entry.lastSeen = event.timestamp;
+      entry.touchedAt = clock();
+    }
+    return context;
+  }
+
+  function addSpanEvent(agentId: string, event: VisualizerEvent): void {
+    agentContext(agentId, event);
+    open.get(`agent:${agentId}`)?.span.events.push({
+      timeUnixNano: toUnixNano(event.timestamp),
+      name: event.type,
+      attributes: eventAttributes(event),
+    });
+  }
+
+  return {
+    add(event) {
+      if (endedSessions.has(event.session_id)) return;
+      switch (event.type) {
+        case 'SessionStarted': {
+          // Started after other events of the session: keep the span, add the details
+          const known = open.get(`agent:${event.session_id}`);
+          if (known) known.span.attributes.push(...eventAttributes(event));
+          else agentContext(event.session_id, event);
+          return;
+        }
+
+        case 'SessionEnded': {
+          const root = contexts.get(event.session_id);
+          if (!root) return;
+          // The Stop hook ends every turn with 'stop'; the session goes on with the next prompt
+          if (event.reason === 'stop') {
+            addSpanEvent(event.session_id, event);
+            return;
+          }
+          const entry = open.get(`agent:${event.session_id}`);
+          entry?.span.attributes.push(...eventAttributes(event));
+          // Anything still running in this trace ends with the session
+          for (const [key, other] of [...open]) {
+            if (other.span.traceId === root.traceId && other.sessionId === null) {
+              endSpan(key, event.timestamp, true);
+            }
+          }
+          endSpan(`agent:${event.session_id}`, event.timestamp);
+          forgetSession(event.session_id, root.traceId);
+          return;
+        }
+
+        case 'AgentSpawned': {
+          const parent = agentContext(event.parent_session_id ?? event.session_id, event);
+          const context = { traceId: parent.traceId, spanId: hexId(`agent:${event.agent_id}`, 16) };
+          contexts.set(event.agent_id, context);
+          startSpan(`agent:${event.agent_id}`, context, parent, `agent ${event.agent_type}`, event);
+          return;
+        }
+
+        case 'AgentCompleted': {
+          const entry = open.get(`agent:${event.agent_id}`);
+          if (!entry || entry.sessionId !== null) return;
+          entry.span.attributes.push(...eventAttributes(event));
+          endSpan(`agent:${event.agent_id}`, event.timestamp);
+          return;
+        }
+
+        case 'ToolCallStarted': {
+          const parent = agentContext(event.session_id, event);
+          const context = { traceId: parent.traceId, spanId: hexId(`tool:${event.tool_use_id}`, 16) };
+          startSpan(`tool:${event.tool_use_id}`, context, parent, event.tool_name, event);
+          return;
+        }
+
+        case 'ToolCallCompleted':
+        case 'ToolCallFailed': {
+          const key = `tool:${event.tool_use_id}`;
+          let entry = open.get(key);
+          if (!entry) {
+            // The start was never seen: reconstruct it from the reported duration
+            const parent = agentContext(event.session_id, event);
+            const context = { traceId: parent.traceId, spanId: hexId(key, 16) };
+            entry = startSpan(key, context, parent, event.tool_name, event);
+            if (event.type === 'ToolCallCompleted' && event.duration_ms > 0) {
+              const startMs = Date.parse(event.timestamp) - event.duration_ms;
+              entry.span.startTimeUnixNano = (BigInt(Math.round(startMs)) * 1_000_000n).toString();
+            }
+          } else {
+            entry.span.attributes.push(...eventAttributes(event));
+          }
+          entry.span.status =
+            event.type === 'ToolCallFailed' ? { code: 2, message: event.error.slice(0, MAX_ATTRIBUTE_LENGTH) } : { code: 1 };
+          endSpan(key, event.timestamp);
+          return;
+        }
+
+        case 'UserPrompt':
+        case 'WaitingForUser':
+        case 'ContextCompaction':
+          addSpanEvent(event.session_id, event);
+          return;
+
+        case 'MessageSent':
+          addSpanEvent(event.from_agent, event);
+          return;
+
+        case 'TokenUsage':
+          addSpanEvent(event.agent_id, event);
+          return;
+      }
+    },
+
+    finish() {
+      // Children first, so each span ends no later than its session
+      const entries = [...open].sort(([, a], [, b]) => Number(a.sessionId !== null) - Number(b.sessionId !== null));
+      for (const [key, entry] of entries) {
+        endSpan(key, entry.lastSeen, true);
+      }
+    },
+
+    evictIdle(idleTtlMs) {
+      // A trace is as recent as its latest span: subagent events do not touch the session span
+      const latest = new Map<string, OpenSpan>();
+      for (const entry of open.values()) {
+        const known = latest.get(entry.span.traceId);
+        if (!known || entry.touchedAt > known.touchedAt) latest.set(entry.span.traceId, entry);
+      }
+      const now = clock();
+      const status: OtlpStatus = { code: 2, message: 'session went idle without ending' };
+      for (const [key, root] of [...open]) {
+        if (root.sessionId === null) continue;
+        const last = latest.get(root.span.traceId)!;
+        if (now - last.touchedAt <= idleTtlMs) continue;
+        for (const [otherKey, other] of [...open]) {
+          if (other.span.traceId === root.span.traceId && other.sessionId === null) {
+            endSpan(otherKey, other.lastSeen, true, status);
+          }
+        }
+        endSpan(key, last.lastSeen, true, status);
+        forgetSession(root.sessionId, root.span.traceId);
+      }
+    },
+  };
+}
+
+/** Wrap spans in an OTLP ExportTraceServiceRequest. */
+export function toOtlpRequest(spans: OtlpSpan[]): OtlpTraceRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: attribute('service.name', SERVICE_NAME) },
+        scopeSpans: [{ scope: { name: SCOPE_NAME }, spans }],
+      },
+    ],
+  };
+}
+
+/** Build the whole trace of a stored session. Returns null when it has no events. */
+export function getSessionOtlp(db: Database, sessionId: string): OtlpTraceRequest | null {
+  const rows = db
+    .prepare('SELECT payload FROM events WHERE session_id = ? ORDER BY timestamp ASC, rowid ASC')
+    .all(sessionId) as { payload: string }[];
+  if (rows.length === 0) return null;
+
+  const spans: OtlpSpan[] = [];
+  const builder = createTraceBuilder((span) => spans.push(span));
+  for (const row of rows) {
+    builder.add(JSON.parse(row.payload) as VisualizerEvent);
+  }
+  builder.finish();
+  return toOtlpRequest(spans);
+}
+
+// ---------------------------------------------------------------------------
+// Streaming to a collector
+// ---------------------------------------------------------------------------
+
+export interface OtlpExporterOptions {
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+  flushIntervalMs?: number;
+  maxBatchSize?: number;
+  timeoutMs?: number;
+  /** How long a session may go without events before its open spans are exported. */
+  idleTtlMs?: number;
+  clock?: () => number;
+}
+
+export interface OtlpExporterStats {
+  endpoint: string;
+  exportedSpans: number;
+  failedSpans: number;
+  lastError: string | null;
+}
+
+export interface OtlpExporter {
+  /** Feed a newly stored event; spans it finishes are queued for the next flush. */
+  export(event: VisualizerEvent): void;
+  /** Send queued spans now. Failed batches are dropped and counted, not retried. */
+  flush(): Promise<void>;
+  stop(): void;
+  stats(): OtlpExporterStats;
+}
+
+/** Thrown when CLAUDE_VISUALIZER_OTLP_ENDPOINT cannot be used. */
+export class OtlpConfigError extends Error {
+  constructor(endpoint: string) {
+    super(
+      `Invalid CLAUDE_VISUALIZER_OTLP_ENDPOINT "${endpoint}": expected an http(s) URL on localhost, 127.0.0.1 or [::1]`,
+    );
+    this.name = 'OtlpConfigError';
+  }
+}
+
+/**
+ * Traces endpoint from CLAUDE_VISUALIZER_OTLP_ENDPOINT, or null when unset.
+ * A bare collector address gets the standard `/v1/traces` path. Only loopback
+ * collectors are accepted: spans carry prompts and tool input.
+ */
+export function parseOtlpEndpoint(env: Record<string, string | undefined> = process.env): string | null {
+  const value = env.CLAUDE_VISUALIZER_OTLP_ENDPOINT;
+  if (!value) return null;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new OtlpConfigError(value);
+  }
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !LOOPBACK_HOSTS.has(url.hostname.toLowerCase())) {
+    throw new OtlpConfigError(value);
+  }
+  if (url.pathname === '/' || url.pathname === '') url.pathname = '/v1/traces';
+  return url.toString();
+}
+
+/** Idle time before a session's open spans are exported, from CLAUDE_VISUALIZER_OTLP_IDLE_MINUTES. */
+export function parseOtlpIdleTtl(env: Record<string, string | undefined> = process.env): number {
+  const minutes = Number(env.CLAUDE_VISUALIZER_OTLP_IDLE_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : DEFAULT_IDLE_TTL_MS;
+}
+
+export function createOtlpExporter(endpoint: string, options: OtlpExporterOptions = {}): OtlpExporter {
+  const send = options.fetch ?? ((input, init) => fetch(input, init));
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const idleTtlMs = options.idleTtlMs ?? DEFAULT_IDLE_TTL_MS;
+  const clock = options.clock ?? Date.now;
+
+  let queue: OtlpSpan[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let exportedSpans = 0;
+  let failedSpans = 0;
+  let lastError: string | null = null;
+  let lastSweep = clock();
+
+  const builder = createTraceBuilder((span) => {
+    queue.push(span);
+    if (queue.length >= maxBatchSize) {
+      void flush();
+    } else if (timer === null) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+    }
+  }, clock);
+
+  async function flush(): Promise<void> {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+    const spans = queue;
+    queue = [];
+
+    try {
+      const res = await send(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toOtlpRequest(spans)),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      exportedSpans += spans.length;
+      lastError = null;
+    } catch (err) {
+      // Never let a collector outage affect ingestion; surface it via /api/health
+      failedSpans += spans.length;
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return {
+    export(event) {
+      builder.add(event);
+      // Sessions that crashed or were killed never send SessionEnded; export what they left open
+      if (clock() - lastSweep >= IDLE_SWEEP_INTERVAL_MS) {
+        lastSweep = clock();
+        builder.evictIdle(idleTtlMs);
+      }
+    },
+
+    flush,
+
+    stop() {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    stats() {
+      return { endpoint, exportedSpans, failedSpans, lastError };
+    },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Per-session ingest rate limiting.
+ *
+ * Each session_id gets a token bucket that holds up to `burst` tokens and
+ * refills at `ratePerSecond`. Every POSTed event takes one token; an event
+ * arriving at an empty bucket is dropped and the request answered with 429
+ * and Retry-After, so a runaway loop in one session cannot flood storage and
+ * every connected client. Drops are counted and reported in /api/health.
+ *
+ * Configured through environment variables:
+ *   CLAUDE_VISUALIZER_RATE_LIMIT   events per second per session (default 50, 0 disables)
+ *   CLAUDE_VISUALIZER_RATE_BURST   bucket size (default 200)
+ */
+
+const DEFAULT_RATE_PER_SECOND = 50;
+const DEFAULT_BURST = 200;
+
+/** Minimum time between notices telling clients that a session is being limited. */
+export const RATE_LIMIT_NOTICE_INTERVAL_MS = 1000;
+
+/** A session counts as rate limited in stats while it dropped an event this recently. */
+const LIMITED_WINDOW_MS = 10_000;
+
+/** Sessions whose drop counts are reported; the least recently limited are forgotten first. */
+const MAX_REPORTED_SESSIONS = 20;
+
+/** Buckets kept before full (idle) ones are swept. */
+const SWEEP_THRESHOLD = 1000;
+
+export interface RateLimitConfig {
+  /** Null disables rate limiting. */
+  ratePerSecond: number | null;
+  burst: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Seconds until a token is available; 0 when allowed. */
+  retryAfterSeconds: number;
+  /** Events dropped for this session so far. */
+  dropped: number;
+  /**
+   * True for the first drop of a session, then at most once per
+   * RATE_LIMIT_NOTICE_INTERVAL_MS, so callers can tell clients without
+   * flooding them in turn.
+   */
+  notify: boolean;
+}
+
+export interface RateLimitedSession {
+  session_id: string;
+  dropped: number;
+  last_dropped_at: string;
+}
+
+export interface RateLimitStats {
+  enabled: boolean;
+  ratePerSecond: number | null;
+  burst: number;
+  /** Events dropped since the server started. */
+  dropped: number;
+  /** Sessions that dropped an event in the last 10 seconds. */
+  limitedSessions: number;
+  /** Recently limited sessions, most recent first. */
+  sessions: RateLimitedSession[];
+}
+
+export interface RateLimiter {
+  take(sessionId: string, now?: number): RateLimitDecision;
+  stats(now?: number): RateLimitStats;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DropRecord {
+  dropped: number;
+  lastDroppedAt: number;
+  lastNoticeAt: number;
+}
+
+/** Parse a non-negative number from an env var, or null when unset/invalid. */
+function nonNegativeNumber(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function parseRateLimitConfig(env: Record<string, string | undefined> = process.env): RateLimitConfig {
+  const rate = nonNegativeNumber(env.CLAUDE_VISUALIZER_RATE_LIMIT) ?? DEFAULT_RATE_PER_SECOND;
+  const burst = nonNegativeNumber(env.CLAUDE_VISUALIZER_RATE_BURST);
+  return {
+    ratePerSecond: rate > 0 ? rate : null,
+    burst: burst !== null && burst >= 1 ? Math.floor(burst) : DEFAULT_BURST,
+  };
+}
+
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const { ratePerSecond, burst } = config;
+  const buckets = new Map<string, Bucket>();
+  // Map order doubles as recency: a session is re-inserted on every drop
+  const drops = new Map<string, DropRecord>();
+  let totalDropped = 0;
+
+  function refill(bucket: Bucket, now: number): void {
+    const elapsed = Math.max(now - bucket.updatedAt, 0) / 1000;
+    bucket.tokens = Math.min(burst, bucket.tokens + elapsed * ratePerSecond!);
+    bucket.updatedAt = now;
+  }
+
+  function sweep(now: number): void {
+    for (const [sessionId, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= burst) buckets.delete(sessionId);
+    }
+  }
+
+  function recordDrop(sessionId: string, now: number): DropRecord & { notify: boolean } {
+    const record = drops.get(sessionId) ?? { dropped: 0, lastDroppedAt: now, lastNoticeAt: -Infinity };
+    record.dropped++;
+    record.lastDroppedAt = now;
+    const notify = now - record.lastNoticeAt >= RATE_LIMIT_NOTICE_INTERVAL_MS;
+    if (notify) record.lastNoticeAt = now;
+
+    drops.delete(sessionId);
+    drops.set(sessionId, record);
+    if (drops.size > MAX_REPORTED_SESSIONS) {
+      drops.delete(drops.keys().next().value!);
+    }
+    totalDropped++;
+    return { ...record, notify };
+  }
+
+  return {
+    take(sessionId, now = Date.now()) {
+      if (ratePerSecond === null) {
+        return { allowed: true, retryAfterSeconds: 0, dropped: 0, notify: false };
+      }
+
+      let bucket = buckets.get(sessionId);
+      if (!bucket) {
+        if (buckets.size >= SWEEP_THRESHOLD) sweep(now);
+        bucket = { tokens: burst, updatedAt: now };
+        buckets.set(sessionId, bucket);
+      } else {
+        refill(bucket, now);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterSeconds: 0, dropped: drops.get(sessionId)?.dropped ?? 0, notify: false };
+      }
+
+      const record = recordDrop(sessionId, now);
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / ratePerSecond)),
+        dropped: record.dropped,
+        notify: record.notify,
+      };
+    },
+
+    stats(now = Date.now()) {
+      const recent = [...drops].reverse();
+      return {
+        enabled: ratePerSecond !== null,
+        ratePerSecond,
+        burst,
+        dropped: totalDropped,
+        limitedSessions: recent.filter(([, r]) => now - r.lastDroppedAt < LIMITED_WINDOW_MS).length,
+        sessions: recent.map(([sessionId, r]) => ({
+          session_id: sessionId,
+          dropped: r.dropped,
+          last_dropped_at: new Date(r.lastDroppedAt).toISOString(),
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Retention policy for the events table.
+ *
+ * Deletes events older than a maximum age, events belonging to all but the
+ * most recent N sessions, and the oldest events beyond a maximum row count.
+ * After anything is deleted the WAL is checkpointed and the database is
+ * vacuumed so the file on disk actually shrinks.
+ *
+ * Configured through environment variables; every limit is disabled (keep
+ * forever) unless set:
+ *   CLAUDE_VISUALIZER_RETENTION_DAYS       max event age in days
+ *   CLAUDE_VISUALIZER_MAX_EVENTS           max stored events
+ *   CLAUDE_VISUALIZER_MAX_SESSIONS         max stored sessions
+ *   CLAUDE_VISUALIZER_RETENTION_INTERVAL   minutes between runs (default 60)
+ */
+import type { Database } from 'bun:sqlite';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionConfig {
+  maxAgeDays: number | null;
+  maxEvents: number | null;
+  maxSessions: number | null;
+  intervalMs: number;
+}
+
+export interface RetentionRunResult {
+  deletedByAge: number;
+  deletedBySessions: number;
+  deletedByCount: number;
+  deleted: number;
+}
+
+export interface RetentionStats {
+  enabled: boolean;
+  maxAgeDays: number | null;
+  maxEvents: number | null;
+  maxSessions: number | null;
+  intervalMs: number;
+  runs: number;
+  lastRunAt: string | null;
+  lastDeleted: number;
+  totalDeleted: number;
+  lastError: string | null;
+}
+
+export interface RetentionJob {
+  start(): void;
+  stop(): void;
+  runNow(now?: number): RetentionRunResult;
+  stats(): RetentionStats;
+}
+
+/** Parse a positive number from an env var, or null when unset/invalid. */
+function positiveNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function parseRetentionConfig(env: Record<string, string | undefined> = process.env): RetentionConfig {
+  const maxEvents = positiveNumber(env.CLAUDE_VISUALIZER_MAX_EVENTS);
+  const maxSessions = positiveNumber(env.CLAUDE_VISUALIZER_MAX_SESSIONS);
+  const intervalMinutes = positiveNumber(env.CLAUDE_VISUALIZER_RETENTION_INTERVAL) ?? DEFAULT_INTERVAL_MINUTES;
+  return {
+    maxAgeDays: positiveNumber(env.CLAUDE_VISUALIZER_RETENTION_DAYS),
+    maxEvents: maxEvents === null ? null : Math.floor(maxEvents),
+    maxSessions: maxSessions === null ? null : Math.floor(maxSessions),
+    intervalMs: intervalMinutes * 60 * 1000,
+  };
+}
+
+export function isRetentionEnabled(config: RetentionConfig): boolean {
+  return config.maxAgeDays !== null || config.maxEvents !== null || config.maxSessions !== null;
+}
+
+/**
+ * Apply the retention limits once. Deletions run in a single transaction;
+ * checkpoint and VACUUM follow only when rows were actually removed.
+ */
+export function applyRetention(db: Database, config: RetentionConfig, now = Date.now()): RetentionRunResult {
+  const result: RetentionRunResult = { deletedByAge: 0, deletedBySessions: 0, deletedByCount: 0, deleted: 0 };
+
+  // Statement change counts include rows the derived-table triggers delete, so count the events themselves
+  const countEvents = () => (db.prepare('SELECT COUNT(*) AS n FROM events').get() as { n: number }).n;
+  const deleteEvents = (sql: string, param: string | number): number => {
+    const before = countEvents();
+    db.prepare(sql).run(param);
+    return before - countEvents();
+  };
+
+  const prune = db.transaction(() => {
+    if (config.maxAgeDays !== null) {
+      const cutoff = new Date(now - config.maxAgeDays * DAY_MS).toISOString();
+      result.deletedByAge = deleteEvents('DELETE FROM events WHERE timestamp < ?', cutoff);
+    }
+
+    if (config.maxSessions !== null) {
+      result.deletedBySessions = deleteEvents(
+        `
+          DELETE FROM events WHERE session_id NOT IN (
+            SELECT session_id FROM events
+            GROUP BY session_id
+            ORDER BY MAX(timestamp) DESC
+            LIMIT ?
+          )
+        `,
+        config.maxSessions,
+      );
+    }
+
+    if (config.maxEvents !== null) {
+      result.deletedByCount = deleteEvents(
+        `
+          DELETE FROM events WHERE rowid IN (
+            SELECT rowid FROM events ORDER BY timestamp DESC LIMIT -1 OFFSET ?
+          )
+        `,
+        config.maxEvents,
+      );
+    }
+  });
+  prune();
+
+  result.deleted = result.deletedByAge + result.deletedBySessions + result.deletedByCount;
+
+  if (result.deleted > 0) {
+    db.run('PRAGMA wal_checkpoint(TRUNCATE)');
+    db.run('VACUUM');
+  }
+
+  return result;
+}
+
+export function createRetentionJob(db: Database, config: RetentionConfig): RetentionJob {
+  const enabled = isRetentionEnabled(config);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let runs = 0;
+  let lastRunAt: string | null = null;
+  let lastDeleted = 0;
+  let totalDeleted = 0;
+  let lastError: string | null = null;
+
+  function runNow(now = Date.now()): RetentionRunResult {
+    const result = applyRetention(db, config, now);
+    runs++;
+    lastRunAt = new Date(now).toISOString();
+    lastDeleted = result.deleted;
+    totalDeleted += result.deleted;
+    return result;
+  }
+
+  function tick() {
+    try {
+      runNow();
+      lastError = null;
+    } catch (err) {
+      // Never let a failed cleanup take down the server; surface it via /api/health
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return {
+    start() {
+      if (!enabled || timer !== null) return;
+      tick();
+      timer = setInterval(tick, config.intervalMs);
+    },
+
+    stop() {
+      if (timer !== null) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+
+    runNow,
+
+    stats() {
+      return {
+        enabled,
+        maxAgeDays: config.maxAgeDays,
+        maxEvents: config.maxEvents,
+        maxSessions: config.maxSessions,
+        intervalMs: config.intervalMs,
+        runs,
+        lastRunAt,
+        lastDeleted,
+        totalDeleted,
+        lastError,
+      };
+    },
+  };
+}
@@ -1,9 +1,37 @@
 import type { Database } from 'bun:sqlite';
 import type { WebSocketHandler } from './websocket';
-import { validateEvent } from './validation';
-import { insertEvent, getEvents, getEventById, getSessions, getEventCount } from './database';
+import type { SseHandler } from './sse';
+import type { RetentionJob } from './retention';
+import type { AuthGuard } from './auth';
+import type { RateLimiter, RateLimitDecision } from './rate-limit';
+import { METRICS_CONTENT_TYPE, type Metrics } from './metrics';
+import { DELIVERY_STATUSES, type DeliveryStatus, type WebhookDispatcher } from './webhooks';
+import { getSessionOtlp, type OtlpExporter } from './otlp';
+import { getSessionChromeTrace } from './chrome-trace';
+import { validateEvent, rejectionReason } from './validation';
+import {
+  insertEvent,
+  getEvents,
+  getEventsPage,
+  decodeCursor,
+  getEventById,
+  getEventCount,
+  getDatabaseSize,
+  type EventQueryFilters,
+} from './database';
 import { serveStatic } from './static';
+import { getSessionStats } from './stats';
+import { searchEvents } from './search';
+import { exportSession, importArchive } from './archive';
+import { backfillTranscripts } from './backfill';
+import { getSessionTree } from './tree';
+import { getProjects, getSessionSummaries } from './sessions';
+import { getSessionUsage } from './usage';
+import { queryToolCalls, TOOL_CALL_SORT_FIELDS, type ToolCallOutcome, type ToolCallSortField } from './tool-calls';
 import type { ServerMessage } from '@shared/messages';
+import type { VisualizerEvent } from '@shared/events';
+import { DEFAULT_PRICING, type PricingTable } from '@shared/pricing';
+import { TOKEN_HEADER } from '@shared/connection';
 
 /** Loopback origin patterns: localhost, 127.0.0.1, [::1] with any port or no port. */
 const LOOPBACK_ORIGIN_RE = /^http:\/\/(?:localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/;
@@ -29,7 +57,7 @@ function corsHeaders(req: Request): Record<string, string> {
   const origin = getAllowedOrigin(req);
   const headers: Record<string, string> = {
     'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': `Content-Type, ${TOKEN_HEADER}`,
   };
   if (origin) {
     headers['Access-Control-Allow-Origin'] = origin;
@@ -37,13 +65,38 @@ function corsHeaders(req: Request): Record<string, string> {
   return headers;
 }
 
+/** Optional collaborators wired up by the server entry point. */
+export interface RouteServices {
+  sse?: SseHandler;
+  retention?: RetentionJob;
+  auth?: AuthGuard;
+  metrics?: Metrics;
+  webhooks?: WebhookDispatcher;
+  rateLimit?: RateLimiter;
+  otlp?: OtlpExporter;
+  /** Model prices for cost estimates; the list prices when not configured. */
+  pricing?: PricingTable;
+  /** Claude Code transcripts directory read by POST /api/backfill. */
+  projectsDir?: string;
+}
+
 const startTime = Date.now();
 
+/** Largest body accepted by POST routes other than /api/import. */
+export const MAX_REQUEST_BODY_BYTES = 1_048_576;
+
+/** Largest session archive accepted by POST /api/import; also the server-wide body limit. */
+export const MAX_IMPORT_BODY_BYTES = 64 * 1_048_576;
+
+/** Matches per-session sub-resources: /api/sessions/:id/<resource> */
+const SESSION_RESOURCE_RE = /^\/api\/sessions\/([^/]+)\/([a-z-]+)$/;
+
 export async function handleRequest(
   req: Request,
   db: Database,
   ws: WebSocketHandler,
   clientDir?: string | null,
+  services: RouteServices = {},
 ): Promise<Response> {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -60,12 +113,60 @@ export async function handleRequest(
       uptime: Math.floor((Date.now() - startTime) / 1000),
       eventCount: getEventCount(db),
       clientCount: ws.clientCount(),
+      ...(services.retention ? { retention: services.retention.stats() } : {}),
+      ...(services.rateLimit ? { rateLimit: services.rateLimit.stats() } : {}),
+      ...(services.otlp ? { otlp: services.otlp.stats() } : {}),
+    });
+  }
+
+  // Prometheus scrape endpoint — outside /api/, but it reveals activity, so it takes the token too;
+  // scrapers send it as a bearer token
+  if (req.method === 'GET' && path === '/metrics' && services.metrics) {
+    if (services.auth && !services.auth.isAuthorized(req)) {
+      return json(req, { error: 'Unauthorized' }, 401);
+    }
+    const body = services.metrics.render({
+      websocketClients: ws.clientCount(),
+      sseClients: services.sse?.clientCount() ?? 0,
+      dbSizeBytes: getDatabaseSize(db),
     });
+    return new Response(body, { headers: { ...corsHeaders(req), 'Content-Type': METRICS_CONTENT_TYPE } });
+  }
+
+  // Token auth — everything under /api/ except the health check above.
+  // Pages opened with ?token= set the auth cookie and redirect to the clean URL.
+  if (services.auth?.enabled) {
+    if (!path.startsWith('/api/')) {
+      const redirect = services.auth.loginRedirect(url);
+      if (redirect) return redirect;
+    } else if (!services.auth.isAuthorized(req)) {
+      return json(req, { error: 'Unauthorized' }, 401);
+    }
   }
 
   // POST /api/events — ingest a hook event
   if (req.method === 'POST' && path === '/api/events') {
-    return handlePostEvent(req, db, ws);
+    return handlePostEvent(req, db, ws, services);
+  }
+
+  // POST /api/events/batch — ingest several hook events in one transaction
+  if (req.method === 'POST' && path === '/api/events/batch') {
+    return handlePostEventBatch(req, db, ws, services);
+  }
+
+  // POST /api/import — import an NDJSON session archive
+  if (req.method === 'POST' && path === '/api/import') {
+    return handleImport(req, db);
+  }
+
+  // POST /api/backfill — import sessions from Claude Code transcripts on disk
+  if (req.method === 'POST' && path === '/api/backfill') {
+    return handleBackfill(req, db, services.projectsDir);
+  }
+
+  // GET /api/stream — Server-Sent Events alternative to /ws
+  if (req.method === 'GET' && path === '/api/stream' && services.sse) {
+    return services.sse.handle(req, url, corsHeaders(req));
   }
 
   // GET /api/events/:id — single event by ID
@@ -81,9 +182,70 @@ export async function handleRequest(
     return handleGetEvents(req, url, db);
   }
 
+  // GET /api/search?q= — full-text search over prompts, tool inputs and errors
+  if (req.method === 'GET' && path === '/api/search') {
+    return handleSearch(req, url, db);
+  }
+
+  // GET /api/tool-calls — paired tool calls with filters and sorting
+  if (req.method === 'GET' && path === '/api/tool-calls') {
+    return handleGetToolCalls(req, url, db);
+  }
+
+  // GET /api/sessions/:id/<resource> — per-session views
+  const sessionMatch = req.method === 'GET' ? SESSION_RESOURCE_RE.exec(path) : null;
+  if (sessionMatch) {
+    const sessionId = decodeSegment(sessionMatch[1]);
+    if (sessionId === null) {
+      return json(req, { error: 'Invalid session id' }, 400);
+    }
+    if (sessionMatch[2] === 'stats') {
+      return handleGetSessionStats(req, db, sessionId);
+    }
+    if (sessionMatch[2] === 'export') {
+      return handleExportSession(req, db, sessionId);
+    }
+    if (sessionMatch[2] === 'tree') {
+      return handleGetSessionTree(req, db, sessionId);
+    }
+    if (sessionMatch[2] === 'otlp') {
+      return handleGetSessionOtlp(req, db, sessionId);
+    }
+    if (sessionMatch[2] === 'chrome-trace') {
+      return handleGetSessionChromeTrace(req, db, sessionId);
+    }
+    if (sessionMatch[2] === 'usage') {
+      return handleGetSessionUsage(req, db, sessionId, services.pricing ?? DEFAULT_PRICING);
+    }
+  }
+
   // GET /api/sessions — list distinct sessions
   if (req.method === 'GET' && path === '/api/sessions') {
-    return json(req, getSessions(db));
+    return json(req, getSessionSummaries(db, services.pricing));
+  }
+
+  // GET /api/projects — sessions grouped by git root (or working directory)
+  if (req.method === 'GET' && path === '/api/projects') {
+    return json(req, getProjects(db, services.pricing));
+  }
+
+  // GET /api/pricing — model prices used for cost estimates, per million tokens
+  if (req.method === 'GET' && path === '/api/pricing') {
+    return json(req, services.pricing ?? DEFAULT_PRICING);
+  }
+
+  // GET /api/webhooks/deliveries — recent outbound webhook deliveries, newest first
+  if (req.method === 'GET' && path === '/api/webhooks/deliveries') {
+    const status = url.searchParams.get('status');
+    if (status !== null && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+      return json(req, { error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` }, 400);
+    }
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return json(req, { error: 'limit must be a positive integer' }, 400);
+    }
+    return json(req, services.webhooks?.deliveries({ status: (status as DeliveryStatus) ?? undefined, limit }) ?? []);
   }
 
   // Static file serving (production mode) — only for non-API routes
@@ -99,16 +261,31 @@ async function handlePostEvent(
   req: Request,
   db: Database,
   ws: WebSocketHandler,
+  services: RouteServices,
 ): Promise<Response> {
   try {
-    const body = await req.json();
+    const text = await readBody(req, MAX_REQUEST_BODY_BYTES);
+    if (text === null) {
+      services.metrics?.eventRejected('payload_too_large');
+      return payloadTooLarge(req, MAX_REQUEST_BODY_BYTES);
+    }
+    const body = JSON.parse(text);
     const { event, result } = validateEvent(body);
 
     if (!event) {
-      return json(req, { error: result.error }, 400);
+      services.metrics?.eventRejected(rejectionReason(result));
+      return json(req, { error: result.error, path: result.path }, 400);
+    }
+
+    const decision = services.rateLimit?.take(event.session_id);
+    if (decision && !decision.allowed) {
+      rejectRateLimited(ws, services, event, decision);
+      const res = json(req, { error: 'Rate limit exceeded', retry_after: decision.retryAfterSeconds }, 429);
+      res.headers.set('Retry-After', String(decision.retryAfterSeconds));
+      return res;
     }
 
-    insertEvent(db, {
+    const seq = insertEvent(db, {
       id: event.id,
       type: event.type,
       session_id: event.session_id,
@@ -116,8 +293,15 @@ async function handlePostEvent(
       payload: JSON.stringify(event),
     });
 
-    const message: ServerMessage = { type: 'event', data: event };
-    ws.broadcast(message);
+    // Duplicates were already broadcast when first stored
+    if (seq !== null) {
+      recordIngested(services, event);
+      const message: ServerMessage = { type: 'event', seq, data: event };
+      ws.broadcast(message);
+      services.sse?.broadcast(event, seq);
+      services.webhooks?.dispatch(event);
+      services.otlp?.export(event);
+    }
 
     return json(req, { ok: true }, 201);
   } catch {
@@ -125,6 +309,131 @@ async function handlePostEvent(
   }
 }
 
+/** Count an event dropped by the rate limiter and, now and then, tell clients. */
+function rejectRateLimited(
+  ws: WebSocketHandler,
+  services: RouteServices,
+  event: VisualizerEvent,
+  decision: RateLimitDecision,
+): void {
+  services.metrics?.eventRejected('rate_limited');
+  if (decision.notify) {
+    const message: ServerMessage = {
+      type: 'rate_limited',
+      sessionId: event.session_id,
+      dropped: decision.dropped,
+      retryAfterSeconds: decision.retryAfterSeconds,
+    };
+    ws.broadcast(message);
+  }
+}
+
+/** Count a newly stored event, and its duration when it completes a tool call. */
+function recordIngested(services: RouteServices, event: VisualizerEvent): void {
+  if (!services.metrics) return;
+  services.metrics.eventIngested(event.type);
+  if (event.type === 'ToolCallCompleted') {
+    services.metrics.toolCallDuration(event.tool_name, event.duration_ms);
+  }
+}
+
+/** Upper bound on events accepted by a single POST /api/events/batch. */
+export const MAX_BATCH_SIZE = 100;
+
+type BatchItemResult =
+  | { index: number; id: string; ok: true }
+  | { index: number; ok: false; error: string; path?: string };
+
+async function handlePostEventBatch(
+  req: Request,
+  db: Database,
+  ws: WebSocketHandler,
+  services: RouteServices,
+): Promise<Response> {
+  const text = await readBody(req, MAX_REQUEST_BODY_BYTES);
+  if (text === null) {
+    services.metrics?.eventRejected('payload_too_large');
+    return payloadTooLarge(req, MAX_REQUEST_BODY_BYTES);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    services.metrics?.eventRejected('invalid_json');
+    return json(req, { error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!Array.isArray(body)) {
+    services.metrics?.eventRejected('invalid_body');
+    return json(req, { error: 'Batch body must be an array of events' }, 400);
+  }
+  if (body.length > MAX_BATCH_SIZE) {
+    services.metrics?.eventRejected('batch_too_large');
+    return json(req, { error: `Batch exceeds maximum of ${MAX_BATCH_SIZE} events` }, 400);
+  }
+
+  try {
+    const results: BatchItemResult[] = [];
+    const accepted: VisualizerEvent[] = [];
+    const stored: { seq: number; event: VisualizerEvent }[] = [];
+    let retryAfter = 0;
+
+    const insertAll = db.transaction(() => {
+      body.forEach((item, index) => {
+        const { event, result } = validateEvent(item);
+        if (!event) {
+          services.metrics?.eventRejected(rejectionReason(result));
+          results.push({ index, ok: false, error: result.error ?? 'Invalid event', path: result.path });
+          return;
+        }
+        const decision = services.rateLimit?.take(event.session_id);
+        if (decision && !decision.allowed) {
+          rejectRateLimited(ws, services, event, decision);
+          retryAfter = Math.max(retryAfter, decision.retryAfterSeconds);
+          results.push({ index, ok: false, error: 'Rate limit exceeded' });
+          return;
+        }
+        const seq = insertEvent(db, {
+          id: event.id,
+          type: event.type,
+          session_id: event.session_id,
+          timestamp: event.timestamp,
+          payload: JSON.stringify(event),
+        });
+        results.push({ index, id: event.id, ok: true });
+        accepted.push(event);
+        if (seq !== null) stored.push({ seq, event });
+      });
+    });
+    insertAll();
+
+    // Broadcast only after the transaction has committed, preserving input order
+    for (const { seq, event } of stored) {
+      recordIngested(services, event);
+      const message: ServerMessage = { type: 'event', seq, data: event };
+      ws.broadcast(message);
+      services.sse?.broadcast(event, seq);
+      services.webhooks?.dispatch(event);
+      services.otlp?.export(event);
+    }
+
+    const res = json(
+      req,
+      {
+        accepted: accepted.length,
+        rejected: results.length - accepted.length,
+        results,
+      },
+      // Only a batch that was refused entirely for the rate limit is a 429
+      retryAfter > 0 && accepted.length === 0 ? 429 : 200,
+    );
+    if (retryAfter > 0) res.headers.set('Retry-After', String(retryAfter));
+    return res;
+  } catch {
+    return json(req, { error: 'Failed to process batch' }, 500);
+  }
+}
+
 function handleGetEventById(req: Request, db: Database, id: string): Response {
   const event = getEventById(db, id);
   if (!event) {
@@ -136,13 +445,194 @@ function handleGetEventById(req: Request, db: Database, id: string): Response {
 function handleGetEvents(req: Request, url: URL, db: Database): Response {
   const session_id = url.searchParams.get('session_id') || undefined;
   const type = url.searchParams.get('type') || undefined;
+  const fromTimestamp = url.searchParams.get('from') || undefined;
+  const toTimestamp = url.searchParams.get('to') || undefined;
   const limit = Math.min(Number(url.searchParams.get('limit')) || 100, 1000);
   const offset = Number(url.searchParams.get('offset')) || 0;
 
-  const events = getEvents(db, { session_id, type, limit, offset });
+  const order = url.searchParams.get('order') || 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    return json(req, { error: '"order" must be "asc" or "desc"' }, 400);
+  }
+  const filters: EventQueryFilters = { session_id, type, fromTimestamp, toTimestamp, order };
+
+  // Keyset pagination: `after` (empty for the first page) switches the
+  // response to { events, next_cursor }
+  const after = url.searchParams.get('after');
+  if (after !== null) {
+    const cursor = after ? decodeCursor(after) : null;
+    if (after && !cursor) {
+      return json(req, { error: 'Invalid cursor' }, 400);
+    }
+    if (cursor && cursor.order !== order) {
+      return json(req, { error: `Cursor was issued for order=${cursor.order}` }, 400);
+    }
+    return json(req, getEventsPage(db, filters, cursor, limit));
+  }
+
+  const events = getEvents(db, { ...filters, limit, offset });
   return json(req, events);
 }
 
+function handleSearch(req: Request, url: URL, db: Database): Response {
+  const q = url.searchParams.get('q')?.trim();
+  if (!q) {
+    return json(req, { error: 'Missing "q" query parameter' }, 400);
+  }
+  const session_id = url.searchParams.get('session_id') || undefined;
+  const limit = Number(url.searchParams.get('limit')) || undefined;
+  return json(req, searchEvents(db, q, { session_id, limit }));
+}
+
+const TOOL_CALL_OUTCOMES: ToolCallOutcome[] = ['running', 'succeeded', 'failed'];
+
+function handleGetToolCalls(req: Request, url: URL, db: Database): Response {
+  const params = url.searchParams;
+
+  const sort = params.get('sort') || undefined;
+  if (sort !== undefined && !(TOOL_CALL_SORT_FIELDS as readonly string[]).includes(sort)) {
+    return json(req, { error: `"sort" must be one of: ${TOOL_CALL_SORT_FIELDS.join(', ')}` }, 400);
+  }
+  const order = params.get('order') || undefined;
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return json(req, { error: '"order" must be "asc" or "desc"' }, 400);
+  }
+  const outcome = params.get('outcome') || undefined;
+  if (outcome !== undefined && !(TOOL_CALL_OUTCOMES as string[]).includes(outcome)) {
+    return json(req, { error: `"outcome" must be one of: ${TOOL_CALL_OUTCOMES.join(', ')}` }, 400);
+  }
+  const minDuration = params.get('min_duration_ms');
+  if (minDuration !== null && !Number.isFinite(Number(minDuration))) {
+    return json(req, { error: '"min_duration_ms" must be a number' }, 400);
+  }
+
+  return json(
+    req,
+    queryToolCalls(db, {
+      session_id: params.get('session_id') || undefined,
+      tool_name: params.get('tool_name') || undefined,
+      outcome: outcome as ToolCallOutcome | undefined,
+      min_duration_ms: minDuration !== null ? Number(minDuration) : undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      sort: sort as ToolCallSortField | undefined,
+      order,
+      limit: Number(params.get('limit')) || undefined,
+      offset: Number(params.get('offset')) || undefined,
+    }),
+  );
+}
+
+function handleGetSessionStats(req: Request, db: Database, sessionId: string): Response {
+  const stats = getSessionStats(db, sessionId);
+  if (!stats) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  return json(req, stats);
+}
+
+function handleGetSessionTree(req: Request, db: Database, sessionId: string): Response {
+  const tree = getSessionTree(db, sessionId);
+  if (!tree) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  return json(req, tree);
+}
+
+function handleGetSessionUsage(req: Request, db: Database, sessionId: string, pricing: PricingTable): Response {
+  const usage = getSessionUsage(db, sessionId, pricing);
+  if (!usage) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  return json(req, usage);
+}
+
+function handleGetSessionOtlp(req: Request, db: Database, sessionId: string): Response {
+  const trace = getSessionOtlp(db, sessionId);
+  if (!trace) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  return json(req, trace);
+}
+
+function handleGetSessionChromeTrace(req: Request, db: Database, sessionId: string): Response {
+  const trace = getSessionChromeTrace(db, sessionId);
+  if (!trace) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  const filename = `session-${sessionId.replace(/[^A-Za-z0-9._-]/g, '_')}.trace.json`;
+  return new Response(JSON.stringify(trace), {
+    headers: {
+      ...corsHeaders(req),
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+function handleExportSession(req: Request, db: Database, sessionId: string): Response {
+  const archive = exportSession(db, sessionId);
+  if (archive === null) {
+    return json(req, { error: 'Session not found' }, 404);
+  }
+  const filename = `session-${sessionId.replace(/[^A-Za-z0-9._-]/g, '_')}.ndjson`;
+  return new Response(archive, {
+    headers: {
+      ...corsHeaders(req),
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+async function handleImport(req: Request, db: Database): Promise<Response> {
+  try {
+    const body = await readBody(req, MAX_IMPORT_BODY_BYTES);
+    if (body === null) return payloadTooLarge(req, MAX_IMPORT_BODY_BYTES);
+    return json(req, importArchive(db, body));
+  } catch {
+    return json(req, { error: 'Failed to import archive' }, 500);
+  }
+}
+
+async function handleBackfill(req: Request, db: Database, projectsDir?: string): Promise<Response> {
+  try {
+    return json(req, await backfillTranscripts(db, projectsDir));
+  } catch {
+    return json(req, { error: 'Failed to backfill transcripts' }, 500);
+  }
+}
+
+/**
+ * The request body as text, or null when it is larger than `maxBytes`.
+ * Bodies without a Content-Length are read only up to the limit.
+ */
+async function readBody(req: Request, maxBytes: number): Promise<string | null> {
+  if (Number(req.headers.get('Content-Length')) > maxBytes) return null;
+  if (!req.body) return '';
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of req.body) {
+    size += chunk.byteLength;
+    if (size > maxBytes) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function payloadTooLarge(req: Request, maxBytes: number): Response {
+  return json(req, { error: `Request body exceeds ${maxBytes} bytes` }, 413);
+}
+
+/** Decode a percent-encoded path segment, or null if it is malformed. */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
 function json(req: Request, data: unknown, status = 200): Response {
   return Response.json(data, { status, headers: corsHeaders(req) });
 }
@@ -0,0 +1,121 @@
+/**
+ * Full-text search over prompts, tool inputs, tool errors and notifications.
+ *
+ * An FTS5 table shadows the events table row-for-row (same rowid), kept in
+ * sync by triggers so every insert path — and every retention delete — updates
+ * the index without extra application code.
+ */
+import type { Database } from 'bun:sqlite';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Event types that carry searchable text. */
+const SEARCHABLE_TYPES = ['UserPrompt', 'ToolCallStarted', 'ToolCallFailed', 'WaitingForUser'];
+
+/**
+ * SQL expression extracting the searchable text of an events row.
+ * `row` is the row alias prefix, e.g. 'new.' inside a trigger.
+ */
+function contentSql(row: string): string {
+  const field = (name: string) => `coalesce(json_extract(${row}payload, '$.${name}'), '')`;
+  return `CASE ${row}type
+    WHEN 'UserPrompt' THEN ${field('prompt_text')}
+    WHEN 'ToolCallStarted' THEN ${field('tool_name')} || ' ' ||
+      coalesce((SELECT group_concat(value, ' ') FROM json_each(${row}payload, '$.tool_input')), '')
+    WHEN 'ToolCallFailed' THEN ${field('tool_name')} || ' ' || ${field('error')}
+    WHEN 'WaitingForUser' THEN ${field('message')}
+  END`;
+}
+
+const TYPE_LIST = SEARCHABLE_TYPES.map((t) => `'${t}'`).join(', ');
+
+/**
+ * Create the FTS index and its sync triggers. When the index is created for
+ * the first time, existing events are indexed too.
+ */
+export function initSearchIndex(db: Database): void {
+  const exists = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'events_fts'")
+    .get();
+
+  db.run(`CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(content, tokenize = 'unicode61')`);
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS events_fts_insert AFTER INSERT ON events
+    WHEN new.type IN (${TYPE_LIST})
+    BEGIN
+      INSERT INTO events_fts (rowid, content) VALUES (new.rowid, ${contentSql('new.')});
+    END
+  `);
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS events_fts_delete AFTER DELETE ON events
+    BEGIN
+      DELETE FROM events_fts WHERE rowid = old.rowid;
+    END
+  `);
+
+  if (!exists) {
+    db.run(`
+      INSERT INTO events_fts (rowid, content)
+      SELECT rowid, ${contentSql('')} FROM events WHERE type IN (${TYPE_LIST})
+    `);
+  }
+}
+
+/**
+ * Turn free-form user input into a safe FTS5 MATCH expression: every term is
+ * quoted (so operators and punctuation are literal) and the last term is a
+ * prefix match to support search-as-you-type. Returns null for blank input.
+ */
+export function buildMatchQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+  if (terms.length === 0) return null;
+
+  return terms
+    .map((term, i) => {
+      const quoted = `"${term.replace(/"/g, '""')}"`;
+      return i === terms.length - 1 ? `${quoted}*` : quoted;
+    })
+    .join(' ');
+}
+
+export interface SearchHit {
+  event_id: string;
+  session_id: string;
+  type: string;
+  timestamp: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  session_id?: string;
+  limit?: number;
+}
+
+/** Search indexed events, best matches first. */
+export function searchEvents(db: Database, input: string, options: SearchOptions = {}): SearchHit[] {
+  const match = buildMatchQuery(input);
+  if (!match) return [];
+
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const params: (string | number)[] = [match];
+  let sql = `
+    SELECT e.id AS event_id, e.session_id, e.type, e.timestamp,
+           snippet(events_fts, 0, '[', ']', '…', 12) AS snippet
+    FROM events_fts
+    JOIN events e ON e.rowid = events_fts.rowid
+    WHERE events_fts MATCH ?`;
+  if (options.session_id) {
+    sql += ' AND e.session_id = ?';
+    params.push(options.session_id);
+  }
+  sql += ' ORDER BY rank LIMIT ?';
+  params.push(limit);
+
+  return db.prepare(sql).all(...params) as SearchHit[];
+}
@@ -0,0 +1,120 @@
+/**
+ * Derived sessions table: the working directory, git root and branch each
+ * session was started in, taken from its SessionStarted event.
+ *
+ * Like tool_calls, the table is maintained by triggers on the events table so
+ * every insert path keeps it in sync. A resumed session emits SessionStarted
+ * again; the most recent one wins. SessionStarted events from hooks that
+ * predate cwd capture carry no location and are not tracked.
+ */
+import type { Database } from 'bun:sqlite';
+import type { TokenCounts } from '@shared/events';
+import { DEFAULT_PRICING, type PricingTable } from '@shared/pricing';
+import { getSessions, type SessionInfo } from './database';
+import { getUsageBySession } from './usage';
+
+/** A session as listed by GET /api/sessions and GET /api/projects. */
+export interface SessionSummary extends SessionInfo {
+  /** Tokens over every agent of the session; null until an agent reports usage. */
+  usage: TokenCounts | null;
+  /** Estimated cost in US dollars of the agents with known pricing; null when none. */
+  cost_usd: number | null;
+}
+
+export interface ProjectInfo {
+  /** Git root, or the working directory outside a repository; null when unknown. */
+  project: string | null;
+  session_count: number;
+  event_count: number;
+  first_event: string;
+  last_event: string;
+  /** Most recently active first. */
+  sessions: SessionSummary[];
+}
+
+const field = (row: string, name: string) => `json_extract(${row}payload, '$.${name}')`;
+
+function upsertSql(row: string, from: string, where: string): string {
+  return `
+    INSERT INTO sessions (session_id, cwd, git_root, git_branch, started_at)
+    SELECT ${row}session_id, ${field(row, 'cwd')}, ${field(row, 'git_root')}, ${field(row, 'git_branch')}, ${row}timestamp
+    ${from} WHERE ${where}
+    ON CONFLICT (session_id) DO UPDATE SET
+      cwd = excluded.cwd,
+      git_root = excluded.git_root,
+      git_branch = excluded.git_branch,
+      started_at = excluded.started_at
+    WHERE excluded.started_at >= sessions.started_at`;
+}
+
+const hasLocation = (row: string) => `coalesce(${field(row, 'cwd')}, ${field(row, 'git_root')}) IS NOT NULL`;
+
+/**
+ * Create the sessions table and its sync triggers, then record the location
+ * of sessions already stored. Used as a schema migration step.
+ */
+export function initSessionsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      session_id TEXT PRIMARY KEY,
+      cwd TEXT,
+      git_root TEXT,
+      git_branch TEXT,
+      started_at TEXT NOT NULL
+    )
+  `);
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS sessions_SessionStarted AFTER INSERT ON events
+    WHEN new.type = 'SessionStarted' AND ${hasLocation('new.')}
+    BEGIN
+      ${upsertSql('new.', '', 'true')};
+    END
+  `);
+
+  // Forget the location once retention has removed every SessionStarted of the session
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS sessions_delete AFTER DELETE ON events
+    WHEN old.type = 'SessionStarted'
+    BEGIN
+      DELETE FROM sessions WHERE session_id = old.session_id
+        AND NOT EXISTS (SELECT 1 FROM events WHERE session_id = old.session_id AND type = 'SessionStarted');
+    END
+  `);
+
+  db.run(upsertSql('', 'FROM events', `type = 'SessionStarted' AND ${hasLocation('')} ORDER BY rowid`));
+}
+
+/** Every session with its usage and cost, most recently active first. */
+export function getSessionSummaries(db: Database, pricing: PricingTable = DEFAULT_PRICING): SessionSummary[] {
+  const usage = getUsageBySession(db, pricing);
+  return getSessions(db).map((session) => {
+    const totals = usage.get(session.session_id);
+    return { ...session, usage: totals?.usage ?? null, cost_usd: totals?.cost_usd ?? null };
+  });
+}
+
+/** Group sessions by project, most recently active project first. */
+export function getProjects(db: Database, pricing: PricingTable = DEFAULT_PRICING): ProjectInfo[] {
+  const projects = new Map<string | null, ProjectInfo>();
+  for (const session of getSessionSummaries(db, pricing)) {
+    let project = projects.get(session.project);
+    if (!project) {
+      project = {
+        project: session.project,
+        session_count: 0,
+        event_count: 0,
+        first_event: session.first_event,
+        last_event: session.last_event,
+        sessions: [],
+      };
+      projects.set(session.project, project);
+    }
+    project.session_count++;
+    project.event_count += session.event_count;
+    if (session.first_event < project.first_event) project.first_event = session.first_event;
+    project.sessions.push(session);
+  }
+  // getSessions is ordered by last_event, so insertion order already is too
+  return [...projects.values()];
+}
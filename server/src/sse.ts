@@ -0,0 +1,161 @@
+/**
+ * Server-Sent Events stream — a WebSocket-free alternative to /ws.
+ *
+ * Clients connect to GET /api/stream with the same `session_id` / `type`
+ * filters as GET /api/events. Each event is written with its sequence number
+ * as the SSE `id:` field, so reconnecting clients (EventSource does this
+ * automatically) can resume with the `Last-Event-ID` header. A non-numeric
+ * Last-Event-ID is treated as an event id and resumed from that event's seq.
+ * Everything after it is replayed, however much was missed, a page at a time
+ * as the client reads; the client receives live events once caught up.
+ */
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+import { getEventsAfterSeq, getSeqForEventId } from './database';
+import type { Metrics } from './metrics';
+import { RESUME_PAGE_SIZE } from './websocket';
+
+/** Interval between keep-alive comments so idle proxies don't drop the stream. */
+const KEEP_ALIVE_MS = 15_000;
+
+/** Reconnect delay advertised to EventSource clients. */
+const RETRY_MS = 3000;
+
+export interface StreamFilter {
+  session_id?: string;
+  type?: string;
+}
+
+export interface SseHandler {
+  handle(req: Request, url: URL, headers?: Record<string, string>): Response;
+  broadcast(event: VisualizerEvent, seq: number): void;
+  clientCount(): number;
+}
+
+interface SseClient {
+  filter: StreamFilter;
+  send(chunk: string): void;
+}
+
+const encoder = new TextEncoder();
+
+export function formatSseEvent(event: VisualizerEvent, seq: number): string {
+  return `id: ${seq}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/** Resolve a Last-Event-ID (a seq, or an event id) to the seq to resume after. */
+function resolveResumeSeq(db: Database, lastEventId: string): number | null {
+  if (/^\d+$/.test(lastEventId)) return Number(lastEventId);
+  return getSeqForEventId(db, lastEventId);
+}
+
+export function matchesStreamFilter(event: VisualizerEvent, filter: StreamFilter): boolean {
+  if (filter.session_id && event.session_id !== filter.session_id) return false;
+  if (filter.type && event.type !== filter.type) return false;
+  return true;
+}
+
+export function createSseHandler(db: Database, keepAliveMs = KEEP_ALIVE_MS, metrics?: Metrics): SseHandler {
+  const clients = new Set<SseClient>();
+
+  return {
+    handle(req, url, headers = {}) {
+      const filter: StreamFilter = {
+        session_id: url.searchParams.get('session_id') || undefined,
+        type: url.searchParams.get('type') || undefined,
+      };
+      // EventSource sends the header on reconnect; the query param lets
+      // curl-style clients resume without setting headers.
+      const lastEventId = req.headers.get('Last-Event-ID') || url.searchParams.get('last_event_id');
+
+      let client: SseClient | null = null;
+      let keepAlive: ReturnType<typeof setInterval> | null = null;
+      let closed = false;
+      /** Seq the missed events are read after; null once the client is live. */
+      let afterSeq: number | null = null;
+      let send: (chunk: string) => void = () => {};
+
+      const cleanup = () => {
+        closed = true;
+        afterSeq = null;
+        if (client) clients.delete(client);
+        if (keepAlive !== null) clearInterval(keepAlive);
+        client = null;
+        keepAlive = null;
+      };
+
+      const goLive = () => {
+        if (closed) return;
+        client = { filter, send };
+        clients.add(client);
+        keepAlive = setInterval(() => send(': keep-alive\n\n'), keepAliveMs);
+      };
+
+      const stream = new ReadableStream<Uint8Array>(
+        {
+          start(controller) {
+            send = (chunk: string) => {
+              try {
+                controller.enqueue(encoder.encode(chunk));
+              } catch {
+                // Stream already closed — drop the client
+                cleanup();
+              }
+            };
+
+            send(`retry: ${RETRY_MS}\n\n`);
+            req.signal.addEventListener('abort', cleanup);
+
+            afterSeq = lastEventId ? resolveResumeSeq(db, lastEventId) : null;
+            if (afterSeq === null) goLive();
+          },
+          pull() {
+            // One page of missed events per pull, so a long backlog is read only as
+            // fast as the client drains it. Storing and broadcasting an event happen
+            // in the same tick, so joining the live set right after the last page
+            // neither loses nor repeats events.
+            if (afterSeq === null) return;
+            const page = getEventsAfterSeq(db, afterSeq, filter, RESUME_PAGE_SIZE);
+            if (page.length > 0) {
+              send(page.map(({ seq, event }) => formatSseEvent(event as VisualizerEvent, seq)).join(''));
+            }
+            if (page.length < RESUME_PAGE_SIZE) {
+              afterSeq = null;
+              goLive();
+            } else {
+              afterSeq = page[page.length - 1].seq;
+            }
+          },
+          cancel() {
+            cleanup();
+          },
+        },
+        { highWaterMark: 1 },
+      );
+
+      return new Response(stream, {
+        headers: {
+          ...headers,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        },
+      });
+    },
+
+    broadcast(event, seq) {
+      const chunk = formatSseEvent(event, seq);
+      const bytes = Buffer.byteLength(chunk);
+      for (const client of clients) {
+        if (matchesStreamFilter(event, client.filter)) {
+          client.send(chunk);
+          metrics?.bytesBroadcast('sse', bytes);
+        }
+      }
+    },
+
+    clientCount() {
+      return clients.size;
+    },
+  };
+}
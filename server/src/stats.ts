@@ -0,0 +1,189 @@
+/**
+ * Per-session analytics computed from stored events.
+ *
+ * Aggregates tool call outcomes and durations, sub-agent spawns, permission
+ * waits and context compactions for a single session so long sessions can be
+ * reviewed after the fact without exporting raw events.
+ */
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+
+export interface ToolStats {
+  tool_name: string;
+  calls: number;
+  succeeded: number;
+  failed: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+}
+
+export interface SessionStats {
+  session_id: string;
+  event_count: number;
+  first_event: string;
+  last_event: string;
+  tool_calls: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    p50_ms: number | null;
+    p95_ms: number | null;
+    by_tool: ToolStats[];
+  };
+  subagents_spawned: number;
+  permission_waits: number;
+  compactions: number;
+}
+
+interface ToolAccumulator {
+  callIds: Set<string>;
+  anonymousCalls: number;
+  succeeded: number;
+  failed: number;
+  durations: number[];
+}
+
+/**
+ * Nearest-rank percentile over an ascending-sorted array.
+ * Returns null for an empty array.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Compute stats for a session from its events (expected in chronological order).
+ *
+ * Durations prefer the hook-reported `duration_ms`; when that is missing or zero
+ * the duration is derived from the matching ToolCallStarted timestamp.
+ */
+export function computeSessionStats(sessionId: string, events: VisualizerEvent[]): SessionStats | null {
+  if (events.length === 0) return null;
+
+  const tools = new Map<string, ToolAccumulator>();
+  const startedAt = new Map<string, number>();
+  let subagentsSpawned = 0;
+  let permissionWaits = 0;
+  let compactions = 0;
+  let firstEvent = events[0].timestamp;
+  let lastEvent = events[0].timestamp;
+
+  const toolFor = (name: string): ToolAccumulator => {
+    let acc = tools.get(name);
+    if (!acc) {
+      acc = { callIds: new Set(), anonymousCalls: 0, succeeded: 0, failed: 0, durations: [] };
+      tools.set(name, acc);
+    }
+    return acc;
+  };
+
+  // Count each tool_use_id once, whether we saw its start, its end, or both
+  const trackCall = (acc: ToolAccumulator, toolUseId: string, isStart: boolean) => {
+    if (toolUseId) {
+      acc.callIds.add(toolUseId);
+    } else if (isStart) {
+      acc.anonymousCalls++;
+    }
+  };
+
+  for (const event of events) {
+    if (event.timestamp < firstEvent) firstEvent = event.timestamp;
+    if (event.timestamp > lastEvent) lastEvent = event.timestamp;
+
+    switch (event.type) {
+      case 'ToolCallStarted': {
+        trackCall(toolFor(event.tool_name), event.tool_use_id, true);
+        startedAt.set(event.tool_use_id, Date.parse(event.timestamp));
+        break;
+      }
+      case 'ToolCallCompleted': {
+        const acc = toolFor(event.tool_name);
+        trackCall(acc, event.tool_use_id, false);
+        acc.succeeded++;
+        let duration = event.duration_ms > 0 ? event.duration_ms : null;
+        if (duration === null) {
+          const start = startedAt.get(event.tool_use_id);
+          const end = Date.parse(event.timestamp);
+          if (start !== undefined && !Number.isNaN(start) && !Number.isNaN(end)) {
+            duration = Math.max(0, end - start);
+          }
+        }
+        if (duration !== null) acc.durations.push(duration);
+        break;
+      }
+      case 'ToolCallFailed': {
+        const acc = toolFor(event.tool_name);
+        trackCall(acc, event.tool_use_id, false);
+        acc.failed++;
+        break;
+      }
+      case 'AgentSpawned':
+        subagentsSpawned++;
+        break;
+      case 'WaitingForUser':
+        if (event.notification_type === 'permission_request') permissionWaits++;
+        break;
+      case 'ContextCompaction':
+        compactions++;
+        break;
+    }
+  }
+
+  const byTool: ToolStats[] = [];
+  const allDurations: number[] = [];
+  let total = 0;
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const [toolName, acc] of tools) {
+    const sorted = [...acc.durations].sort((a, b) => a - b);
+    const calls = acc.callIds.size + acc.anonymousCalls;
+    byTool.push({
+      tool_name: toolName,
+      calls,
+      succeeded: acc.succeeded,
+      failed: acc.failed,
+      p50_ms: percentile(sorted, 50),
+      p95_ms: percentile(sorted, 95),
+    });
+    allDurations.push(...acc.durations);
+    total += calls;
+    succeeded += acc.succeeded;
+    failed += acc.failed;
+  }
+
+  byTool.sort((a, b) => b.calls - a.calls || a.tool_name.localeCompare(b.tool_name));
+  allDurations.sort((a, b) => a - b);
+
+  return {
+    session_id: sessionId,
+    event_count: events.length,
+    first_event: firstEvent,
+    last_event: lastEvent,
+    tool_calls: {
+      total,
+      succeeded,
+      failed,
+      p50_ms: percentile(allDurations, 50),
+      p95_ms: percentile(allDurations, 95),
+      by_tool: byTool,
+    },
+    subagents_spawned: subagentsSpawned,
+    permission_waits: permissionWaits,
+    compactions,
+  };
+}
+
+/**
+ * Load every event for a session and compute its stats.
+ * Returns null when the session has no stored events.
+ */
+export function getSessionStats(db: Database, sessionId: string): SessionStats | null {
+  const rows = db
+    .prepare('SELECT payload FROM events WHERE session_id = ? ORDER BY timestamp ASC, seq ASC')
+    .all(sessionId) as { payload: string }[];
+  const events = rows.map((r) => JSON.parse(r.payload) as VisualizerEvent);
+  return computeSessionStats(sessionId, events);
+}
@@ -0,0 +1,94 @@
+/**
+ * Per-connection subscription filters for the WebSocket stream.
+ *
+ * A filter narrows both the history a client receives and the live events
+ * broadcast to it. The in-memory matcher and the SQL produced by
+ * database.ts `getEvents` (session_ids / types / agent_ids) must agree.
+ */
+import type { VisualizerEvent } from '@shared/events';
+import type { ServerMessage, SubscriptionFilter } from '@shared/messages';
+import type { EventQueryFilters } from './database';
+
+const MAX_FILTER_ENTRIES = 100;
+const MAX_ENTRY_LENGTH = 256;
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value
+    .filter((v): v is string => typeof v === 'string' && v.length > 0 && v.length <= MAX_ENTRY_LENGTH)
+    .slice(0, MAX_FILTER_ENTRIES);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Sanitize a filter received from a client. Unknown keys and non-string
+ * entries are dropped; empty lists are treated as "no restriction".
+ */
+export function normalizeFilter(raw: unknown): SubscriptionFilter {
+  if (!raw || typeof raw !== 'object') return {};
+  const obj = raw as Record<string, unknown>;
+  const filter: SubscriptionFilter = {};
+
+  const sessionIds = stringList(obj.sessionIds);
+  if (sessionIds) filter.sessionIds = sessionIds;
+  const eventTypes = stringList(obj.eventTypes);
+  if (eventTypes) filter.eventTypes = eventTypes as SubscriptionFilter['eventTypes'];
+  const agentIds = stringList(obj.agentIds);
+  if (agentIds) filter.agentIds = agentIds;
+
+  return filter;
+}
+
+/** Agent identifiers an event refers to, used for `agentIds` matching. */
+export function eventAgentIds(event: VisualizerEvent): string[] {
+  switch (event.type) {
+    case 'AgentSpawned':
+    case 'AgentCompleted':
+    case 'TokenUsage':
+      return [event.session_id, event.agent_id];
+    case 'MessageSent':
+      return [event.session_id, event.from_agent, event.to_agent];
+    default:
+      return [event.session_id];
+  }
+}
+
+export function matchesSubscription(event: VisualizerEvent, filter: SubscriptionFilter): boolean {
+  if (filter.sessionIds && !filter.sessionIds.includes(event.session_id)) {
+    return false;
+  }
+  if (filter.eventTypes && !filter.eventTypes.includes(event.type)) {
+    return false;
+  }
+  if (filter.agentIds) {
+    const agentIds = filter.agentIds;
+    if (!eventAgentIds(event).some((id) => agentIds.includes(id))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether a live message may go to a client with `filter`. Events must match
+ * it; notices about one session, such as `rate_limited`, are held to the same
+ * session and agent restrictions as that session's own events, so a pinned
+ * client never learns of other sessions. Other messages always pass.
+ */
+export function matchesMessage(message: ServerMessage, filter: SubscriptionFilter): boolean {
+  if (message.type === 'event') return matchesSubscription(message.data, filter);
+  if (message.type === 'rate_limited') {
+    if (filter.sessionIds && !filter.sessionIds.includes(message.sessionId)) return false;
+    if (filter.agentIds && !filter.agentIds.includes(message.sessionId)) return false;
+  }
+  return true;
+}
+
+/** Translate a subscription filter into `getEvents` query filters. */
+export function toQueryFilters(filter: SubscriptionFilter): Pick<EventQueryFilters, 'session_ids' | 'types' | 'agent_ids'> {
+  return {
+    session_ids: filter.sessionIds,
+    types: filter.eventTypes,
+    agent_ids: filter.agentIds,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Derived tool_calls table: one row per tool_use_id pairing a ToolCallStarted
+ * with its ToolCallCompleted or ToolCallFailed.
+ *
+ * Like the search index, the table is maintained by triggers on the events
+ * table, so every insert path (single, batch, import) and every retention
+ * delete keeps it in sync. Each trigger is an upsert, so a completion that
+ * arrives before its start (hooks race each other) is paired just the same.
+ * Events without a tool_use_id are not tracked.
+ */
+import type { Database } from 'bun:sqlite';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export type ToolCallOutcome = 'running' | 'succeeded' | 'failed';
+
+export const TOOL_CALL_SORT_FIELDS = ['started_at', 'ended_at', 'duration_ms'] as const;
+export type ToolCallSortField = (typeof TOOL_CALL_SORT_FIELDS)[number];
+
+export interface ToolCallRow {
+  tool_use_id: string;
+  session_id: string;
+  tool_name: string;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_ms: number | null;
+  outcome: ToolCallOutcome;
+  error: string | null;
+}
+
+export interface ToolCallQuery {
+  session_id?: string;
+  tool_name?: string;
+  outcome?: ToolCallOutcome;
+  /** Only calls that took at least this long. */
+  min_duration_ms?: number;
+  /** Only calls started (or, when the start was never seen, ended) at or after this timestamp. */
+  from?: string;
+  to?: string;
+  sort?: ToolCallSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+const field = (row: string, name: string) => `json_extract(${row}payload, '$.${name}')`;
+
+/** Milliseconds between two timestamp expressions, or NULL when either is NULL. */
+const elapsedMs = (start: string, end: string) =>
+  `CAST(ROUND((julianday(${end}) - julianday(${start})) * 86400000) AS INTEGER)`;
+
+/**
+ * Upsert statements for each tool event type. `row` is the events row prefix
+ * ('new.' inside a trigger, '' when selecting from events) and `where` filters
+ * the source rows.
+ */
+function startedSql(row: string, from: string, where: string): string {
+  return `
+    INSERT INTO tool_calls (tool_use_id, session_id, tool_name, started_at, outcome)
+    SELECT ${field(row, 'tool_use_id')}, ${row}session_id, ${field(row, 'tool_name')}, ${row}timestamp, 'running'
+    ${from} WHERE ${where}
+    ON CONFLICT (tool_use_id) DO UPDATE SET
+      started_at = excluded.started_at,
+      duration_ms = COALESCE(tool_calls.duration_ms, ${elapsedMs('excluded.started_at', 'tool_calls.ended_at')})`;
+}
+
+function finishedSql(row: string, from: string, where: string, outcome: 'succeeded' | 'failed'): string {
+  const reported = outcome === 'succeeded' ? `CASE WHEN ${field(row, 'duration_ms')} > 0 THEN ${field(row, 'duration_ms')} END` : 'NULL';
+  const error = outcome === 'failed' ? field(row, 'error') : 'NULL';
+  return `
+    INSERT INTO tool_calls (tool_use_id, session_id, tool_name, ended_at, duration_ms, outcome, error)
+    SELECT ${field(row, 'tool_use_id')}, ${row}session_id, ${field(row, 'tool_name')}, ${row}timestamp,
+           ${reported}, '${outcome}', ${error}
+    ${from} WHERE ${where}
+    ON CONFLICT (tool_use_id) DO UPDATE SET
+      ended_at = excluded.ended_at,
+      outcome = excluded.outcome,
+      error = excluded.error,
+      duration_ms = COALESCE(excluded.duration_ms, ${elapsedMs('tool_calls.started_at', 'excluded.ended_at')})`;
+}
+
+const hasToolUseId = (row: string) => `coalesce(${field(row, 'tool_use_id')}, '') != ''`;
+
+/**
+ * Create the tool_calls table and its sync triggers, then pair the tool
+ * events already stored. Used as a schema migration step.
+ */
+export function initToolCallsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS tool_calls (
+      tool_use_id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      started_at TEXT,
+      ended_at TEXT,
+      duration_ms INTEGER,
+      outcome TEXT NOT NULL,
+      error TEXT
+    )
+  `);
+  db.run('CREATE INDEX IF NOT EXISTS idx_tool_calls_session ON tool_calls(session_id)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_tool_calls_tool_name ON tool_calls(tool_name)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_tool_calls_duration ON tool_calls(duration_ms)');
+
+  const statements = [
+    ['ToolCallStarted', (row: string, from: string, where: string) => startedSql(row, from, where)],
+    ['ToolCallCompleted', (row: string, from: string, where: string) => finishedSql(row, from, where, 'succeeded')],
+    ['ToolCallFailed', (row: string, from: string, where: string) => finishedSql(row, from, where, 'failed')],
+  ] as const;
+
+  for (const [type, sql] of statements) {
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS tool_calls_${type} AFTER INSERT ON events
+      WHEN new.type = '${type}' AND ${hasToolUseId('new.')}
+      BEGIN
+        ${sql('new.', '', 'true')};
+      END
+    `);
+  }
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS tool_calls_delete AFTER DELETE ON events
+    WHEN old.type IN ('ToolCallStarted', 'ToolCallCompleted', 'ToolCallFailed')
+    BEGIN
+      DELETE FROM tool_calls WHERE tool_use_id = ${field('old.', 'tool_use_id')};
+    END
+  `);
+
+  // Backfill in arrival order, replaying the same upserts the triggers run
+  const rows = db
+    .prepare(
+      `SELECT rowid, type FROM events
+       WHERE type IN ('ToolCallStarted', 'ToolCallCompleted', 'ToolCallFailed') AND ${hasToolUseId('')}
+       ORDER BY rowid`,
+    )
+    .all() as { rowid: number; type: string }[];
+  const backfill = new Map(
+    statements.map(([type, sql]) => [type as string, db.prepare(sql('', 'FROM events', 'rowid = ?'))]),
+  );
+  for (const row of rows) {
+    backfill.get(row.type)!.run(row.rowid);
+  }
+}
+
+/** Query paired tool calls. Defaults to the most recently started first. */
+export function queryToolCalls(db: Database, query: ToolCallQuery = {}): ToolCallRow[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.session_id) {
+    conditions.push('session_id = ?');
+    params.push(query.session_id);
+  }
+  if (query.tool_name) {
+    conditions.push('tool_name = ?');
+    params.push(query.tool_name);
+  }
+  if (query.outcome) {
+    conditions.push('outcome = ?');
+    params.push(query.outcome);
+  }
+  if (query.min_duration_ms !== undefined) {
+    conditions.push('duration_ms >= ?');
+    params.push(query.min_duration_ms);
+  }
+  if (query.from) {
+    conditions.push('COALESCE(started_at, ended_at) >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('COALESCE(started_at, ended_at) <= ?');
+    params.push(query.to);
+  }
+
+  const sort: ToolCallSortField =
+    query.sort && TOOL_CALL_SORT_FIELDS.includes(query.sort) ? query.sort : 'started_at';
+  const order = query.order === 'asc' ? 'ASC' : 'DESC';
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const offset = Math.max(query.offset ?? 0, 0);
+
+  let sql = 'SELECT tool_use_id, session_id, tool_name, started_at, ended_at, duration_ms, outcome, error FROM tool_calls';
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ');
+  }
+  // Rows missing the sort key (still running, or start never seen) go last
+  sql += ` ORDER BY ${sort} IS NULL, ${sort} ${order}, tool_use_id ${order} LIMIT ? OFFSET ?`;
+  params.push(limit, offset);
+
+  return db.prepare(sql).all(...params) as ToolCallRow[];
+}
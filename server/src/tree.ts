@@ -0,0 +1,37 @@
+/**
+ * Current agent tree of a session, computed server-side.
+ *
+ * Replays the session's stored events through the shared reducer, so the
+ * tree served here matches what the 3D view shows after loading the same
+ * history.
+ */
+import type { Database } from 'bun:sqlite';
+import type { VisualizerEvent } from '@shared/events';
+import type { ActiveToolCall, AgentTree } from '@shared/agent';
+import { reduceAgentEvents, toAgentTree } from '@shared/reducer';
+
+export interface SessionTree {
+  session_id: string;
+  rootAgentId: string | null;
+  agents: AgentTree;
+  activeToolCalls: ActiveToolCall[];
+}
+
+/**
+ * Reduce every event of a session into its agent tree.
+ * Returns null when the session has no stored events.
+ */
+export function getSessionTree(db: Database, sessionId: string): SessionTree | null {
+  const rows = db
+    .prepare('SELECT payload FROM events WHERE session_id = ? ORDER BY timestamp ASC, rowid ASC')
+    .all(sessionId) as { payload: string }[];
+  if (rows.length === 0) return null;
+
+  const state = reduceAgentEvents(rows.map((r) => JSON.parse(r.payload) as VisualizerEvent));
+  return {
+    session_id: sessionId,
+    rootAgentId: state.rootAgentId,
+    agents: toAgentTree(state),
+    activeToolCalls: [...state.activeToolCalls.values()],
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Token usage and estimated cost per agent and per session.
+ *
+ * The Stop and SubagentStop hooks report each agent's cumulative usage in
+ * TokenUsage events, so an agent's latest event is its usage so far and a
+ * session's usage is the sum over its agents. Agents are priced by the model
+ * their transcript names, else the model they were started with.
+ *
+ * Prices default to the list prices in shared/src/pricing.ts. They can be
+ * overridden or extended through CLAUDE_VISUALIZER_PRICING, the path to a JSON
+ * file mapping model names (or prefixes) to US dollars per million tokens:
+ *
+ *   { "claude-opus-4-6": { "input": 5, "output": 25 },
+ *     "my-proxy-model": { "input": 1, "output": 2, "cache_write": 1.5, "cache_read": 0.1 } }
+ *
+ * Cache prices default to 1.25x and 0.1x the input price when omitted.
+ */
+import { readFileSync } from 'node:fs';
+import type { Database } from 'bun:sqlite';
+import type { TokenCounts } from '@shared/events';
+import {
+  DEFAULT_PRICING,
+  priceAgentUsage,
+  totalUsage,
+  type AgentUsage,
+  type PricingTable,
+  type UsageTotals,
+} from '@shared/pricing';
+
+export interface SessionUsage extends UsageTotals {
+  session_id: string;
+  /** Agents that reported usage, in the order they first appeared. */
+  agents: AgentUsage[];
+}
+
+/** Thrown when the pricing configuration file cannot be used. */
+export class PricingConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid pricing configuration: ${message}`);
+    this.name = 'PricingConfigError';
+  }
+}
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Validate the parsed pricing file and merge it over the default prices. */
+export function parsePricingOverrides(value: unknown, defaults: PricingTable = DEFAULT_PRICING): PricingTable {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new PricingConfigError('expected an object mapping model names to prices');
+  }
+  const table: PricingTable = { ...defaults };
+  for (const [model, entry] of Object.entries(value)) {
+    if (!entry || typeof entry !== 'object') {
+      throw new PricingConfigError(`${model} must be an object`);
+    }
+    const { input, output, cache_write, cache_read } = entry as Record<string, unknown>;
+    if (!isPrice(input) || !isPrice(output)) {
+      throw new PricingConfigError(`${model} needs non-negative input and output prices`);
+    }
+    if ((cache_write !== undefined && !isPrice(cache_write)) || (cache_read !== undefined && !isPrice(cache_read))) {
+      throw new PricingConfigError(`${model} cache prices must be non-negative numbers`);
+    }
+    table[model.toLowerCase()] = {
+      input,
+      output,
+      cache_write: cache_write ?? input * 1.25,
+      cache_read: cache_read ?? input * 0.1,
+    };
+  }
+  return table;
+}
+
+/** Prices with the overrides named by CLAUDE_VISUALIZER_PRICING; the defaults when unset. */
+export function loadPricingConfig(env: Record<string, string | undefined> = process.env): PricingTable {
+  const path = env.CLAUDE_VISUALIZER_PRICING;
+  if (!path) return DEFAULT_PRICING;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new PricingConfigError(`cannot read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parsePricingOverrides(parsed);
+}
+
+const field = (row: string, path: string) => `json_extract(${row}payload, '$.${path}')`;
+
+const agentOf = (row: string) =>
+  `CASE ${row}type WHEN 'SessionStarted' THEN ${row}session_id ELSE ${field(row, 'agent_id')} END`;
+
+/** Record the model an agent was started with; a later start (a resumed session) wins. */
+function startSql(row: string, from: string, where: string): string {
+  return `
+    INSERT INTO agent_usage (session_id, agent_id, model, started_at)
+    SELECT ${row}session_id, ${agentOf(row)}, ${field(row, 'model')}, ${row}timestamp
+    ${from} WHERE ${where}
+    ON CONFLICT (session_id, agent_id) DO UPDATE SET
+      model = excluded.model,
+      started_at = excluded.started_at
+    WHERE agent_usage.started_at IS NULL OR excluded.started_at >= agent_usage.started_at`;
+}
+
+/** Record an agent's cumulative usage; the most recent report wins. */
+function reportSql(row: string, from: string, where: string): string {
+  return `
+    INSERT INTO agent_usage (
+      session_id, agent_id, reported_model, reported_at,
+      input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens
+    )
+    SELECT ${row}session_id, ${field(row, 'agent_id')}, ${field(row, 'model')}, ${row}timestamp,
+      ${field(row, 'total.input_tokens')}, ${field(row, 'total.output_tokens')},
+      ${field(row, 'total.cache_creation_input_tokens')}, ${field(row, 'total.cache_read_input_tokens')}
+    ${from} WHERE ${where}
+    ON CONFLICT (session_id, agent_id) DO UPDATE SET
+      reported_model = coalesce(excluded.reported_model, agent_usage.reported_model),
+      reported_at = excluded.reported_at,
+      input_tokens = excluded.input_tokens,
+      output_tokens = excluded.output_tokens,
+      cache_creation_input_tokens = excluded.cache_creation_input_tokens,
+      cache_read_input_tokens = excluded.cache_read_input_tokens
+    WHERE agent_usage.reported_at IS NULL OR excluded.reported_at >= agent_usage.reported_at`;
+}
+
+const USAGE_EVENT_TYPES = `('SessionStarted', 'AgentSpawned', 'TokenUsage')`;
+
+/**
+ * Create the agent_usage table and its sync triggers, then record the agents
+ * of sessions already stored. Used as a schema migration step.
+ *
+ * Like the sessions table, it is maintained by triggers on the events table,
+ * so listing sessions reads one row per agent instead of parsing every
+ * TokenUsage event.
+ */
+export function initAgentUsageTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS agent_usage (
+      session_id TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      model TEXT,
+      started_at TEXT,
+      reported_model TEXT,
+      reported_at TEXT,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      cache_creation_input_tokens INTEGER,
+      cache_read_input_tokens INTEGER,
+      PRIMARY KEY (session_id, agent_id)
+    )
+  `);
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS agent_usage_start AFTER INSERT ON events
+    WHEN new.type IN ('SessionStarted', 'AgentSpawned')
+    BEGIN
+      ${startSql('new.', '', 'true')};
+    END
+  `);
+
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS agent_usage_report AFTER INSERT ON events
+    WHEN new.type = 'TokenUsage'
+    BEGIN
+      ${reportSql('new.', '', 'true')};
+    END
+  `);
+
+  // Forget a session's agents once retention has removed all of its usage events
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS agent_usage_delete AFTER DELETE ON events
+    WHEN old.type IN ${USAGE_EVENT_TYPES}
+    BEGIN
+      DELETE FROM agent_usage WHERE session_id = old.session_id
+        AND NOT EXISTS (SELECT 1 FROM events WHERE session_id = old.session_id AND type IN ${USAGE_EVENT_TYPES});
+    END
+  `);
+
+  db.run(startSql('', 'FROM events', `type IN ('SessionStarted', 'AgentSpawned') ORDER BY timestamp, rowid`));
+  db.run(reportSql('', 'FROM events', `type = 'TokenUsage' ORDER BY timestamp, rowid`));
+}
+
+interface AgentUsageRow extends TokenCounts {
+  session_id: string;
+  agent_id: string;
+  model: string | null;
+}
+
+/** Agents that reported usage, with their pricing model, in the order they first appeared. */
+function selectAgentUsage(db: Database, sessionId?: string): AgentUsageRow[] {
+  const sql = `
+    SELECT session_id, agent_id, coalesce(reported_model, model) AS model,
+      input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens
+    FROM agent_usage
+    WHERE input_tokens IS NOT NULL ${sessionId === undefined ? '' : 'AND session_id = ?'}
+    ORDER BY rowid`;
+  const stmt = db.prepare(sql);
+  return (sessionId === undefined ? stmt.all() : stmt.all(sessionId)) as AgentUsageRow[];
+}
+
+function priceAgents(rows: AgentUsageRow[], pricing: PricingTable): Map<string, SessionUsage> {
+  const agentsBySession = new Map<string, AgentUsage[]>();
+  for (const { session_id, agent_id, model, ...usage } of rows) {
+    let agents = agentsBySession.get(session_id);
+    if (!agents) agentsBySession.set(session_id, (agents = []));
+    agents.push(priceAgentUsage(agent_id, model, usage, pricing));
+  }
+  const result = new Map<string, SessionUsage>();
+  for (const [sessionId, agents] of agentsBySession) {
+    result.set(sessionId, { session_id: sessionId, ...totalUsage(agents), agents });
+  }
+  return result;
+}
+
+/** Usage of every session that reported any, keyed by session id. */
+export function getUsageBySession(db: Database, pricing: PricingTable = DEFAULT_PRICING): Map<string, SessionUsage> {
+  return priceAgents(selectAgentUsage(db), pricing);
+}
+
+/**
+ * Usage of one session, or null when it has no events. A session whose
+ * agents have not reported usage yet has zero usage and no agents.
+ */
+export function getSessionUsage(
+  db: Database,
+  sessionId: string,
+  pricing: PricingTable = DEFAULT_PRICING,
+): SessionUsage | null {
+  const usage = priceAgents(selectAgentUsage(db, sessionId), pricing).get(sessionId);
+  if (usage) return usage;
+
+  const exists = db.prepare('SELECT 1 FROM events WHERE session_id = ? LIMIT 1').get(sessionId);
+  if (!exists) return null;
+  return { session_id: sessionId, ...totalUsage([]), agents: [] };
+}
@@ -1,63 +1,241 @@
-import type { VisualizerEvent } from '@shared/events';
-
-const VALID_EVENT_TYPES = new Set([
-  'AgentSpawned',
-  'AgentCompleted',
-  'ToolCallStarted',
-  'ToolCallCompleted',
-  'ToolCallFailed',
-  'MessageSent',
-  'SessionStarted',
-  'SessionEnded',
-  'UserPrompt',
-  'WaitingForUser',
-  'ContextCompaction',
-]);
+import type { EventBase, EventOfType, TokenCounts, VisualizerEvent, VisualizerEventType } from '@shared/events';
 
 export interface ValidationResult {
   valid: boolean;
   error?: string;
+  /** Dotted path of the offending field (e.g. `total.input_tokens`), when the failure is tied to one. */
+  path?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Per-type field schemas
+// ---------------------------------------------------------------------------
+
+/** A mismatch inside an object value: the dotted path below it and what was expected there. */
+interface NestedMismatch {
+  path: string;
+  expected: string;
+}
+
+/**
+ * Returns a description of the expected shape when `value` does not match,
+ * else null. Checks marked `optional` are skipped when the field is absent.
+ */
+type FieldCheck = ((value: unknown) => string | NestedMismatch | null) & { optional?: true };
+
+const string: FieldCheck = (v) => (typeof v === 'string' ? null : 'string');
+const number: FieldCheck = (v) => (typeof v === 'number' && Number.isFinite(v) ? null : 'finite number');
+const object: FieldCheck = (v) =>
+  v !== null && typeof v === 'object' && !Array.isArray(v) ? null : 'object';
+
+function nullable(check: FieldCheck): FieldCheck {
+  return (v) => {
+    if (v === null) return null;
+    const expected = check(v);
+    return typeof expected === 'string' ? `${expected} or null` : expected;
+  };
+}
+
+/** Allow the field to be omitted, e.g. when it was added after older hooks shipped. */
+function optional(check: FieldCheck): FieldCheck {
+  return Object.assign((v: unknown) => check(v), { optional: true as const });
+}
+
+const TOKEN_COUNT_FIELDS: (keyof TokenCounts)[] = [
+  'input_tokens',
+  'output_tokens',
+  'cache_creation_input_tokens',
+  'cache_read_input_tokens',
+];
+
+/** An object whose fields are checked in turn; a mismatch reports the path of the first bad field. */
+function shape(fields: Record<string, FieldCheck>): FieldCheck {
+  return (v) => {
+    if (object(v) !== null) return 'object';
+    for (const [name, check] of Object.entries(fields)) {
+      const value = (v as Record<string, unknown>)[name];
+      if (value === undefined && check.optional) continue;
+      const expected = check(value);
+      if (expected === null) continue;
+      return typeof expected === 'string'
+        ? { path: name, expected }
+        : { path: `${name}.${expected.path}`, expected: expected.expected };
+    }
+    return null;
+  };
+}
+
+const tokenCount: FieldCheck = (v) =>
+  typeof v === 'number' && Number.isSafeInteger(v) && v >= 0 ? null : 'non-negative integer';
+const tokenCounts = shape(Object.fromEntries(TOKEN_COUNT_FIELDS.map((field) => [field, tokenCount])));
+
+function oneOf(...values: string[]): FieldCheck {
+  return (v) => (typeof v === 'string' && values.includes(v) ? null : values.map((s) => `"${s}"`).join(' | '));
+}
+
+/** Type-specific fields of an event: everything except the base fields and the discriminator. */
+type SpecificFields<T extends VisualizerEventType> = Exclude<keyof EventOfType<T>, keyof EventBase | 'type'>;
+
+/**
+ * One check per type-specific field of every event in the union. The mapped
+ * type makes this a compile error whenever shared/src/events.ts gains, loses
+ * or renames an event type or field without the schema following suit.
+ */
+const EVENT_SCHEMAS: { [T in VisualizerEventType]: { [K in SpecificFields<T>]-?: FieldCheck } } = {
+  AgentSpawned: {
+    agent_id: string,
+    parent_session_id: nullable(string),
+    agent_type: string,
+    model: string,
+    task_description: nullable(string),
+  },
+  AgentCompleted: {
+    agent_id: string,
+    transcript_path: nullable(string),
+    result: nullable(string),
+  },
+  ToolCallStarted: {
+    tool_name: string,
+    tool_input: object,
+    tool_use_id: string,
+  },
+  ToolCallCompleted: {
+    tool_name: string,
+    tool_response: nullable(string),
+    duration_ms: number,
+    tool_use_id: string,
+  },
+  ToolCallFailed: {
+    tool_name: string,
+    error: string,
+    tool_use_id: string,
+  },
+  MessageSent: {
+    from_agent: string,
+    to_agent: string,
+    content_preview: string,
+  },
+  SessionStarted: {
+    agent_type: string,
+    model: string,
+    source: string,
+    cwd: optional(nullable(string)),
+    git_root: optional(nullable(string)),
+    git_branch: optional(nullable(string)),
+  },
+  SessionEnded: {
+    reason: string,
+    summary: nullable(string),
+  },
+  UserPrompt: {
+    prompt_text: string,
+  },
+  WaitingForUser: {
+    notification_type: oneOf('notification', 'permission_request'),
+    message: string,
+  },
+  ContextCompaction: {
+    context_pressure: number,
+  },
+  TokenUsage: {
+    agent_id: string,
+    model: nullable(string),
+    total: tokenCounts,
+    turn: tokenCounts,
+    responses: tokenCount,
+  },
+};
+
+export function isEventType(type: string): type is VisualizerEventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, type);
+}
+
+function fail(error: string, path?: string): { event: null; result: ValidationResult } {
+  return { event: null, result: path ? { valid: false, error, path } : { valid: false, error } };
+}
+
+/**
+ * Bring fields of events stored by older hooks to the current shape. Older
+ * hooks passed structured tool responses (e.g. `{ stdout, stderr }`) through
+ * unchanged; they become the JSON text current hooks send instead.
+ */
+function upgradeLegacyFields(obj: Record<string, unknown>): Record<string, unknown> {
+  const response = obj.tool_response;
+  if (obj.type === 'ToolCallCompleted' && response !== null && typeof response === 'object') {
+    return { ...obj, tool_response: JSON.stringify(response) };
+  }
+  return obj;
 }
 
 export function validateEvent(body: unknown): { event: VisualizerEvent | null; result: ValidationResult } {
   if (!body || typeof body !== 'object') {
-    return { event: null, result: { valid: false, error: 'Request body must be a JSON object' } };
+    return fail('Request body must be a JSON object');
   }
 
-  const obj = body as Record<string, unknown>;
+  const obj = upgradeLegacyFields(body as Record<string, unknown>);
 
   if (typeof obj.id !== 'string' || obj.id.length === 0) {
-    return { event: null, result: { valid: false, error: 'Missing or invalid "id" field' } };
+    return fail('Missing or invalid "id" field', 'id');
   }
   if (typeof obj.type !== 'string') {
-    return { event: null, result: { valid: false, error: 'Missing or invalid "type" field' } };
+    return fail('Missing or invalid "type" field', 'type');
   }
   if (typeof obj.timestamp !== 'string') {
-    return { event: null, result: { valid: false, error: 'Missing or invalid "timestamp" field' } };
+    return fail('Missing or invalid "timestamp" field', 'timestamp');
   }
   if (typeof obj.session_id !== 'string') {
-    return { event: null, result: { valid: false, error: 'Missing or invalid "session_id" field' } };
+    return fail('Missing or invalid "session_id" field', 'session_id');
   }
 
   // String length limits
   if ((obj.id as string).length > 256) {
-    return { event: null, result: { valid: false, error: '"id" exceeds maximum length of 256 characters' } };
+    return fail('"id" exceeds maximum length of 256 characters', 'id');
   }
   if ((obj.timestamp as string).length > 64) {
-    return { event: null, result: { valid: false, error: '"timestamp" exceeds maximum length of 64 characters' } };
+    return fail('"timestamp" exceeds maximum length of 64 characters', 'timestamp');
   }
   if ((obj.session_id as string).length > 256) {
-    return { event: null, result: { valid: false, error: '"session_id" exceeds maximum length of 256 characters' } };
+    return fail('"session_id" exceeds maximum length of 256 characters', 'session_id');
+  }
+
+  if (!isEventType(obj.type)) {
+    return fail(`Unknown event type: "${obj.type}"`, 'type');
   }
 
-  if (!VALID_EVENT_TYPES.has(obj.type)) {
-    return { event: null, result: { valid: false, error: `Unknown event type: "${obj.type}"` } };
+  // Type-specific fields
+  const schema: Record<string, FieldCheck> = EVENT_SCHEMAS[obj.type];
+  for (const [field, check] of Object.entries(schema)) {
+    if (!(field in obj)) {
+      if (check.optional) continue;
+      return fail(`Missing "${field}" field for ${obj.type} event`, field);
+    }
+    const expected = check(obj[field]);
+    if (expected !== null) {
+      const path = typeof expected === 'string' ? field : `${field}.${expected.path}`;
+      const description = typeof expected === 'string' ? expected : expected.expected;
+      return fail(`Invalid "${path}" field for ${obj.type} event: expected ${description}`, path);
+    }
   }
 
   // Overall payload size check (64KB max)
-  if (JSON.stringify(body).length > 65_536) {
-    return { event: null, result: { valid: false, error: 'Event payload exceeds maximum size' } };
+  if (JSON.stringify(obj).length > 65_536) {
+    return fail('Event payload exceeds maximum size');
   }
 
   return { event: obj as unknown as VisualizerEvent, result: { valid: true } };
 }
+
+/**
+ * Short machine-readable code for a failed validation, used to label the
+ * rejection counter in /metrics.
+ */
+export function rejectionReason(result: ValidationResult): string {
+  const error = result.error ?? '';
+  if (!result.path) {
+    return error.includes('maximum size') ? 'payload_too_large' : 'invalid_body';
+  }
+  if (error.includes('exceeds maximum length')) return 'too_long';
+  if (error.startsWith('Unknown event type')) return 'unknown_type';
+  if (error.startsWith('Missing "')) return 'missing_field';
+  return 'invalid_field';
+}
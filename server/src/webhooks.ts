@@ -0,0 +1,275 @@
+/**
+ * Outbound webhooks: POST a JSON payload to local URLs when selected events
+ * are stored, so notifier scripts can react to an agent waiting for input
+ * without the browser tab open.
+ *
+ * Configured through CLAUDE_VISUALIZER_WEBHOOKS, the path to a JSON file
+ * holding an array of webhooks:
+ *
+ *   [{ "url": "http://localhost:9000/notify",
+ *      "events": ["WaitingForUser"],
+ *      "template": { "text": "{{session_id}} needs you: {{message}}" },
+ *      "headers": { "Authorization": "Bearer ..." } }]
+ *
+ * Only loopback URLs are accepted — event payloads carry prompts and tool
+ * input and must not leave the machine. `events` defaults to WaitingForUser,
+ * ToolCallFailed and SessionEnded; without a `template` the whole event is
+ * sent. Failed deliveries (network errors, timeouts, 429 and 5xx) are retried
+ * with exponential backoff. Recent deliveries are kept in memory for
+ * GET /api/webhooks/deliveries.
+ */
+import { readFileSync } from 'node:fs';
+import type { VisualizerEvent, VisualizerEventType } from '@shared/events';
+import { isEventType } from './validation';
+
+export const DEFAULT_WEBHOOK_EVENTS: VisualizerEventType[] = ['WaitingForUser', 'ToolCallFailed', 'SessionEnded'];
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/** Deliveries kept for GET /api/webhooks/deliveries; the oldest are dropped first. */
+export const DELIVERY_LOG_SIZE = 200;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface WebhookConfig {
+  url: string;
+  events: VisualizerEventType[];
+  /** JSON payload with `{{field}}` placeholders; null sends the event itself. */
+  template: unknown;
+  headers: Record<string, string>;
+}
+
+export interface WebhookOptions {
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const DELIVERY_STATUSES: readonly DeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+export interface WebhookDelivery {
+  id: number;
+  url: string;
+  event_id: string;
+  event_type: VisualizerEventType;
+  session_id: string;
+  status: DeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt; null when it never got a response. */
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDispatcher {
+  /** Queue deliveries for every webhook subscribed to the event's type. */
+  dispatch(event: VisualizerEvent): void;
+  /** Recent deliveries, newest first. */
+  deliveries(query?: { status?: DeliveryStatus; limit?: number }): WebhookDelivery[];
+  /** Resolves once every queued delivery has succeeded or given up. */
+  drain(): Promise<void>;
+}
+
+/** Thrown when the webhook configuration file cannot be used. */
+export class WebhookConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid webhook configuration: ${message}`);
+    this.name = 'WebhookConfigError';
+  }
+}
+
+function isLoopbackUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && LOOPBACK_HOSTS.has(url.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/** Validate the parsed contents of the webhook configuration file. */
+export function parseWebhooks(value: unknown): WebhookConfig[] {
+  if (!Array.isArray(value)) {
+    throw new WebhookConfigError('expected an array of webhooks');
+  }
+  return value.map((item, i) => {
+    if (!item || typeof item !== 'object') {
+      throw new WebhookConfigError(`webhook ${i} must be an object`);
+    }
+    const { url, events, template, headers } = item as Record<string, unknown>;
+    if (typeof url !== 'string' || !isLoopbackUrl(url)) {
+      throw new WebhookConfigError(`webhook ${i} url must be an http(s) URL on localhost, 127.0.0.1 or [::1]`);
+    }
+    if (events !== undefined && (!Array.isArray(events) || !events.every((e) => typeof e === 'string' && isEventType(e)))) {
+      throw new WebhookConfigError(`webhook ${i} events must be an array of event types`);
+    }
+    if (
+      headers !== undefined &&
+      (!headers || typeof headers !== 'object' || !Object.values(headers).every((h) => typeof h === 'string'))
+    ) {
+      throw new WebhookConfigError(`webhook ${i} headers must map names to strings`);
+    }
+    return {
+      url,
+      events: (events as VisualizerEventType[] | undefined) ?? DEFAULT_WEBHOOK_EVENTS,
+      template: template ?? null,
+      headers: (headers as Record<string, string> | undefined) ?? {},
+    };
+  });
+}
+
+/** Read the webhooks named by CLAUDE_VISUALIZER_WEBHOOKS; none when unset. */
+export function loadWebhookConfig(env: Record<string, string | undefined> = process.env): WebhookConfig[] {
+  const path = env.CLAUDE_VISUALIZER_WEBHOOKS;
+  if (!path) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new WebhookConfigError(`cannot read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseWebhooks(parsed);
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_RE = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+/**
+ * Fill `{{field}}` placeholders in a template with values from the event.
+ * Fields resolve against the event (`{{tool_name}}`, `{{tool_input.command}}`),
+ * and `{{event}}` is the whole event. A string that is a single placeholder is
+ * replaced by the value itself, keeping its JSON type; placeholders inside
+ * longer strings are interpolated as text. Unknown fields render as null or
+ * the empty string.
+ */
+export function renderTemplate(template: unknown, event: VisualizerEvent): unknown {
+  const context: Record<string, unknown> = { ...event, event };
+
+  const render = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const whole = WHOLE_PLACEHOLDER_RE.exec(node);
+      if (whole) return lookup(context, whole[1]) ?? null;
+      return node.replace(PLACEHOLDER_RE, (_, path: string) => {
+        const value = lookup(context, path);
+        if (value === undefined || value === null) return '';
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+    if (Array.isArray(node)) return node.map(render);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, render(value)]));
+    }
+    return node;
+  };
+
+  return render(template);
+}
+
+/** Whether a failed attempt is worth repeating. Other 4xx responses will not change. */
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+export function createWebhookDispatcher(webhooks: WebhookConfig[], options: WebhookOptions = {}): WebhookDispatcher {
+  const send = options.fetch ?? ((input, init) => fetch(input, init));
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const log: WebhookDelivery[] = [];
+  const inFlight = new Set<Promise<void>>();
+  let nextId = 1;
+
+  function record(webhook: WebhookConfig, event: VisualizerEvent): WebhookDelivery {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: nextId++,
+      url: webhook.url,
+      event_id: event.id,
+      event_type: event.type,
+      session_id: event.session_id,
+      status: 'pending',
+      attempts: 0,
+      response_status: null,
+      error: null,
+      created_at: now,
+      updated_at: now,
+    };
+    log.push(delivery);
+    if (log.length > DELIVERY_LOG_SIZE) log.shift();
+    return delivery;
+  }
+
+  async function deliver(webhook: WebhookConfig, event: VisualizerEvent, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(webhook.template === null ? event : renderTemplate(webhook.template, event));
+
+    while (true) {
+      delivery.attempts++;
+      try {
+        const res = await send(webhook.url, {
+          method: 'POST',
+          headers: { ...webhook.headers, 'Content-Type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        delivery.response_status = res.status;
+        delivery.error = res.ok ? null : `HTTP ${res.status}`;
+      } catch (err) {
+        delivery.response_status = null;
+        delivery.error = err instanceof Error ? err.message : String(err);
+      }
+      delivery.updated_at = new Date().toISOString();
+
+      if (delivery.error === null) {
+        delivery.status = 'delivered';
+        return;
+      }
+      if (delivery.attempts >= maxAttempts || !isRetryable(delivery.response_status)) {
+        delivery.status = 'failed';
+        return;
+      }
+      const delay = Math.min(baseDelayMs * 2 ** (delivery.attempts - 1), maxDelayMs);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  return {
+    dispatch(event) {
+      for (const webhook of webhooks) {
+        if (!webhook.events.includes(event.type)) continue;
+        const task = deliver(webhook, event, record(webhook, event)).finally(() => inFlight.delete(task));
+        inFlight.add(task);
+      }
+    },
+
+    deliveries(query = {}) {
+      const matching = query.status ? log.filter((d) => d.status === query.status) : log;
+      const newestFirst = matching.map((d) => ({ ...d })).reverse();
+      return query.limit !== undefined ? newestFirst.slice(0, Math.max(query.limit, 0)) : newestFirst;
+    },
+
+    async drain() {
+      while (inFlight.size > 0) {
+        await Promise.all(inFlight);
+      }
+    },
+  };
+}
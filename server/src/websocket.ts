@@ -1,25 +1,91 @@
 import type { ServerWebSocket } from 'bun';
 import type { Database } from 'bun:sqlite';
-import type { ServerMessage, ClientMessage } from '@shared/messages';
-import { getEvents } from './database';
+import type { ServerMessage, ClientMessage, SubscriptionFilter } from '@shared/messages';
+import { getEvents, getEventsAfterSeq, getLatestSeq } from './database';
+import { matchesMessage, normalizeFilter, toQueryFilters } from './subscription';
+import type { Metrics } from './metrics';
+
+/** Maximum events per page answered to a `resume` request. */
+export const RESUME_PAGE_SIZE = 500;
+
+/** Interval between pings; a client that has not answered the previous ping is evicted. */
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * Bytes queued for a client beyond which it stops receiving live events and
+ * is told to resync once it has drained what it already has.
+ */
+export const MAX_BUFFERED_BYTES = 1_048_576;
+
+export interface WebSocketOptions {
+  metrics?: Metrics;
+  heartbeatIntervalMs?: number;
+  maxBufferedBytes?: number;
+}
 
 export interface WebSocketHandler {
   handlers: {
     open(ws: ServerWebSocket<unknown>): void;
     message(ws: ServerWebSocket<unknown>, message: string | Buffer): void;
     close(ws: ServerWebSocket<unknown>): void;
+    pong(ws: ServerWebSocket<unknown>): void;
   };
   broadcast(message: ServerMessage): void;
   clientCount(): number;
+  /**
+   * Evict clients that did not answer the previous ping and ping the rest.
+   * Runs on a timer while clients are connected; returns the number evicted.
+   */
+  checkHeartbeats(): number;
 }
 
-export function createWebSocketHandler(db: Database): WebSocketHandler {
+export function createWebSocketHandler(db: Database, options: WebSocketOptions = {}): WebSocketHandler {
+  const { metrics } = options;
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  const maxBufferedBytes = options.maxBufferedBytes ?? MAX_BUFFERED_BYTES;
+
   const clients = new Set<ServerWebSocket<unknown>>();
+  /** Per-connection subscription filters; absent means "everything". */
+  const filters = new Map<ServerWebSocket<unknown>, SubscriptionFilter>();
+  /** Clients pinged since their last pong. */
+  const awaitingPong = new Set<ServerWebSocket<unknown>>();
+  /** Slow clients that were told to resync and get no live events until they resume. */
+  const lagging = new Set<ServerWebSocket<unknown>>();
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  function forget(ws: ServerWebSocket<unknown>) {
+    clients.delete(ws);
+    filters.delete(ws);
+    awaitingPong.delete(ws);
+    lagging.delete(ws);
+    if (clients.size === 0 && heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  }
+
+  function checkHeartbeats(): number {
+    let evicted = 0;
+    for (const ws of [...clients]) {
+      if (awaitingPong.has(ws)) {
+        forget(ws);
+        ws.terminate();
+        evicted++;
+        continue;
+      }
+      awaitingPong.add(ws);
+      ws.ping();
+    }
+    return evicted;
+  }
 
   return {
     handlers: {
       open(ws) {
         clients.add(ws);
+        if (heartbeatTimer === null) {
+          heartbeatTimer = setInterval(checkHeartbeats, heartbeatIntervalMs);
+        }
         const connected: ServerMessage = { type: 'connected', sessionId: 'server' };
         ws.sendText(JSON.stringify(connected));
       },
@@ -30,16 +96,57 @@ export function createWebSocketHandler(db: Database): WebSocketHandler {
           const msg = JSON.parse(raw) as ClientMessage;
 
           if (msg.type === 'subscribe') {
-            // Send the most recent events, in chronological order
-            const events = msg.sessionId
-              ? getEvents(db, { session_id: msg.sessionId, limit: 500, latest: true })
-              : getEvents(db, { limit: 500, latest: true });
-            const history: ServerMessage = { type: 'history', data: events as never[] };
+            if (msg.filter !== undefined) {
+              filters.set(ws, normalizeFilter(msg.filter));
+            }
+            const scope = toQueryFilters(filters.get(ws) ?? {});
+            // Send the most recent events, in chronological order. Backfilled and
+            // imported history is only sent when the session was asked for by id.
+            const events = getEvents(db, {
+              ...scope,
+              session_id: msg.sessionId,
+              live_only: !msg.sessionId,
+              limit: 500,
+              latest: true,
+            });
+            const history: ServerMessage = {
+              type: 'history',
+              data: events as never[],
+              lastSeq: getLatestSeq(db),
+              hasMore: false,
+            };
             ws.sendText(JSON.stringify(history));
           } else if (msg.type === 'replay') {
             // Replay events from a given timestamp using the centralized query builder
-            const events = getEvents(db, { fromTimestamp: msg.fromTimestamp, limit: 1000 });
-            const history: ServerMessage = { type: 'history', data: events as never[] };
+            const scope = toQueryFilters(filters.get(ws) ?? {});
+            const events = getEvents(db, { ...scope, fromTimestamp: msg.fromTimestamp, live_only: true, limit: 1000 });
+            const history: ServerMessage = {
+              type: 'history',
+              data: events as never[],
+              lastSeq: getLatestSeq(db),
+              hasMore: false,
+            };
+            ws.sendText(JSON.stringify(history));
+          } else if (msg.type === 'resume') {
+            // A lagging client is resyncing — it gets live events again
+            lagging.delete(ws);
+            if (msg.filter !== undefined) {
+              filters.set(ws, normalizeFilter(msg.filter));
+            }
+            const afterSeq = Number.isInteger(msg.afterSeq) && msg.afterSeq > 0 ? msg.afterSeq : 0;
+            const scope = toQueryFilters(filters.get(ws) ?? {});
+            // Fetch one extra row to learn whether another page follows
+            const rows = getEventsAfterSeq(db, afterSeq, scope, RESUME_PAGE_SIZE + 1);
+            const hasMore = rows.length > RESUME_PAGE_SIZE;
+            const page = hasMore ? rows.slice(0, RESUME_PAGE_SIZE) : rows;
+            const history: ServerMessage = {
+              type: 'history',
+              data: page.map((r) => r.event) as never[],
+              // A complete answer catches the client up to the head, even past
+              // trailing events its filter excludes
+              lastSeq: hasMore ? page[page.length - 1].seq : Math.max(getLatestSeq(db), afterSeq),
+              hasMore,
+            };
             ws.sendText(JSON.stringify(history));
           }
         } catch {
@@ -48,19 +155,40 @@ export function createWebSocketHandler(db: Database): WebSocketHandler {
       },
 
       close(ws) {
-        clients.delete(ws);
+        forget(ws);
+      },
+
+      pong(ws) {
+        awaitingPong.delete(ws);
       },
     },
 
     broadcast(message: ServerMessage) {
       const data = JSON.stringify(message);
+      const bytes = Buffer.byteLength(data);
       for (const client of clients) {
+        const filter = filters.get(client);
+        if (filter && !matchesMessage(message, filter)) {
+          continue;
+        }
+        if (lagging.has(client)) continue;
+        // Rather than queueing without bound for a slow consumer, drop its
+        // live events and have it resume from its last seq once it catches up
+        if (client.getBufferedAmount() > maxBufferedBytes) {
+          lagging.add(client);
+          const resync: ServerMessage = { type: 'resync', reason: 'backpressure' };
+          client.sendText(JSON.stringify(resync));
+          continue;
+        }
         client.sendText(data);
+        metrics?.bytesBroadcast('websocket', bytes);
       }
     },
 
     clientCount() {
       return clients.size;
     },
+
+    checkHeartbeats,
   };
 }
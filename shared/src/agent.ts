@@ -1,6 +1,7 @@
 /**
  * Agent state types for Claude Code Visualizer.
  */
+import type { TokenCounts } from './events';
 
 /** The lifecycle status of an agent in the visualization. */
 export type AgentStatus =
@@ -39,6 +40,8 @@ export interface AgentNode {
   activeToolCall: ActiveToolCall | null;
   notificationMessage: string | null;
   notificationType: 'notification' | 'permission_request' | null;
+  /** Cumulative token usage from the agent's transcript; null until it first stops. */
+  usage: TokenCounts | null;
 }
 
 /**
@@ -0,0 +1,96 @@
+/**
+ * How local clients of the server (hook scripts and the CLI) find it and
+ * authenticate.
+ *
+ * Server address resolution order:
+ * 1. CLAUDE_VISUALIZER_URL env var (full base URL, must be loopback)
+ * 2. VISUALIZER_PORT env var (port only, must be numeric 1-65535)
+ * 3. Default: http://localhost:3333
+ *
+ * Security: Only loopback addresses (localhost, 127.0.0.1, ::1) are accepted
+ * for CLAUDE_VISUALIZER_URL. Non-loopback URLs fall back to the default.
+ *
+ * Not re-exported from the package index: it reads files, which the browser
+ * client cannot.
+ */
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+const DEFAULT_BASE_URL = 'http://localhost:3333';
+
+/** Header carrying the shared secret written by `claude-visualizer start`. */
+export const TOKEN_HEADER = 'X-Visualizer-Token';
+
+/** Token file written by `claude-visualizer start`. */
+export const TOKEN_FILE = join(homedir(), '.claude-visualizer', 'token');
+
+/** Hostnames that are considered loopback / safe. */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Validate that a port string is a numeric integer in range 1-65535.
+ * Returns the validated port number, or null if invalid.
+ */
+function validatePort(portStr: string): number | null {
+  // Must be digits only (no spaces, dots, signs, or other characters)
+  if (!/^\d+$/.test(portStr)) {
+    return null;
+  }
+  const port = Number(portStr);
+  if (port < 1 || port > 65535) {
+    return null;
+  }
+  return port;
+}
+
+/** Base URL of the visualizer server, without a trailing slash. */
+export function resolveServerBaseUrl(env: Record<string, string | undefined> = process.env): string {
+  if (env.CLAUDE_VISUALIZER_URL) {
+    try {
+      const parsed = new URL(env.CLAUDE_VISUALIZER_URL);
+      if (LOOPBACK_HOSTS.has(parsed.hostname.toLowerCase())) {
+        return env.CLAUDE_VISUALIZER_URL.replace(/\/+$/, '');
+      }
+    } catch {
+      // Unparseable URL — fall through to default
+    }
+    // Non-loopback or unparseable: fall back to default (do not try VISUALIZER_PORT)
+    return DEFAULT_BASE_URL;
+  }
+
+  if (env.VISUALIZER_PORT) {
+    const port = validatePort(env.VISUALIZER_PORT);
+    if (port !== null) {
+      return `http://localhost:${port}`;
+    }
+    // Invalid port: fall back to default
+    return DEFAULT_BASE_URL;
+  }
+
+  return DEFAULT_BASE_URL;
+}
+
+/**
+ * Resolve the auth token for the visualizer server.
+ * Resolution order:
+ * 1. CLAUDE_VISUALIZER_TOKEN env var
+ * 2. Contents of ~/.claude-visualizer/token
+ * Returns null when neither is available (server running with auth disabled).
+ */
+export function resolveAuthToken(
+  tokenFile: string = TOKEN_FILE,
+  env: Record<string, string | undefined> = process.env,
+): string | null {
+  const fromEnv = env.CLAUDE_VISUALIZER_TOKEN?.trim();
+  if (fromEnv) {
+    return fromEnv;
+  }
+  try {
+    const fromFile = readFileSync(tokenFile, 'utf-8').trim();
+    return fromFile || null;
+  } catch {
+    // No token file — auth disabled or server never started via the CLI
+    return null;
+  }
+}
@@ -69,6 +69,12 @@ export interface SessionStartedEvent extends EventBase {
   agent_type: string;
   model: string;
   source: string;
+  /** Working directory the session was started in. Absent from older hooks. */
+  cwd?: string | null;
+  /** Top level of the git repository containing `cwd`, when detectable. */
+  git_root?: string | null;
+  /** Checked-out branch of that repository; null for a detached HEAD. */
+  git_branch?: string | null;
 }
 
 export interface SessionEndedEvent extends EventBase {
@@ -93,6 +99,29 @@ export interface ContextCompactionEvent extends EventBase {
   context_pressure: number;
 }
 
+/** Token counts as reported in the `usage` of Anthropic API responses. */
+export interface TokenCounts {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+/** Token usage read from an agent's transcript when it stops. */
+export interface TokenUsageEvent extends EventBase {
+  type: 'TokenUsage';
+  /** The session id for the main agent, the subagent's id otherwise. */
+  agent_id: string;
+  /** Model of the latest response, or null when the transcript names none. */
+  model: string | null;
+  /** Cumulative usage over every response in the transcript so far. */
+  total: TokenCounts;
+  /** Usage of the turn that just ended: responses since the last user prompt. */
+  turn: TokenCounts;
+  /** Number of API responses counted in `total`. */
+  responses: number;
+}
+
 // ---------------------------------------------------------------------------
 // Discriminated union
 // ---------------------------------------------------------------------------
@@ -108,7 +137,8 @@ export type VisualizerEvent =
   | SessionEndedEvent
   | UserPromptEvent
   | WaitingForUserEvent
-  | ContextCompactionEvent;
+  | ContextCompactionEvent
+  | TokenUsageEvent;
 
 /** All possible event type discriminator values. */
 export type VisualizerEventType = VisualizerEvent['type'];
@@ -1,3 +1,6 @@
 export * from './events';
 export * from './agent';
 export * from './messages';
+export * from './reducer';
+export * from './transcript';
+export * from './pricing';
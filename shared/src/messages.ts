@@ -2,7 +2,7 @@
  * WebSocket message types exchanged between server and client.
  */
 
-import type { VisualizerEvent } from './events';
+import type { VisualizerEvent, VisualizerEventType } from './events';
 
 // ---------------------------------------------------------------------------
 // Server → Client messages
@@ -10,12 +10,18 @@ import type { VisualizerEvent } from './events';
 
 export interface ServerEventMessage {
   type: 'event';
+  /** Server-assigned, monotonically increasing sequence number of the stored event. */
+  seq: number;
   data: VisualizerEvent;
 }
 
 export interface ServerHistoryMessage {
   type: 'history';
   data: VisualizerEvent[];
+  /** Sequence number the client is caught up to once it has applied `data`. */
+  lastSeq: number;
+  /** True when a resume page was truncated; request the next page from `lastSeq`. */
+  hasMore: boolean;
 }
 
 export interface ServerConnectedMessage {
@@ -23,18 +29,59 @@ export interface ServerConnectedMessage {
   sessionId: string;
 }
 
+/**
+ * Live events were dropped for this client because it was not keeping up.
+ * The client should send a `resume` from the last seq it applied.
+ */
+export interface ServerResyncMessage {
+  type: 'resync';
+  reason: 'backpressure';
+}
+
+/**
+ * The server is dropping events of a session that exceeds its ingest rate
+ * limit. Sent on the first drop, then at most once per second while it lasts.
+ */
+export interface ServerRateLimitedMessage {
+  type: 'rate_limited';
+  sessionId: string;
+  /** Events of this session dropped so far. */
+  dropped: number;
+  retryAfterSeconds: number;
+}
+
 export type ServerMessage =
   | ServerEventMessage
   | ServerHistoryMessage
-  | ServerConnectedMessage;
+  | ServerConnectedMessage
+  | ServerResyncMessage
+  | ServerRateLimitedMessage;
 
 // ---------------------------------------------------------------------------
 // Client → Server messages
 // ---------------------------------------------------------------------------
 
+/**
+ * Per-connection filter. Each list narrows the stream to events matching any
+ * of its entries; lists that are omitted (or empty) do not restrict anything.
+ * An event must satisfy every list that is present.
+ */
+export interface SubscriptionFilter {
+  sessionIds?: string[];
+  eventTypes?: VisualizerEventType[];
+  /** Matches the session_id, agent_id, from_agent or to_agent of an event. */
+  agentIds?: string[];
+}
+
 export interface ClientSubscribeMessage {
   type: 'subscribe';
+  /** Narrows only the history sent in response to this message. */
   sessionId?: string;
+  /**
+   * Replaces the connection's filter, applied to history, replays and live
+   * broadcasts until the next subscribe with a filter. `{}` clears it.
+   */
+  filter?: SubscriptionFilter;
 }
 
 export interface ClientReplayMessage {
@@ -42,6 +89,15 @@ export interface ClientReplayMessage {
   fromTimestamp: string;
 }
 
+/** Request the events stored after `afterSeq`, e.g. after a reconnect. */
+export interface ClientResumeMessage {
+  type: 'resume';
+  afterSeq: number;
+  /** Replaces the connection's filter, as in ClientSubscribeMessage. */
+  filter?: SubscriptionFilter;
+}
+
 export type ClientMessage =
   | ClientSubscribeMessage
-  | ClientReplayMessage;
+  | ClientReplayMessage
+  | ClientResumeMessage;
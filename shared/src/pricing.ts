@@ -0,0 +1,128 @@
+/**
+ * Model pricing and cost estimation.
+ *
+ * Prices are US dollars per million tokens, keyed by model name. A model is
+ * priced by the table entry named exactly like it, else by the longest entry
+ * it starts with (so `claude-sonnet-4-5-20250929` uses `claude-sonnet-4-5`),
+ * else by the family alias it contains (`opus`, `sonnet` or `haiku`). Costs
+ * are estimates: they use list prices and ignore batch and priority tiers.
+ */
+import type { TokenCounts } from './events';
+import { addTokenCounts, emptyTokenCounts } from './transcript';
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Writing to the prompt cache (5 minute TTL). */
+  cache_write: number;
+  cache_read: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+/** Aliases tried last, for model names no entry is a prefix of. */
+const FAMILIES = ['opus', 'sonnet', 'haiku'];
+
+const price = (input: number, output: number): ModelPricing => ({
+  input,
+  output,
+  cache_write: input * 1.25,
+  cache_read: input * 0.1,
+});
+
+/** List prices of the Claude models Claude Code runs on. */
+export const DEFAULT_PRICING: PricingTable = {
+  'claude-opus-4-6': price(5, 25),
+  'claude-opus-4-5': price(5, 25),
+  'claude-opus-4-1': price(15, 75),
+  'claude-opus-4': price(15, 75),
+  'claude-sonnet-4-6': price(3, 15),
+  'claude-sonnet-4-5': price(3, 15),
+  'claude-sonnet-4': price(3, 15),
+  'claude-3-7-sonnet': price(3, 15),
+  'claude-3-5-sonnet': price(3, 15),
+  'claude-haiku-4-5': price(1, 5),
+  'claude-3-5-haiku': price(0.8, 4),
+  'claude-3-haiku': price(0.25, 1.25),
+  'claude-3-opus': price(15, 75),
+  opus: price(5, 25),
+  sonnet: price(3, 15),
+  haiku: price(1, 5),
+};
+
+/** Pricing for a model, or null when the table has no entry that applies. */
+export function findPricing(
+  model: string | null | undefined,
+  table: PricingTable = DEFAULT_PRICING,
+): ModelPricing | null {
+  if (!model) return null;
+  const name = model.toLowerCase();
+  if (Object.hasOwn(table, name)) return table[name];
+
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (name.startsWith(key) && (best === null || key.length > best.length)) best = key;
+  }
+  if (best !== null) return table[best];
+
+  const family = FAMILIES.find((f) => name.includes(f) && Object.hasOwn(table, f));
+  return family ? table[family] : null;
+}
+
+/** Estimated cost in US dollars of the given usage at the given prices. */
+export function estimateCost(usage: TokenCounts, pricing: ModelPricing): number {
+  return (
+    (usage.input_tokens * pricing.input +
+      usage.output_tokens * pricing.output +
+      usage.cache_creation_input_tokens * pricing.cache_write +
+      usage.cache_read_input_tokens * pricing.cache_read) /
+    1_000_000
+  );
+}
+
+/** Usage of one agent, as last reported by a TokenUsage event. */
+export interface AgentUsage {
+  agent_id: string;
+  model: string | null;
+  usage: TokenCounts;
+  /** Null when the model is unknown or has no pricing. */
+  cost_usd: number | null;
+}
+
+export interface UsageTotals {
+  usage: TokenCounts;
+  /** Sum over the agents that could be priced; null when none could. */
+  cost_usd: number | null;
+  /** Models of agents whose cost is unknown, so the total is an underestimate. */
+  unpriced_models: string[];
+}
+
+/** Price one agent's usage. */
+export function priceAgentUsage(
+  agentId: string,
+  model: string | null,
+  usage: TokenCounts,
+  table: PricingTable = DEFAULT_PRICING,
+): AgentUsage {
+  const pricing = findPricing(model, table);
+  return { agent_id: agentId, model, usage, cost_usd: pricing ? estimateCost(usage, pricing) : null };
+}
+
+/** Add up the usage and cost of a session's agents. */
+export function totalUsage(agents: AgentUsage[]): UsageTotals {
+  let usage = emptyTokenCounts();
+  let cost: number | null = null;
+  const unpriced = new Set<string>();
+  for (const agent of agents) {
+    usage = addTokenCounts(usage, agent.usage);
+    if (agent.cost_usd === null) unpriced.add(agent.model ?? 'unknown');
+    else cost = (cost ?? 0) + agent.cost_usd;
+  }
+  return { usage, cost_usd: cost, unpriced_models: [...unpriced] };
+}
+
+/** Format a cost for display, e.g. `$0.0042` or `$12.30`. */
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,248 @@
+/**
+ * Pure agent-tree reducer for Claude Code Visualizer.
+ *
+ * Folds a stream of events into the set of agents, their parent/child links
+ * and in-flight tool calls. The client store, the server's
+ * /api/sessions/:id/tree endpoint and any other consumer share these
+ * semantics. The reducer never reads the clock or schedules work; transient
+ * animation states (an agent briefly 'spawning', a failed tool briefly
+ * showing 'error', completed agents fading out) are left to the caller.
+ */
+import type { VisualizerEvent } from './events';
+import type { ActiveToolCall, AgentNode, AgentTree } from './agent';
+
+export interface AgentTreeState {
+  agents: Map<string, AgentNode>;
+  rootAgentId: string | null;
+  /** In-progress tool calls, keyed by tool_use_id. */
+  activeToolCalls: Map<string, ActiveToolCall>;
+}
+
+export interface ReduceOptions {
+  /**
+   * True for events arriving in real time. Newly spawned agents then start
+   * in 'spawning' and the caller is expected to promote them to 'active';
+   * during history replay they become 'active' immediately.
+   */
+  live?: boolean;
+}
+
+export function createAgentTreeState(): AgentTreeState {
+  return { agents: new Map(), rootAgentId: null, activeToolCalls: new Map() };
+}
+
+function createAgentNode(id: string, parentId: string | null, fields: Partial<AgentNode> = {}): AgentNode {
+  return {
+    id,
+    parentId,
+    children: [],
+    status: 'active',
+    agentType: 'unknown',
+    model: 'unknown',
+    taskDescription: null,
+    position: { x: 0, y: 0, z: 0 },
+    activeToolCall: null,
+    notificationMessage: null,
+    notificationType: null,
+    usage: null,
+    ...fields,
+  };
+}
+
+/** Add `agent` to `agents`, linking it into its parent's children when the parent is known. */
+function attachAgent(agents: Map<string, AgentNode>, agent: AgentNode): void {
+  agents.set(agent.id, agent);
+  if (agent.parentId) {
+    const parent = agents.get(agent.parentId);
+    if (parent) {
+      agents.set(agent.parentId, { ...parent, children: [...parent.children, agent.id] });
+    }
+  }
+}
+
+/**
+ * Auto-create a root agent when an event references a session_id not in the
+ * agents map. This handles the case where the visualizer server starts after a
+ * Claude Code session has already begun, so SessionStarted was missed.
+ */
+function ensureAgentExists(state: AgentTreeState, sessionId: string): AgentTreeState {
+  if (state.agents.has(sessionId)) return state;
+  const agents = new Map(state.agents);
+  agents.set(sessionId, createAgentNode(sessionId, null));
+  return { ...state, agents, rootAgentId: state.rootAgentId ?? sessionId };
+}
+
+/** Apply `update` to the agent with `id`, returning the state unchanged when it does not exist. */
+function updateAgent(
+  state: AgentTreeState,
+  id: string,
+  update: (agent: AgentNode) => AgentNode,
+): AgentTreeState {
+  const agent = state.agents.get(id);
+  if (!agent) return state;
+  const agents = new Map(state.agents);
+  agents.set(id, update(agent));
+  return { ...state, agents };
+}
+
+/**
+ * Apply one event to the tree. Returns a new state object when anything
+ * changed and the same object otherwise; the input is never mutated.
+ */
+export function reduceAgentEvent(
+  state: AgentTreeState,
+  event: VisualizerEvent,
+  options: ReduceOptions = {},
+): AgentTreeState {
+  switch (event.type) {
+    case 'SessionStarted': {
+      const agents = new Map(state.agents);
+      const activeToolCalls = new Map(state.activeToolCalls);
+
+      // Remove previous root agent and its entire subtree so completed
+      // avatars don't accumulate across session restarts.
+      const prevRootId = state.rootAgentId;
+      if (prevRootId && prevRootId !== event.session_id && agents.has(prevRootId)) {
+        const removeSubtree = (id: string) => {
+          const agent = agents.get(id);
+          if (!agent) return;
+          if (agent.activeToolCall) {
+            activeToolCalls.delete(agent.activeToolCall.tool_use_id);
+          }
+          for (const childId of agent.children) {
+            removeSubtree(childId);
+          }
+          agents.delete(id);
+        };
+        removeSubtree(prevRootId);
+      }
+
+      agents.set(
+        event.session_id,
+        createAgentNode(event.session_id, null, { agentType: event.agent_type, model: event.model }),
+      );
+      return { agents, rootAgentId: event.session_id, activeToolCalls };
+    }
+
+    case 'AgentSpawned': {
+      const agents = new Map(state.agents);
+      // Fall back to session_id as parent — Claude Code's subagent-start hook
+      // provides the parent's session ID as session_id, but may not populate
+      // parent_session_id separately.
+      const parentId = event.parent_session_id ?? event.session_id;
+      attachAgent(
+        agents,
+        createAgentNode(event.agent_id, agents.has(parentId) ? parentId : null, {
+          status: options.live ? 'spawning' : 'active',
+          agentType: event.agent_type,
+          model: event.model,
+          taskDescription: event.task_description,
+        }),
+      );
+      return { ...state, agents };
+    }
+
+    case 'AgentCompleted': {
+      let next = state;
+      // Auto-create agent if AgentSpawned was missed (e.g. SubagentStart
+      // hook didn't fire). Use session_id as parentId since that's the
+      // parent session for subagent hooks.
+      if (!next.agents.has(event.agent_id)) {
+        const agents = new Map(next.agents);
+        attachAgent(agents, createAgentNode(event.agent_id, agents.has(event.session_id) ? event.session_id : null));
+        next = { ...next, agents };
+      }
+      return updateAgent(next, event.agent_id, (agent) => ({ ...agent, status: 'completed', activeToolCall: null }));
+    }
+
+    case 'ToolCallStarted': {
+      const toolCall: ActiveToolCall = {
+        tool_use_id: event.tool_use_id,
+        tool_name: event.tool_name,
+        started_at: event.timestamp,
+      };
+      const activeToolCalls = new Map(state.activeToolCalls);
+      activeToolCalls.set(event.tool_use_id, toolCall);
+
+      // Tool events use session_id as the agent identifier
+      const next = updateAgent(ensureAgentExists(state, event.session_id), event.session_id, (agent) => ({
+        ...agent,
+        status: 'tool_executing',
+        activeToolCall: toolCall,
+        notificationMessage: null,
+        notificationType: null,
+      }));
+      return { ...next, activeToolCalls };
+    }
+
+    case 'ToolCallCompleted':
+    case 'ToolCallFailed': {
+      const activeToolCalls = new Map(state.activeToolCalls);
+      activeToolCalls.delete(event.tool_use_id);
+
+      const next = updateAgent(ensureAgentExists(state, event.session_id), event.session_id, (agent) => ({
+        ...agent,
+        status: event.type === 'ToolCallFailed' ? 'error' : 'active',
+        activeToolCall: null,
+        notificationMessage: null,
+        notificationType: null,
+      }));
+      return { ...next, activeToolCalls };
+    }
+
+    case 'UserPrompt':
+      return ensureAgentExists(state, event.session_id);
+
+    case 'WaitingForUser':
+      return updateAgent(ensureAgentExists(state, event.session_id), event.session_id, (agent) => ({
+        ...agent,
+        status: 'waiting',
+        activeToolCall: null,
+        notificationMessage: event.message,
+        notificationType: event.notification_type,
+      }));
+
+    case 'SessionEnded': {
+      const next = ensureAgentExists(state, event.session_id);
+      if (!next.rootAgentId) return next;
+      // "stop" fires between turns — agent is waiting for user, not finished.
+      // Preserve notification fields when staying in waiting state (a preceding
+      // WaitingForUser event may have set them); clear on actual completion.
+      const isStop = event.reason === 'stop';
+      return updateAgent(next, next.rootAgentId, (root) => ({
+        ...root,
+        status: isStop ? 'waiting' : 'completed',
+        activeToolCall: null,
+        notificationMessage: isStop ? root.notificationMessage : null,
+        notificationType: isStop ? root.notificationType : null,
+      }));
+    }
+
+    case 'TokenUsage':
+      // The transcript names the model actually used, which the hooks may not know
+      return updateAgent(ensureAgentExists(state, event.session_id), event.agent_id, (agent) => ({
+        ...agent,
+        model: event.model ?? agent.model,
+        usage: event.total,
+      }));
+
+    case 'MessageSent':
+    case 'ContextCompaction':
+      // Messages are animation-only; context pressure is not tracked on agents.
+      return state;
+  }
+}
+
+/** Fold a sequence of events, in order, into a fresh tree state. */
+export function reduceAgentEvents(events: Iterable<VisualizerEvent>, options: ReduceOptions = {}): AgentTreeState {
+  let state = createAgentTreeState();
+  for (const event of events) {
+    state = reduceAgentEvent(state, event, options);
+  }
+  return state;
+}
+
+/** Convert the reducer's agent map into a serialisable `AgentTree`. */
+export function toAgentTree(state: AgentTreeState): AgentTree {
+  return Object.fromEntries(state.agents);
+}
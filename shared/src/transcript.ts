@@ -0,0 +1,167 @@
+/**
+ * Claude Code transcript parsing.
+ *
+ * Claude Code appends every message of a session to a JSONL transcript and
+ * passes its path to each hook. Assistant entries carry the model and token
+ * usage of the API response they belong to. A response with several content
+ * blocks is written as several entries repeating the same message id and
+ * usage, so usage is counted once per message id. Parsing is pure and
+ * tolerant: unreadable lines are skipped and nothing here throws.
+ */
+import type { TokenCounts } from './events';
+
+/** One line of a transcript. Only the fields the visualizer reads are typed. */
+export interface TranscriptEntry {
+  type: string;
+  uuid?: string;
+  timestamp?: string;
+  sessionId?: string;
+  /** Working directory and git branch of the session when the entry was written. */
+  cwd?: string;
+  gitBranch?: string;
+  /** Set on subagent entries (in subagent transcripts, and in main transcripts of older versions). */
+  isSidechain?: boolean;
+  /** Set on entries Claude Code injects itself, such as command caveats. */
+  isMeta?: boolean;
+  message?: {
+    id?: string;
+    role?: string;
+    model?: string;
+    content?: unknown;
+    usage?: Record<string, unknown>;
+  };
+}
+
+export interface TranscriptSummary {
+  /** Model of the latest response, or null when none names a model. */
+  model: string | null;
+  /** Usage over every response. */
+  total: TokenCounts;
+  /** Usage of the responses since the last user prompt. */
+  turn: TokenCounts;
+  /** Number of API responses counted. */
+  responses: number;
+  /** Text of the last response that had any, e.g. a subagent's final answer. */
+  finalText: string | null;
+}
+
+export interface SummarizeOptions {
+  /** Count sidechain (subagent) entries too. Needed for subagent transcripts. */
+  includeSidechains?: boolean;
+}
+
+/** Model name Claude Code writes on responses it synthesizes itself, e.g. for API errors. */
+const SYNTHETIC_MODEL = '<synthetic>';
+
+export function emptyTokenCounts(): TokenCounts {
+  return { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+}
+
+export function addTokenCounts(a: TokenCounts, b: TokenCounts): TokenCounts {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cache_creation_input_tokens: a.cache_creation_input_tokens + b.cache_creation_input_tokens,
+    cache_read_input_tokens: a.cache_read_input_tokens + b.cache_read_input_tokens,
+  };
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+/** Token counts from an API `usage` object; missing or malformed counts are 0. */
+export function toTokenCounts(usage: Record<string, unknown>): TokenCounts {
+  return {
+    input_tokens: count(usage.input_tokens),
+    output_tokens: count(usage.output_tokens),
+    cache_creation_input_tokens: count(usage.cache_creation_input_tokens),
+    cache_read_input_tokens: count(usage.cache_read_input_tokens),
+  };
+}
+
+/** Parse transcript text into entries, skipping blank and malformed lines. */
+export function parseTranscriptLines(text: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as unknown;
+      if (entry && typeof entry === 'object' && typeof (entry as TranscriptEntry).type === 'string') {
+        entries.push(entry as TranscriptEntry);
+      }
+    } catch {
+      // A line being written while we read, or not JSON at all
+    }
+  }
+  return entries;
+}
+
+function contentBlocks(entry: TranscriptEntry): Record<string, unknown>[] {
+  const content = entry.message?.content;
+  if (!Array.isArray(content)) return [];
+  return content.filter((b): b is Record<string, unknown> => !!b && typeof b === 'object');
+}
+
+/**
+ * Whether an entry is a prompt typed by the user. Tool results are also
+ * written as user entries and do not count.
+ */
+export function isUserPrompt(entry: TranscriptEntry): boolean {
+  if (entry.type !== 'user' || entry.isMeta) return false;
+  const content = entry.message?.content;
+  if (typeof content === 'string') return true;
+  const blocks = contentBlocks(entry);
+  return blocks.length > 0 && !blocks.some((b) => b.type === 'tool_result');
+}
+
+/** Text blocks of an assistant entry, joined; empty when it has none. */
+export function entryText(entry: TranscriptEntry): string {
+  const content = entry.message?.content;
+  if (typeof content === 'string') return content;
+  return contentBlocks(entry)
+    .filter((b) => b.type === 'text' && typeof b.text === 'string')
+    .map((b) => b.text as string)
+    .join('\n');
+}
+
+/** Sum up the model, token usage and final answer of a transcript. */
+export function summarizeTranscript(entries: TranscriptEntry[], options: SummarizeOptions = {}): TranscriptSummary {
+  // Latest usage per response; entries of one response repeat it, later ones are more complete
+  const usage = new Map<string, TokenCounts>();
+  let turnIds = new Set<string>();
+  let model: string | null = null;
+  let finalText: string | null = null;
+  let finalTextId: string | null = null;
+
+  entries.forEach((entry, index) => {
+    if (entry.isSidechain && !options.includeSidechains) return;
+
+    if (isUserPrompt(entry)) {
+      turnIds = new Set();
+      return;
+    }
+    if (entry.type !== 'assistant' || !entry.message) return;
+
+    const id = entry.message.id ?? entry.uuid ?? `#${index}`;
+    if (entry.message.model && entry.message.model !== SYNTHETIC_MODEL) model = entry.message.model;
+    if (entry.message.usage && typeof entry.message.usage === 'object') {
+      usage.set(id, toTokenCounts(entry.message.usage));
+      turnIds.add(id);
+    }
+
+    const text = entryText(entry);
+    if (text) {
+      finalText = finalTextId === id && finalText ? `${finalText}\n${text}` : text;
+      finalTextId = id;
+    }
+  });
+
+  let total = emptyTokenCounts();
+  let turn = emptyTokenCounts();
+  for (const [id, counts] of usage) {
+    total = addTokenCounts(total, counts);
+    if (turnIds.has(id)) turn = addTokenCounts(turn, counts);
+  }
+  return { model, total, turn, responses: usage.size, finalText };
+}